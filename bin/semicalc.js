@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+
+// lib/ is build output, absent from a fresh checkout until `npm run build:lib`
+let runCli;
+try {
+  ({ runCli } = await import('../lib/index.js'));
+} catch (error) {
+  if (error?.code !== 'ERR_MODULE_NOT_FOUND') throw error;
+  process.stderr.write('semicalc: the library is not built yet; run `npm run build:lib` in the semicalc checkout first\n');
+  process.exit(1);
+}
+
+const { stdout, stderr, exitCode } = runCli(process.argv.slice(2), (path) => readFileSync(path, 'utf8'));
+process.stdout.write(stdout);
+process.stderr.write(stderr);
+process.exitCode = exitCode;
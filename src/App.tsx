@@ -1,149 +1,375 @@
-import React, { useState, useEffect } from 'react';
-import { Calculator, Zap, Thermometer, Settings, Info, Edit3, RotateCcw } from 'lucide-react';
-
-interface MaterialProperties {
-  name: string;
-  bandgap: number; // eV at 300K
-  Nc300: number; // cm^-3 at 300K
-  Nv300: number; // cm^-3 at 300K
-  temperatureCoeff: number; // eV/K for bandgap
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Calculator,
+  Zap,
+  Thermometer,
+  Settings,
+  Info,
+  Edit3,
+  RotateCcw,
+  Layers,
+  Plus,
+  Copy,
+  Trash2,
+  Upload,
+  Download,
+  Sun,
+  AlertTriangle
+} from 'lucide-react';
+import AlloyPanel from './components/AlloyPanel';
+import BandDiagram from './components/BandDiagram';
+import BatchPanel from './components/BatchPanel';
+import DopingSweepPanel from './components/DopingSweepPanel';
+import HallPanel from './components/HallPanel';
+import InverseSolverPanel from './components/InverseSolverPanel';
+import JunctionPanel from './components/JunctionPanel';
+import MaterialEditor from './components/MaterialEditor';
+import NumberInput from './components/NumberInput';
+import RecombinationEditor from './components/RecombinationEditor';
+import ResistivityPanel from './components/ResistivityPanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import TemperatureSweepPanel from './components/TemperatureSweepPanel';
+import UncertaintyPanel from './components/UncertaintyPanel';
+import WorksheetPanel from './components/WorksheetPanel';
+import { alloyAt, libraryAlloys } from './physics/alloy';
+import { bandgapAt, bandgapModels } from './physics/bandgap';
+import { defaultConstants, PhysicalConstants } from './physics/constants';
+import { diagnose } from './physics/diagnostics';
+import { calculateConcentrations, CarrierStatistics, densityOfStates, IonizationModel } from './physics/engine';
+import { InverseVariable } from './physics/inverse';
+import { defaultMaterials, MaterialProperties } from './physics/materials';
+import { BandgapNarrowingModel, bandgapNarrowingModels } from './physics/narrowing';
+import { RecombinationParameters, solveSteadyState } from './physics/recombination';
+import { calculateTransport, CarrierType } from './physics/transport';
+import {
+  createMaterialId,
+  defaultMaterialFor,
+  isMaterialModified,
+  loadLibrary,
+  MaterialLibraryError,
+  parseLibrary,
+  saveLibrary,
+  serializeLibrary
+} from './storage/materialLibrary';
+import {
+  createScenarioId,
+  defaultScenario,
+  loadSavedScenarios,
+  mergeScenarioMaterial,
+  SavedScenario,
+  saveSavedScenarios,
+  Scenario,
+  ScenarioError,
+  scenarioFromHash,
+  scenarioHash,
+  scenariosEqual
+} from './storage/scenario';
+import { downloadFile } from './utils/download';
+import { formatDeviation, formatEnergy, formatFraction, formatLog10, formatScientific } from './utils/format';
+import { createHistory, pushHistory, redoHistory, undoHistory } from './utils/history';
+
+const constantFields: { key: keyof PhysicalConstants; label: string; description: string; unit: string }[] = [
+  { key: 'kB', label: 'Boltzmann Constant (kB)', description: 'Used in ni calculation and Fermi level', unit: 'eV/K' },
+  { key: 'planck', label: 'Planck Constant (h)', description: 'Nc and Nv of effective-mass materials', unit: 'J·s' },
+  { key: 'electronMass', label: 'Electron Mass (m0)', description: 'Scales the density-of-states masses', unit: 'kg' }
+];
+
+// Input changes are grouped into one undo step once they settle for this long
+const HISTORY_DEBOUNCE_MS = 500;
+
+interface StartupState {
+  materials: MaterialProperties[];
+  scenario: Scenario;
+  error: string | null;
 }
 
-const defaultMaterials: MaterialProperties[] = [
-  {
-    name: 'Silicon',
-    bandgap: 1.12,
-    Nc300: 2.8e19,
-    Nv300: 1.04e19,
-    temperatureCoeff: -2.73e-4
-  },
-  {
-    name: 'Germanium',
-    bandgap: 0.66,
-    Nc300: 1.04e19,
-    Nv300: 6.0e18,
-    temperatureCoeff: -3.9e-4
-  },
-  {
-    name: 'GaAs',
-    bandgap: 1.42,
-    Nc300: 4.7e17,
-    Nv300: 7.0e18,
-    temperatureCoeff: -5.4e-4
+// A scenario in the URL takes precedence over the defaults on first load
+const readStartupState = (): StartupState => {
+  const library = loadLibrary();
+  try {
+    const shared = scenarioFromHash(window.location.hash);
+    if (shared === null) return { materials: library, scenario: defaultScenario, error: null };
+    const merged = mergeScenarioMaterial(library, shared, 'copy');
+    return { materials: merged.materials, scenario: { ...shared, materialId: merged.materialId }, error: null };
+  } catch (error) {
+    const message = error instanceof ScenarioError ? error.message : 'Could not read the shared scenario';
+    return { materials: library, scenario: defaultScenario, error: message };
   }
-];
+};
 
 function App() {
-  const [materials, setMaterials] = useState<MaterialProperties[]>(defaultMaterials);
-  const [selectedMaterial, setSelectedMaterial] = useState(0);
-  const [temperature, setTemperature] = useState(300);
-  const [donorConc, setDonorConc] = useState(1e16);
-  const [acceptorConc, setAcceptorConc] = useState(0);
-  const [kB, setKB] = useState(8.617e-5); // Boltzmann constant in eV/K
+  const [startup] = useState(readStartupState);
+  const [materials, setMaterials] = useState<MaterialProperties[]>(startup.materials);
+  const [selectedMaterialId, setSelectedMaterialId] = useState(startup.scenario.materialId);
+  const [composition, setComposition] = useState(startup.scenario.composition);
+  const [temperature, setTemperature] = useState(startup.scenario.temperature);
+  const [donorConc, setDonorConc] = useState(startup.scenario.donorConc);
+  const [acceptorConc, setAcceptorConc] = useState(startup.scenario.acceptorConc);
+  const [constants, setConstants] = useState<PhysicalConstants>(startup.scenario.constants);
+  const [ionization, setIonization] = useState<IonizationModel>(startup.scenario.ionization);
+  const [statistics, setStatistics] = useState<CarrierStatistics>(startup.scenario.statistics);
+  const [narrowing, setNarrowing] = useState<BandgapNarrowingModel>(startup.scenario.narrowing);
+  const [compareBoltzmann, setCompareBoltzmann] = useState(false);
+  const [thickness, setThickness] = useState(startup.scenario.thickness); // µm
+  const [illuminated, setIlluminated] = useState(startup.scenario.illuminated);
+  const [generationRate, setGenerationRate] = useState(startup.scenario.generationRate); // cm^-3 s^-1
+  const [recombination, setRecombination] = useState<RecombinationParameters>(startup.scenario.recombination);
   const [showConstantsEditor, setShowConstantsEditor] = useState(false);
-  
-  const [results, setResults] = useState({
-    ni: 0,
-    n: 0,
-    p: 0,
-    fermiLevel: 0,
-    conductionType: ''
-  });
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [savedScenarios, setSavedScenarios] = useState<SavedScenario[]>(() => loadSavedScenarios());
+  const [scenarioError, setScenarioError] = useState<string | null>(startup.error);
 
-  const defaultKB = 8.617e-5; // Default Boltzmann constant
+  const alloys = useMemo(() => libraryAlloys(materials), [materials]);
+  const selectedAlloy = alloys.find((alloy) => alloy.id === selectedMaterialId);
+  const selectedMaterial = useMemo(
+    () => selectedAlloy
+      ? alloyAt(selectedAlloy, composition)
+      : materials.find((material) => material.id === selectedMaterialId) ?? materials[0],
+    [selectedAlloy, composition, materials, selectedMaterialId]
+  );
 
+  // A full browser storage keeps the edits in memory and says why they will not persist
   useEffect(() => {
-    calculateConcentrations();
-  }, [selectedMaterial, temperature, donorConc, acceptorConc, kB, materials]);
-
-  const calculateConcentrations = () => {
-    const material = materials[selectedMaterial];
-    
-    // Temperature-dependent bandgap
-    const Eg = material.bandgap + material.temperatureCoeff * (temperature - 300);
-    
-    // Temperature-dependent effective density of states
-    const tempRatio = temperature / 300;
-    const Nc = material.Nc300 * Math.pow(tempRatio, 1.5);
-    const Nv = material.Nv300 * Math.pow(tempRatio, 1.5);
-    
-    // Intrinsic carrier concentration
-    const ni = Math.sqrt(Nc * Nv) * Math.exp(-Eg / (2 * kB * temperature));
-    
-    // Net doping
-    const netDoping = donorConc - acceptorConc;
-    
-    let n, p, fermiLevel;
-    let conductionType;
-    
-    if (Math.abs(netDoping) < ni) {
-      // Intrinsic semiconductor
-      n = ni;
-      p = ni;
-      fermiLevel = 0; // Relative to intrinsic Fermi level
-      conductionType = 'Intrinsic';
-    } else if (netDoping > 0) {
-      // n-type semiconductor
-      if (netDoping >> ni) {
-        n = netDoping;
-        p = ni * ni / n;
-      } else {
-        // Solve quadratic equation for exact solution
-        const discriminant = Math.sqrt(netDoping * netDoping + 4 * ni * ni);
-        n = (netDoping + discriminant) / 2;
-        p = ni * ni / n;
-      }
-      fermiLevel = kB * temperature * Math.log(n / ni);
-      conductionType = 'n-type';
-    } else {
-      // p-type semiconductor
-      const netAcceptor = Math.abs(netDoping);
-      if (netAcceptor >> ni) {
-        p = netAcceptor;
-        n = ni * ni / p;
-      } else {
-        // Solve quadratic equation for exact solution
-        const discriminant = Math.sqrt(netAcceptor * netAcceptor + 4 * ni * ni);
-        p = (netAcceptor + discriminant) / 2;
-        n = ni * ni / p;
-      }
-      fermiLevel = -kB * temperature * Math.log(p / ni);
-      conductionType = 'p-type';
+    try {
+      saveLibrary(materials);
+    } catch (error) {
+      setLibraryError(error instanceof MaterialLibraryError ? error.message : 'Could not save the material library');
+    }
+  }, [materials]);
+
+  useEffect(() => {
+    try {
+      saveSavedScenarios(savedScenarios);
+    } catch (error) {
+      setScenarioError(error instanceof ScenarioError ? error.message : 'Could not save the scenarios');
     }
-    
-    setResults({
-      ni,
-      n,
-      p,
-      fermiLevel,
-      conductionType
+  }, [savedScenarios]);
+
+  const scenario = useMemo<Scenario>(() => ({
+    materialId: selectedAlloy?.id ?? selectedMaterial.id,
+    material: selectedAlloy ? null : selectedMaterial,
+    composition,
+    temperature,
+    donorConc,
+    acceptorConc,
+    constants,
+    ionization,
+    statistics,
+    narrowing,
+    thickness,
+    illuminated,
+    generationRate,
+    recombination
+  }), [
+    selectedAlloy, selectedMaterial, composition, temperature, donorConc, acceptorConc, constants,
+    ionization, statistics, narrowing, thickness, illuminated, generationRate, recombination
+  ]);
+  const [scenarioHistory, setScenarioHistory] = useState(() => createHistory(scenario));
+  const scenarioSettled = scenariosEqual(scenarioHistory.present, scenario);
+
+  // Keeps the URL and the undo history in step with the inputs once they settle
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      window.history.replaceState(null, '', scenarioHash(scenario));
+      setScenarioHistory((current) => scenariosEqual(current.present, scenario) ? current : pushHistory(current, scenario));
+    }, HISTORY_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [scenario]);
+
+  const applyScenario = (next: Scenario, mode: 'replace' | 'copy') => {
+    const merged = mergeScenarioMaterial(materials, next, mode);
+    setMaterials(merged.materials);
+    setSelectedMaterialId(merged.materialId);
+    setComposition(next.composition);
+    setTemperature(next.temperature);
+    setDonorConc(next.donorConc);
+    setAcceptorConc(next.acceptorConc);
+    setConstants(next.constants);
+    setIonization(next.ionization);
+    setStatistics(next.statistics);
+    setNarrowing(next.narrowing);
+    setThickness(next.thickness);
+    setIlluminated(next.illuminated);
+    setGenerationRate(next.generationRate);
+    setRecombination(next.recombination);
+  };
+
+  // The hash listener below is added once and reads the current inputs through this ref
+  const latestScenario = useRef({ scenario, applyScenario });
+  latestScenario.current = { scenario, applyScenario };
+
+  // Links pasted into an open tab only change the hash
+  useEffect(() => {
+    const loadFromHash = () => {
+      try {
+        const shared = scenarioFromHash(window.location.hash);
+        const { scenario: current, applyScenario: apply } = latestScenario.current;
+        if (shared && !scenariosEqual(shared, current)) apply(shared, 'copy');
+        setScenarioError(null);
+      } catch (error) {
+        setScenarioError(error instanceof ScenarioError ? error.message : 'Could not read the shared scenario');
+      }
+    };
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, []);
+
+  const undo = () => {
+    // Changes still waiting to settle count as the latest step
+    const committed = scenarioSettled ? scenarioHistory : pushHistory(scenarioHistory, scenario);
+    const previous = undoHistory(committed);
+    setScenarioHistory(previous);
+    applyScenario(previous.present, 'replace');
+  };
+
+  const redo = () => {
+    const next = redoHistory(scenarioHistory);
+    setScenarioHistory(next);
+    applyScenario(next.present, 'replace');
+  };
+
+  const saveScenario = (name: string) => {
+    setSavedScenarios([...savedScenarios, { id: createScenarioId(), name, savedAt: new Date().toISOString(), scenario }]);
+  };
+  
+  const concentrationInput = useMemo(() => ({
+    material: selectedMaterial,
+    temperature,
+    donorConc,
+    acceptorConc,
+    ...constants,
+    ionization,
+    statistics,
+    narrowing
+  }), [selectedMaterial, temperature, donorConc, acceptorConc, constants, ionization, statistics, narrowing]);
+
+  const results = useMemo(() => calculateConcentrations(concentrationInput), [concentrationInput]);
+
+  const diagnostics = useMemo(() => diagnose(concentrationInput, results), [concentrationInput, results]);
+  const hasInputErrors = diagnostics.some(({ level }) => level === 'error');
+
+  const boltzmannResults = useMemo(() => {
+    if (!compareBoltzmann || statistics === 'boltzmann') return null;
+    return calculateConcentrations({
+      material: selectedMaterial,
+      temperature,
+      donorConc,
+      acceptorConc,
+      ...constants,
+      ionization,
+      statistics: 'boltzmann',
+      narrowing
     });
+  }, [compareBoltzmann, selectedMaterial, temperature, donorConc, acceptorConc, constants, ionization, statistics, narrowing]);
+
+  const recombinationValid = recombination.tauN > 0 && recombination.tauP > 0
+    && recombination.radiative >= 0 && recombination.augerN >= 0 && recombination.augerP >= 0 && generationRate >= 0;
+  const steadyState = useMemo(() => {
+    if (!illuminated || !recombinationValid) return null;
+    return solveSteadyState(results, constants.kB * temperature, generationRate, recombination);
+  }, [illuminated, recombinationValid, results, constants, temperature, generationRate, recombination]);
+
+  // Carrier densities actually present: the steady state under injection, otherwise equilibrium
+  const carriers = steadyState ?? results;
+
+  const densityAt300 = densityOfStates(
+    selectedMaterial,
+    300,
+    constants.kB,
+    constants.planck,
+    constants.electronMass
+  );
+
+  const transport = useMemo(() => calculateTransport(
+    { material: selectedMaterial, temperature, donorConc, acceptorConc, ...constants },
+    results,
+    thickness * 1e-4
+  ), [selectedMaterial, temperature, donorConc, acceptorConc, constants, results, thickness]);
+
+  const applyDoping = (type: CarrierType, doping: number) => {
+    setDonorConc(type === 'n' ? doping : 0);
+    setAcceptorConc(type === 'p' ? doping : 0);
+  };
+
+  const applyHallFit = (donors: number, acceptors: number) => {
+    setDonorConc(donors);
+    setAcceptorConc(acceptors);
+  };
+
+  const applyInverseSolution = (variable: InverseVariable, value: number) => {
+    // The temperature slider works in whole kelvin
+    if (variable === 'temperature') setTemperature(Math.round(value));
+    if (variable === 'donorConc') setDonorConc(value);
+    if (variable === 'acceptorConc') setAcceptorConc(value);
+  };
+
+  const updateMaterialProperty = <K extends keyof MaterialProperties>(
+    id: string,
+    property: K,
+    value: MaterialProperties[K]
+  ) => {
+    setMaterials(materials.map((material) => material.id === id ? { ...material, [property]: value } : material));
+  };
+
+  const addMaterial = () => {
+    const material = { ...defaultMaterials[0], id: createMaterialId(), name: 'New Material' };
+    setMaterials([...materials, material]);
+    setSelectedMaterialId(material.id);
   };
 
-  const formatScientific = (value: number): string => {
-    if (value === 0) return '0';
-    const exponent = Math.floor(Math.log10(Math.abs(value)));
-    const coefficient = value / Math.pow(10, exponent);
-    return `${coefficient.toFixed(2)} × 10^${exponent}`;
+  const duplicateMaterial = (id: string) => {
+    const index = materials.findIndex((material) => material.id === id);
+    const copy = { ...materials[index], id: createMaterialId(), name: `${materials[index].name} (copy)` };
+    setMaterials([...materials.slice(0, index + 1), copy, ...materials.slice(index + 1)]);
   };
 
-  const formatEnergy = (value: number): string => {
-    return `${(value * 1000).toFixed(1)} meV`;
+  const deleteMaterial = (id: string) => {
+    if (materials.length === 1) return;
+    const remaining = materials.filter((material) => material.id !== id);
+    setMaterials(remaining);
+    if (id === selectedMaterialId) setSelectedMaterialId(remaining[0].id);
   };
 
-  const updateMaterialProperty = (index: number, property: keyof MaterialProperties, value: number) => {
-    const newMaterials = [...materials];
-    newMaterials[index] = { ...newMaterials[index], [property]: value };
-    setMaterials(newMaterials);
+  const resetMaterial = (id: string) => {
+    const original = defaultMaterialFor(id);
+    if (!original) return;
+    setMaterials(materials.map((material) => material.id === id ? original : material));
   };
 
   const resetToDefaults = () => {
-    setMaterials(defaultMaterials);
-    setKB(defaultKB);
+    // Restores every built-in material (including deleted ones) but keeps custom entries
+    const custom = materials.filter((material) => !defaultMaterialFor(material.id));
+    setMaterials([...defaultMaterials, ...custom]);
+    setConstants(defaultConstants);
   };
 
   const isModified = () => {
-    return kB !== defaultKB || JSON.stringify(materials) !== JSON.stringify(defaultMaterials);
+    return (Object.keys(defaultConstants) as (keyof PhysicalConstants)[])
+      .some((key) => constants[key] !== defaultConstants[key])
+      || defaultMaterials.some((original) => {
+        const current = materials.find((material) => material.id === original.id);
+        return !current || isMaterialModified(current);
+      });
+  };
+
+  const exportLibrary = () => {
+    downloadFile('material-library.json', serializeLibrary(materials), 'application/json');
+  };
+
+  const importLibrary = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLibrary(await file.text());
+      setMaterials(imported);
+      if (!selectedAlloy && !imported.some((material) => material.id === selectedMaterialId)) {
+        setSelectedMaterialId(imported[0].id);
+      }
+      setLibraryError(null);
+    } catch (error) {
+      setLibraryError(error instanceof MaterialLibraryError ? error.message : 'Could not read the library file');
+    }
   };
 
   return (
@@ -167,6 +393,19 @@ function App() {
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Input Panel */}
           <div className="space-y-6">
+            <ScenarioPanel
+              saved={savedScenarios}
+              canUndo={scenarioHistory.past.length > 0 || !scenarioSettled}
+              canRedo={scenarioHistory.future.length > 0 && scenarioSettled}
+              shareUrl={`${window.location.origin}${window.location.pathname}${window.location.search}${scenarioHash(scenario)}`}
+              error={scenarioError}
+              onUndo={undo}
+              onRedo={redo}
+              onSave={saveScenario}
+              onLoad={(entry) => applyScenario(entry.scenario, 'copy')}
+              onDelete={(id) => setSavedScenarios(savedScenarios.filter((entry) => entry.id !== id))}
+            />
+
             {/* Physical Constants */}
             <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
               <div className="flex items-center justify-between mb-4">
@@ -197,76 +436,104 @@ function App() {
               </div>
               
               <div className="space-y-3">
-                <div className="flex justify-between items-center p-3 bg-purple-50 rounded-lg">
-                  <div>
-                    <span className="font-medium text-purple-800">Boltzmann Constant (kB)</span>
-                    <p className="text-sm text-purple-600">Used in ni calculation and Fermi level</p>
-                  </div>
-                  <div className="text-right">
-                    {showConstantsEditor ? (
-                      <input
-                        type="number"
-                        value={kB}
-                        onChange={(e) => setKB(Number(e.target.value))}
-                        className="w-32 px-2 py-1 border border-purple-300 rounded text-sm"
-                        step="1e-6"
-                      />
-                    ) : (
-                      <span className="font-mono text-purple-900">{kB.toExponential(3)}</span>
-                    )}
-                    <p className="text-xs text-purple-600">eV/K</p>
+                {constantFields.map(({ key, label, description, unit }) => (
+                  <div key={key} className="flex justify-between items-center p-3 bg-purple-50 rounded-lg">
+                    <div>
+                      <span className="font-medium text-purple-800">{label}</span>
+                      <p className="text-sm text-purple-600">{description}</p>
+                    </div>
+                    <div className="text-right">
+                      {showConstantsEditor ? (
+                        <NumberInput
+                          value={constants[key]}
+                          onChange={(value) => setConstants({ ...constants, [key]: value })}
+                          className="w-32 px-2 py-1 border border-purple-300 rounded text-sm"
+                          positive
+                        />
+                      ) : (
+                        <span className="font-mono text-purple-900">{constants[key].toExponential(4)}</span>
+                      )}
+                      <p className="text-xs text-purple-600">{unit}</p>
+                    </div>
                   </div>
-                </div>
+                ))}
 
                 {showConstantsEditor && (
                   <div className="border-t pt-4">
-                    <h3 className="font-medium text-gray-800 mb-3">Material Properties Editor</h3>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                      <h3 className="font-medium text-gray-800">Material Library</h3>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={addMaterial}
+                          className="px-3 py-1 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+                        >
+                          <Plus className="w-3 h-3" />
+                          Add
+                        </button>
+                        <label className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 cursor-pointer">
+                          <Upload className="w-3 h-3" />
+                          Import
+                          <input type="file" accept="application/json,.json" onChange={importLibrary} className="hidden" />
+                        </label>
+                        <button
+                          onClick={exportLibrary}
+                          className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+                        >
+                          <Download className="w-3 h-3" />
+                          Export
+                        </button>
+                      </div>
+                    </div>
+                    {libraryError && (
+                      <p className="text-sm text-red-700 bg-red-50 p-3 rounded-lg mb-3">{libraryError}</p>
+                    )}
                     <div className="space-y-4">
-                      {materials.map((material, index) => (
-                        <div key={index} className="border border-gray-200 rounded-lg p-4">
-                          <h4 className="font-medium text-gray-700 mb-3">{material.name}</h4>
-                          <div className="grid grid-cols-2 gap-3 text-sm">
-                            <div>
-                              <label className="block text-gray-600 mb-1">Bandgap (eV)</label>
-                              <input
-                                type="number"
-                                value={material.bandgap}
-                                onChange={(e) => updateMaterialProperty(index, 'bandgap', Number(e.target.value))}
-                                className="w-full px-2 py-1 border border-gray-300 rounded"
-                                step="0.01"
-                              />
-                            </div>
-                            <div>
-                              <label className="block text-gray-600 mb-1">Temp Coeff (eV/K)</label>
-                              <input
-                                type="number"
-                                value={material.temperatureCoeff}
-                                onChange={(e) => updateMaterialProperty(index, 'temperatureCoeff', Number(e.target.value))}
-                                className="w-full px-2 py-1 border border-gray-300 rounded"
-                                step="1e-5"
-                              />
-                            </div>
-                            <div>
-                              <label className="block text-gray-600 mb-1">Nc (300K) cm⁻³</label>
-                              <input
-                                type="number"
-                                value={material.Nc300}
-                                onChange={(e) => updateMaterialProperty(index, 'Nc300', Number(e.target.value))}
-                                className="w-full px-2 py-1 border border-gray-300 rounded"
-                                step="1e17"
-                              />
-                            </div>
-                            <div>
-                              <label className="block text-gray-600 mb-1">Nv (300K) cm⁻³</label>
-                              <input
-                                type="number"
-                                value={material.Nv300}
-                                onChange={(e) => updateMaterialProperty(index, 'Nv300', Number(e.target.value))}
-                                className="w-full px-2 py-1 border border-gray-300 rounded"
-                                step="1e17"
-                              />
-                            </div>
+                      {materials.map((material) => (
+                        <div key={material.id} className="border border-gray-200 rounded-lg p-4">
+                          <div className="flex items-center gap-2 mb-3">
+                            <input
+                              type="text"
+                              value={material.name}
+                              onChange={(e) => updateMaterialProperty(material.id, 'name', e.target.value)}
+                              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded font-medium text-gray-700"
+                              aria-label="Material name"
+                            />
+                            {defaultMaterialFor(material.id) ? (
+                              isMaterialModified(material) && (
+                                <span className="px-2 py-1 bg-orange-100 text-orange-800 text-xs rounded-full">Modified</span>
+                              )
+                            ) : (
+                              <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">Custom</span>
+                            )}
+                            {isMaterialModified(material) && (
+                              <button
+                                onClick={() => resetMaterial(material.id)}
+                                className="p-1 text-gray-500 hover:text-gray-800"
+                                title="Reset to built-in values"
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => duplicateMaterial(material.id)}
+                              className="p-1 text-gray-500 hover:text-gray-800"
+                              title="Duplicate"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => deleteMaterial(material.id)}
+                              disabled={materials.length === 1}
+                              className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-500"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
                           </div>
+                          <MaterialEditor
+                            material={material}
+                            onChange={(property, value) => updateMaterialProperty(material.id, property, value)}
+                          />
                         </div>
                       ))}
                     </div>
@@ -286,37 +553,59 @@ function App() {
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Semiconductor Material</label>
                   <select
-                    value={selectedMaterial}
-                    onChange={(e) => setSelectedMaterial(Number(e.target.value))}
+                    value={selectedAlloy?.id ?? selectedMaterial.id}
+                    onChange={(e) => setSelectedMaterialId(e.target.value)}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                   >
-                    {materials.map((material, index) => (
-                      <option key={index} value={index}>{material.name}</option>
+                    {materials.map((material) => (
+                      <option key={material.id} value={material.id}>{material.name}</option>
                     ))}
+                    <optgroup label="Ternary alloys">
+                      {alloys.map((alloy) => (
+                        <option key={alloy.id} value={alloy.id}>{alloy.name}</option>
+                      ))}
+                    </optgroup>
                   </select>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4 text-sm text-gray-600 bg-gray-50 p-4 rounded-lg">
                   <div>
                     <span className="font-medium">Bandgap (300K):</span>
-                    <p>{materials[selectedMaterial].bandgap} eV</p>
+                    <p>{bandgapAt(selectedMaterial, 300).toFixed(3)} eV</p>
                   </div>
                   <div>
                     <span className="font-medium">Nc (300K):</span>
-                    <p>{formatScientific(materials[selectedMaterial].Nc300)} cm⁻³</p>
+                    <p>{formatScientific(densityAt300.Nc)} cm⁻³</p>
                   </div>
                   <div>
                     <span className="font-medium">Nv (300K):</span>
-                    <p>{formatScientific(materials[selectedMaterial].Nv300)} cm⁻³</p>
+                    <p>{formatScientific(densityAt300.Nv)} cm⁻³</p>
+                  </div>
+                  <div>
+                    <span className="font-medium">Bandgap Model:</span>
+                    <p>{bandgapModels[selectedMaterial.bandgapModel].label}</p>
                   </div>
                   <div>
-                    <span className="font-medium">Temp Coeff:</span>
-                    <p>{materials[selectedMaterial].temperatureCoeff.toExponential(2)} eV/K</p>
+                    <span className="font-medium">Donor Level:</span>
+                    <p>Ec − {(selectedMaterial.donorIonizationEnergy * 1000).toFixed(1)} meV</p>
+                  </div>
+                  <div>
+                    <span className="font-medium">Acceptor Level:</span>
+                    <p>Ev + {(selectedMaterial.acceptorIonizationEnergy * 1000).toFixed(1)} meV</p>
                   </div>
                 </div>
               </div>
             </div>
 
+            {selectedAlloy && (
+              <AlloyPanel
+                alloy={selectedAlloy}
+                composition={composition}
+                temperature={temperature}
+                onCompositionChange={setComposition}
+              />
+            )}
+
             {/* Operating Conditions */}
             <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
               <div className="flex items-center gap-3 mb-4">
@@ -331,16 +620,16 @@ function App() {
                   </label>
                   <input
                     type="range"
-                    min="200"
-                    max="500"
+                    min="20"
+                    max="800"
                     value={temperature}
                     onChange={(e) => setTemperature(Number(e.target.value))}
                     className="w-full h-2 bg-gradient-to-r from-blue-200 to-red-200 rounded-lg appearance-none cursor-pointer slider"
                   />
                   <div className="flex justify-between text-xs text-gray-500 mt-1">
-                    <span>200K</span>
-                    <span>350K</span>
-                    <span>500K</span>
+                    <span>20K (freeze-out)</span>
+                    <span>410K</span>
+                    <span>800K (intrinsic)</span>
                   </div>
                 </div>
               </div>
@@ -358,13 +647,11 @@ function App() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Donor Concentration (ND) [cm⁻³]
                   </label>
-                  <input
-                    type="number"
+                  <NumberInput
                     value={donorConc}
-                    onChange={(e) => setDonorConc(Number(e.target.value))}
+                    onChange={setDonorConc}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                    step="1e14"
-                    min="0"
+                    min={0}
                     placeholder="e.g., 1e16"
                   />
                 </div>
@@ -373,26 +660,159 @@ function App() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Acceptor Concentration (NA) [cm⁻³]
                   </label>
-                  <input
-                    type="number"
+                  <NumberInput
                     value={acceptorConc}
-                    onChange={(e) => setAcceptorConc(Number(e.target.value))}
+                    onChange={setAcceptorConc}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                    step="1e14"
-                    min="0"
+                    min={0}
                     placeholder="e.g., 0"
                   />
                 </div>
                 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Dopant Ionization</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['incomplete', 'complete'] as IonizationModel[]).map((model) => (
+                      <button
+                        key={model}
+                        onClick={() => setIonization(model)}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          ionization === model
+                            ? 'bg-green-600 text-white'
+                            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {model === 'incomplete' ? 'Incomplete (freeze-out)' : 'Complete (ND⁺ = ND)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Carrier Statistics</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['boltzmann', 'fermi-dirac'] as CarrierStatistics[]).map((model) => (
+                      <button
+                        key={model}
+                        onClick={() => setStatistics(model)}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          statistics === model
+                            ? 'bg-green-600 text-white'
+                            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {model === 'boltzmann' ? 'Boltzmann' : 'Fermi–Dirac (F½)'}
+                      </button>
+                    ))}
+                  </div>
+                  {statistics === 'fermi-dirac' && (
+                    <label className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={compareBoltzmann}
+                        onChange={(e) => setCompareBoltzmann(e.target.checked)}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      Compare with Boltzmann approximation
+                    </label>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Bandgap Narrowing</label>
+                  <select
+                    value={narrowing}
+                    onChange={(e) => setNarrowing(e.target.value as BandgapNarrowingModel)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {(Object.keys(bandgapNarrowingModels) as BandgapNarrowingModel[]).map((model) => (
+                      <option key={model} value={model}>{bandgapNarrowingModels[model].label}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
                   <p><strong>Net Doping:</strong> {formatScientific(donorConc - acceptorConc)} cm⁻³</p>
                 </div>
               </div>
             </div>
+
+            {/* Illumination / Injection */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <Sun className="w-5 h-5 text-amber-500" />
+                  <h2 className="text-xl font-semibold text-gray-800">Illumination / Injection</h2>
+                </div>
+                <button
+                  onClick={() => setIlluminated(!illuminated)}
+                  className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                    illuminated ? 'bg-amber-500 text-white' : 'bg-amber-100 hover:bg-amber-200 text-amber-700'
+                  }`}
+                >
+                  {illuminated ? 'On' : 'Off'}
+                </button>
+              </div>
+
+              {illuminated ? (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Generation Rate (G) [cm⁻³ s⁻¹]
+                    </label>
+                    <NumberInput
+                      value={generationRate}
+                      onChange={setGenerationRate}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      min={0}
+                    />
+                  </div>
+                  <RecombinationEditor
+                    params={recombination}
+                    material={selectedMaterial}
+                    onChange={(property, value) => setRecombination({ ...recombination, [property]: value })}
+                    onReplace={setRecombination}
+                  />
+                  {!recombinationValid && (
+                    <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+                      Lifetimes must be positive and the rates and coefficients must not be negative.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Thermal equilibrium. Switch on to add a steady generation rate and solve for the excess carriers.
+                </p>
+              )}
+            </div>
           </div>
 
           {/* Results Panel */}
           <div className="space-y-6">
+            {/* Diagnostics */}
+            {diagnostics.length > 0 && (
+              <div className={`rounded-2xl shadow-lg p-6 border ${
+                hasInputErrors ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+              }`}>
+                <div className="flex items-center gap-3 mb-3">
+                  <AlertTriangle className={`w-5 h-5 ${hasInputErrors ? 'text-red-600' : 'text-amber-600'}`} />
+                  <h2 className="text-xl font-semibold text-gray-800">
+                    {hasInputErrors ? 'Invalid Inputs' : 'Model Warnings'}
+                  </h2>
+                </div>
+                <ul className="space-y-2 text-sm">
+                  {diagnostics.map(({ level, message }) => (
+                    <li key={message} className={level === 'error' ? 'text-red-800' : 'text-amber-800'}>
+                      {message}
+                    </li>
+                  ))}
+                </ul>
+                {hasInputErrors && (
+                  <p className="text-xs text-red-700 mt-3">The results below are not meaningful until these are fixed.</p>
+                )}
+              </div>
+            )}
+
             {/* Calculation Details */}
             <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
               <h2 className="text-xl font-semibold text-gray-800 mb-4">Calculation Details</h2>
@@ -401,16 +821,46 @@ function App() {
                 <div className="bg-gray-50 p-3 rounded-lg">
                   <h3 className="font-medium text-gray-800 mb-2">Current Values Used:</h3>
                   <div className="grid grid-cols-2 gap-2 text-xs">
-                    <div>kB = {kB.toExponential(3)} eV/K</div>
-                    <div>Eg(T) = {(materials[selectedMaterial].bandgap + materials[selectedMaterial].temperatureCoeff * (temperature - 300)).toFixed(3)} eV</div>
+                    <div>kB = {constants.kB.toExponential(3)} eV/K</div>
+                    <div>Eg(T) = {results.nominalBandgap.toFixed(3)} eV</div>
                     <div>T = {temperature} K</div>
-                    <div>Material: {materials[selectedMaterial].name}</div>
+                    <div>Material: {selectedMaterial.name}</div>
+                    <div>Nc(T) = {formatScientific(results.Nc)} cm⁻³</div>
+                    <div>Nv(T) = {formatScientific(results.Nv)} cm⁻³</div>
+                    <div>ΔEg = {(results.bandgapNarrowing * 1000).toFixed(1)} meV</div>
+                    <div>Eg,eff = {results.bandgap.toFixed(3)} eV</div>
                   </div>
                 </div>
                 
+                <div className="bg-indigo-50 p-3 rounded-lg">
+                  <h3 className="font-medium text-indigo-800 mb-1">
+                    Bandgap Model: {bandgapModels[selectedMaterial.bandgapModel].label}
+                  </h3>
+                  <p className="font-mono text-xs text-indigo-700">{bandgapModels[selectedMaterial.bandgapModel].formula}</p>
+                </div>
+
+                <div className="bg-amber-50 p-3 rounded-lg">
+                  <h3 className="font-medium text-amber-800 mb-1">
+                    Bandgap Narrowing: {bandgapNarrowingModels[narrowing].label}
+                  </h3>
+                  <p className="font-mono text-xs text-amber-700">{bandgapNarrowingModels[narrowing].formula}</p>
+                  {narrowing !== 'none' && (
+                    <p className="font-mono text-xs text-amber-700">N = ND + NA, Eg,eff = Eg(T) − ΔEg</p>
+                  )}
+                </div>
+
                 <div className="bg-blue-50 p-3 rounded-lg">
                   <h3 className="font-medium text-blue-800 mb-1">Intrinsic Concentration Formula:</h3>
-                  <p className="font-mono text-xs text-blue-700">ni = √(Nc × Nv) × exp(-Eg/(2kBT))</p>
+                  <p className="font-mono text-xs text-blue-700">ni = √(Nc × Nv) × exp(-Eg,eff/(2kBT))</p>
+                </div>
+
+                <div className="bg-purple-50 p-3 rounded-lg">
+                  <h3 className="font-medium text-purple-800 mb-1">Effective Density of States:</h3>
+                  <p className="font-mono text-xs text-purple-700">
+                    {selectedMaterial.densityOfStatesModel === 'effective-mass'
+                      ? 'Nc = 2Mc(2π m*e m0 kBT/h²)^(3/2), Nv = 2(2π m*h m0 kBT/h²)^(3/2)'
+                      : 'Nc,v(T) = Nc,v(300K) × (T/300)^(3/2)'}
+                  </p>
                 </div>
               </div>
             </div>
@@ -439,24 +889,147 @@ function App() {
               <div className="grid grid-cols-1 gap-4">
                 <div className="bg-gradient-to-r from-blue-50 to-blue-100 p-4 rounded-lg">
                   <h3 className="text-sm font-medium text-blue-800 mb-1">Intrinsic Carrier Concentration</h3>
-                  <p className="text-lg font-bold text-blue-900">ni = {formatScientific(results.ni)} cm⁻³</p>
+                  <p className="text-lg font-bold text-blue-900">
+                    {results.bandgapNarrowing > 0 ? 'ni,eff' : 'ni'} = {formatLog10(results.log10Ni)} cm⁻³
+                  </p>
                 </div>
                 
                 <div className="bg-gradient-to-r from-green-50 to-green-100 p-4 rounded-lg">
                   <h3 className="text-sm font-medium text-green-800 mb-1">Electron Concentration</h3>
-                  <p className="text-lg font-bold text-green-900">n = {formatScientific(results.n)} cm⁻³</p>
+                  <p className="text-lg font-bold text-green-900">n = {formatLog10(results.log10N)} cm⁻³</p>
                 </div>
                 
                 <div className="bg-gradient-to-r from-purple-50 to-purple-100 p-4 rounded-lg">
                   <h3 className="text-sm font-medium text-purple-800 mb-1">Hole Concentration</h3>
-                  <p className="text-lg font-bold text-purple-900">p = {formatScientific(results.p)} cm⁻³</p>
+                  <p className="text-lg font-bold text-purple-900">p = {formatLog10(results.log10P)} cm⁻³</p>
                 </div>
                 
                 <div className="bg-gradient-to-r from-orange-50 to-orange-100 p-4 rounded-lg">
                   <h3 className="text-sm font-medium text-orange-800 mb-1">Fermi Level (relative to Ei)</h3>
                   <p className="text-lg font-bold text-orange-900">EF - Ei = {formatEnergy(results.fermiLevel)}</p>
+                  <div className="grid grid-cols-2 gap-2 mt-1 text-xs text-orange-700">
+                    <span>EF - Ec = {formatEnergy(results.fermiLevelFromEc)}</span>
+                    <span>EF - Ev = {formatEnergy(results.fermiLevelFromEv)}</span>
+                  </div>
                 </div>
+
+                {boltzmannResults && (
+                  <div className="bg-gradient-to-r from-yellow-50 to-yellow-100 p-4 rounded-lg">
+                    <h3 className="text-sm font-medium text-yellow-800 mb-2">Boltzmann vs Fermi–Dirac</h3>
+                    <table className="w-full text-xs text-yellow-900">
+                      <thead>
+                        <tr className="text-left text-yellow-700">
+                          <th className="font-medium pb-1"></th>
+                          <th className="font-medium pb-1">Fermi–Dirac</th>
+                          <th className="font-medium pb-1">Boltzmann</th>
+                          <th className="font-medium pb-1">Error</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        <tr>
+                          <td>n</td>
+                          <td>{formatLog10(results.log10N)}</td>
+                          <td>{formatLog10(boltzmannResults.log10N)}</td>
+                          <td>{formatDeviation(10 ** (boltzmannResults.log10N - results.log10N), 1)}</td>
+                        </tr>
+                        <tr>
+                          <td>p</td>
+                          <td>{formatLog10(results.log10P)}</td>
+                          <td>{formatLog10(boltzmannResults.log10P)}</td>
+                          <td>{formatDeviation(10 ** (boltzmannResults.log10P - results.log10P), 1)}</td>
+                        </tr>
+                        <tr>
+                          <td>EF - Ec</td>
+                          <td>{formatEnergy(results.fermiLevelFromEc)}</td>
+                          <td>{formatEnergy(boltzmannResults.fermiLevelFromEc)}</td>
+                          <td>{formatEnergy(boltzmannResults.fermiLevelFromEc - results.fermiLevelFromEc)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="bg-gradient-to-r from-teal-50 to-teal-100 p-4 rounded-lg">
+                  <h3 className="text-sm font-medium text-teal-800 mb-1">Ionized Dopants</h3>
+                  <div className="grid grid-cols-2 gap-2 text-teal-900">
+                    <p>
+                      <span className="font-bold">ND⁺/ND = {formatFraction(results.ionizedDonors, donorConc)}</span>
+                      <span className="block text-xs text-teal-700">ND⁺ = {formatLog10(results.log10IonizedDonors)} cm⁻³</span>
+                    </p>
+                    <p>
+                      <span className="font-bold">NA⁻/NA = {formatFraction(results.ionizedAcceptors, acceptorConc)}</span>
+                      <span className="block text-xs text-teal-700">NA⁻ = {formatLog10(results.log10IonizedAcceptors)} cm⁻³</span>
+                    </p>
+                  </div>
+                </div>
+
+                <div className="bg-gradient-to-r from-indigo-50 to-indigo-100 p-4 rounded-lg">
+                  <h3 className="text-sm font-medium text-indigo-800 mb-1">Transport</h3>
+                  <div className="grid grid-cols-2 gap-2 text-indigo-900">
+                    <p>
+                      <span className="font-bold">ρ = {formatScientific(transport.resistivity)} Ω·cm</span>
+                      <span className="block text-xs text-indigo-700">σ = {formatScientific(transport.conductivity)} S/cm</span>
+                    </p>
+                    <p>
+                      <span className="font-bold">Rs = {thickness > 0 ? `${formatScientific(transport.sheetResistance)} Ω/□` : '—'}</span>
+                      <label className="flex items-center gap-1 text-xs text-indigo-700">
+                        t =
+                        <NumberInput
+                          value={thickness}
+                          onChange={setThickness}
+                          className="w-20 px-1 border border-indigo-200 rounded bg-white"
+                          positive
+                        />
+                        µm
+                      </label>
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mt-1 text-xs text-indigo-700">
+                    <span>μn = {transport.electronMobility.toFixed(0)} cm²/Vs</span>
+                    <span>μp = {transport.holeMobility.toFixed(0)} cm²/Vs</span>
+                  </div>
+                </div>
+
+                {steadyState && (
+                  <div className="bg-gradient-to-r from-amber-50 to-amber-100 p-4 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <h3 className="text-sm font-medium text-amber-800">Steady State under Injection</h3>
+                      <span className="px-2 py-0.5 bg-amber-200 text-amber-900 text-xs rounded-full">
+                        {steadyState.injectionLevel} injection
+                      </span>
+                    </div>
+                    <p className="text-lg font-bold text-amber-900">Δn = Δp = {formatScientific(steadyState.excessCarriers)} cm⁻³</p>
+                    <div className="grid grid-cols-2 gap-2 mt-1 text-xs text-amber-800">
+                      <span>n = {formatLog10(steadyState.log10N)} cm⁻³</span>
+                      <span>p = {formatLog10(steadyState.log10P)} cm⁻³</span>
+                      <span>EFn - Ei = {formatEnergy(steadyState.quasiFermiElectrons)}</span>
+                      <span>EFp - Ei = {formatEnergy(steadyState.quasiFermiHoles)}</span>
+                      <span>EFn - EFp = {formatEnergy(steadyState.quasiFermiElectrons - steadyState.quasiFermiHoles)}</span>
+                      <span>τeff = {formatScientific(steadyState.effectiveLifetime)} s</span>
+                      <span>U(SRH) = {formatScientific(steadyState.rates.srh)} cm⁻³s⁻¹</span>
+                      <span>U(rad) = {formatScientific(steadyState.rates.radiative)} cm⁻³s⁻¹</span>
+                      <span>U(Auger) = {formatScientific(steadyState.rates.auger)} cm⁻³s⁻¹</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Energy Band Diagram */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+              <div className="flex items-center gap-3 mb-4">
+                <Layers className="w-5 h-5 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-800">Energy Band Diagram</h2>
               </div>
+              <BandDiagram
+                material={selectedMaterial}
+                results={results}
+                donorConc={donorConc}
+                acceptorConc={acceptorConc}
+                quasiFermi={steadyState
+                  ? { electrons: steadyState.quasiFermiElectrons, holes: steadyState.quasiFermiHoles }
+                  : undefined}
+              />
             </div>
 
             {/* Physical Insights */}
@@ -466,21 +1039,28 @@ function App() {
               <div className="space-y-3 text-sm text-gray-600">
                 <div className="flex justify-between">
                   <span>Mass Action Law:</span>
-                  <span className="font-mono">n × p = {formatScientific(results.n * results.p)} cm⁻⁶</span>
+                  <span className="font-mono">n × p = {formatLog10(carriers.log10N + carriers.log10P)} cm⁻⁶</span>
                 </div>
                 <div className="flex justify-between">
                   <span>ni² =</span>
-                  <span className="font-mono">{formatScientific(results.ni ** 2)} cm⁻⁶</span>
+                  <span className="font-mono">{formatLog10(2 * results.log10Ni)} cm⁻⁶</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Deviation (n × p / ni²):</span>
+                  <span className="font-mono">
+                    {formatLog10(carriers.log10N + carriers.log10P - 2 * results.log10Ni)}
+                    {steadyState && ` (${formatEnergy(steadyState.quasiFermiElectrons - steadyState.quasiFermiHoles)} split)`}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Majority Carrier:</span>
                   <span className="font-medium">
-                    {results.n > results.p ? 'Electrons' : 'Holes'}
+                    {carriers.log10N > carriers.log10P ? 'Electrons' : 'Holes'}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Carrier Ratio (n/p):</span>
-                  <span className="font-mono">{(results.n / results.p).toExponential(2)}</span>
+                  <span className="font-mono">{formatLog10(carriers.log10N - carriers.log10P)}</span>
                 </div>
               </div>
             </div>
@@ -530,6 +1110,113 @@ function App() {
             </div>
           </div>
         </div>
+
+        <div className="mt-8">
+          <WorksheetPanel input={concentrationInput} />
+        </div>
+
+        <div className="mt-8">
+          <TemperatureSweepPanel
+            material={selectedMaterial}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+            temperature={temperature}
+            results={results}
+          />
+        </div>
+
+        <div className="mt-8">
+          <DopingSweepPanel
+            material={selectedMaterial}
+            temperature={temperature}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+          />
+        </div>
+
+        <div className="mt-8">
+          <ResistivityPanel
+            material={selectedMaterial}
+            temperature={temperature}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+            resistivity={transport.resistivity}
+            onApplyDoping={applyDoping}
+          />
+        </div>
+
+        <div className="mt-8">
+          <InverseSolverPanel
+            material={selectedMaterial}
+            temperature={temperature}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+            onApply={applyInverseSolution}
+          />
+        </div>
+
+        <div className="mt-8">
+          <UncertaintyPanel
+            material={selectedMaterial}
+            temperature={temperature}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+          />
+        </div>
+
+        <div className="mt-8">
+          <JunctionPanel
+            material={selectedMaterial}
+            temperature={temperature}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+          />
+        </div>
+
+        <div className="mt-8">
+          <HallPanel
+            material={selectedMaterial}
+            donorConc={donorConc}
+            acceptorConc={acceptorConc}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+            onApplyDoping={applyHallFit}
+          />
+        </div>
+
+        <div className="mt-8">
+          <BatchPanel
+            materials={materials}
+            constants={constants}
+            ionization={ionization}
+            statistics={statistics}
+            narrowing={narrowing}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { defaultConstants } from '../physics/constants';
+import { calculateConcentrations } from '../physics/engine';
+import { defaultMaterials } from '../physics/materials';
+import { serializeLibrary } from '../storage/materialLibrary';
+import { parseSweep, runCli } from './semicalc';
+
+const noFiles = (path: string): string => {
+  throw new Error(`unexpected read of ${path}`);
+};
+const json = (args: string[], readFile = noFiles) => JSON.parse(runCli(args, readFile).stdout);
+
+describe('runCli', () => {
+  it('prints the engine result for one sample', () => {
+    const [record] = json(['--material', 'Si', '--T', '350', '--Nd', '1e16', '--Na', '0', '--json']);
+    const expected = calculateConcentrations({
+      material: defaultMaterials[0],
+      temperature: 350,
+      donorConc: 1e16,
+      acceptorConc: 0,
+      ...defaultConstants
+    });
+    expect(record).toMatchObject({ material: 'Silicon', temperature_K: 350, n_cm3: expected.n, p_cm3: expected.p, conduction_type: 'n-type' });
+  });
+
+  it('combines sweeps with T outermost', () => {
+    const records = json(['--T=200:300:50', '--nd', '1e15:1e16:*10', '--ionization=complete', '--json']);
+    expect(records.map((record: { temperature_K: number; ND_cm3: number }) => [record.temperature_K, record.ND_cm3])).toEqual([
+      [200, 1e15], [200, 1e16], [250, 1e15], [250, 1e16], [300, 1e15], [300, 1e16]
+    ]);
+    expect(runCli(['--T', '300:400:50', '--csv'], noFiles).stdout.trim().split('\n')).toHaveLength(4);
+    expect(runCli(['--T', '300'], noFiles).stdout).toMatch(/^T \(K\) +ND/);
+  });
+
+  it('exports minority densities that underflow as log10 values', () => {
+    const [record] = json(['--material', 'GaAs', '--T', '15', '--Nd', '1e16', '--json']);
+    expect(record.p_cm3).toBe(0);
+    expect(record.log10_n_cm3 + record.log10_p_cm3).toBeCloseTo(2 * record.log10_ni_cm3, 6);
+    expect(record.log10_p_cm3).toBeLessThan(-324);
+  });
+
+  it('reads materials from a library file', () => {
+    const custom = { ...defaultMaterials[0], id: 'strained-si', name: 'Strained Si', bandgap: 1.0, bandgapModel: 'linear' as const };
+    const [record] = json(['--materials', 'lib.json', '--material', 'strained-si', '--json'], () => serializeLibrary([custom]));
+    expect(record.Eg_eV).toBeCloseTo(1.0, 12);
+    expect(json(['--material', 'algaas', '--x', '0.3', '--json'])[0].material).toMatch(/0\.3/);
+  });
+
+  it('reports mistakes on stderr with a non-zero exit code', () => {
+    expect(runCli(['--material', 'unobtainium'], noFiles)).toEqual({
+      stdout: '',
+      stderr: 'semicalc: Unknown material "unobtainium"; choose from silicon, germanium, gaas, algaas, ingaas\n',
+      exitCode: 1
+    });
+    expect(runCli(['--T'], noFiles).stderr).toBe('semicalc: --T needs a value\n');
+    expect(runCli(['--json', '--csv'], noFiles).exitCode).toBe(1);
+    expect(runCli(['--materials', 'bad.json'], () => '{}').stderr).toBe('semicalc: File is not a material library export\n');
+    expect(runCli(['--help'], noFiles)).toMatchObject({ stdout: expect.stringContaining('Usage: semicalc'), exitCode: 0 });
+  });
+});
+
+describe('parseSweep', () => {
+  it('steps linearly or geometrically up to the stop value', () => {
+    expect(parseSweep('0.1:0.5:0.1', 'x', 0)).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+    expect(parseSweep('1e14:1e17:*10', 'Nd', 0)).toEqual([1e14, 1e15, 1e16, 1e17]);
+    expect(() => parseSweep('1:1e9:1', 'T', 1)).toThrow('T sweep has 1000000000 points; the limit is 10000');
+  });
+
+  it('accepts only plain and engineering-notation numbers', () => {
+    expect(parseSweep('1E16', 'Nd', 0)).toEqual([1e16]);
+    expect(() => parseSweep('0x10', 'Nd', 0)).toThrow('Nd "0x10" is not a number');
+    expect(() => parseSweep('300::50', 'T', 1)).toThrow('T "" is not a number');
+  });
+});
@@ -0,0 +1,208 @@
+import { ALLOY_ID_PREFIX, alloyAt, libraryAlloys } from '../physics/alloy';
+import { defaultConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import { defaultMaterials, MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel, bandgapNarrowingModels } from '../physics/narrowing';
+import { batchToCsv, batchToJson, BatchResult, BatchRow, findMaterial, runBatch } from '../storage/batch';
+import { parseLibrary } from '../storage/materialLibrary';
+import { formatLog10, formatScientific } from '../utils/format';
+import { parseNumber } from '../utils/number';
+
+// What the process should print and exit with; the caller does the I/O
+export interface CliOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: semicalc [options]
+
+Computes carrier concentrations with the same engine and materials as the web app.
+
+Options:
+  --material <name>     Material id, name or symbol (default Si); alloys need --x
+  --x <fraction>        Alloy composition for AlGaAs or InGaAs, 0 to 1
+  --materials <file>    Material library JSON exported from the app's material editor
+  --T <K>               Temperature (default 300)
+  --Nd <cm^-3>          Donor density (default 0)
+  --Na <cm^-3>          Acceptor density (default 0)
+  --ionization <model>  incomplete (default) or complete
+  --statistics <model>  boltzmann (default) or fermi-dirac
+  --narrowing <model>   none (default), slotboom or del-alamo
+  --json                Print a JSON array with full precision
+  --csv                 Print CSV with full precision
+  -h, --help            Show this help
+
+--T, --Nd and --Na also take a sweep start:stop:step, such as 200:500:10, or a
+geometric sweep start:stop:*factor, such as 1e14:1e18:*10. Sweeps over several
+options are combined, T outermost.
+`;
+
+// Keeps a mistyped sweep from flooding the terminal
+export const MAX_CLI_POINTS = 10000;
+
+// Short names for the alloys, whose display names use a Unicode minus
+const ALLOY_ALIASES: Record<string, string> = { algaas: `${ALLOY_ID_PREFIX}gaas-alas`, ingaas: `${ALLOY_ID_PREFIX}gaas-inas` };
+
+const VALUE_OPTIONS = ['material', 'x', 'materials', 't', 'nd', 'na', 'ionization', 'statistics', 'narrowing'] as const;
+type ValueOption = typeof VALUE_OPTIONS[number];
+
+interface ParsedArgs {
+  values: Partial<Record<ValueOption, string>>;
+  json: boolean;
+  csv: boolean;
+  help: boolean;
+}
+
+// Options take "--name value" or "--name=value"; names ignore case, so --T and --t agree
+const parseArgs = (args: string[]): ParsedArgs => {
+  const parsed: ParsedArgs = { values: {}, json: false, csv: false, help: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') {
+      parsed.help = true;
+      continue;
+    }
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (!match) throw new CliUsageError(`Unexpected argument "${arg}"`);
+    const name = match[1].toLowerCase();
+    if (name === 'json' || name === 'csv') {
+      parsed[name] = true;
+      continue;
+    }
+    if (!(VALUE_OPTIONS as readonly string[]).includes(name)) throw new CliUsageError(`Unknown option --${match[1]}`);
+    const value = match[2] ?? args[++i];
+    if (value === undefined) throw new CliUsageError(`--${match[1]} needs a value`);
+    parsed.values[name as ValueOption] = value;
+  }
+  if (parsed.json && parsed.csv) throw new CliUsageError('Choose one of --json and --csv');
+  return parsed;
+};
+
+const numberOption = (text: string, label: string, min: number): number => {
+  const { value, error } = parseNumber(text);
+  if (error !== null) throw new CliUsageError(`${label} "${text}" is not a number`);
+  if (value < min) throw new CliUsageError(`${label} must be at least ${min}`);
+  return value;
+};
+
+// A single value, start:stop:step or start:stop:*factor
+export const parseSweep = (text: string, label: string, min: number): number[] => {
+  const parts = text.split(':');
+  if (parts.length === 1) return [numberOption(text, label, min)];
+  if (parts.length !== 3) throw new CliUsageError(`${label} sweep "${text}" must be start:stop:step`);
+
+  const start = numberOption(parts[0], label, min);
+  const stop = numberOption(parts[1], label, min);
+  if (stop < start) throw new CliUsageError(`${label} sweep must not end before it starts`);
+  const geometric = parts[2].startsWith('*');
+  const step = numberOption(geometric ? parts[2].slice(1) : parts[2], `${label} step`, 0);
+  if (geometric ? step <= 1 || start <= 0 : step <= 0) {
+    throw new CliUsageError(geometric ? `${label} sweep needs a factor above 1 and a positive start` : `${label} step must be positive`);
+  }
+
+  const count = Math.floor(
+    geometric ? Math.log(stop / start) / Math.log(step) + 1e-9 : (stop - start) / step + 1e-9
+  ) + 1;
+  if (count > MAX_CLI_POINTS) throw new CliUsageError(`${label} sweep has ${count} points; the limit is ${MAX_CLI_POINTS}`);
+  // Rounding drops the float noise of repeated steps, such as 0.30000000000000004
+  return Array.from({ length: count }, (_, i) => Number((geometric ? start * Math.pow(step, i) : start + i * step).toPrecision(12)));
+};
+
+const parseChoice = <T extends string>(text: string | undefined, label: string, choices: readonly T[], fallback: T): T => {
+  if (text === undefined) return fallback;
+  if (!(choices as readonly string[]).includes(text)) {
+    throw new CliUsageError(`${label} must be one of ${choices.join(', ')}`);
+  }
+  return text as T;
+};
+
+const resolveMaterial = (key: string, x: string | undefined, materials: MaterialProperties[]): MaterialProperties => {
+  const wanted = key.toLowerCase();
+  const alloy = libraryAlloys(materials).find((definition) => definition.id === (ALLOY_ALIASES[wanted] ?? wanted) || definition.name.toLowerCase() === wanted);
+  if (alloy) {
+    if (x === undefined) throw new CliUsageError(`${alloy.name} needs a composition --x between 0 and 1`);
+    const fraction = numberOption(x, 'x', 0);
+    if (fraction > 1) throw new CliUsageError('x must be at most 1');
+    return alloyAt(alloy, fraction);
+  }
+  if (x !== undefined) throw new CliUsageError('--x only applies to the AlGaAs and InGaAs alloys');
+
+  const material = findMaterial(materials, key);
+  if (!material) {
+    const known = [...materials.map(({ id }) => id), ...Object.keys(ALLOY_ALIASES)];
+    throw new CliUsageError(`Unknown material "${key}"; choose from ${known.join(', ')}`);
+  }
+  return material;
+};
+
+// Materials from a library file replace built-ins with the same id
+const loadMaterials = (path: string | undefined, readFile: (path: string) => string): MaterialProperties[] => {
+  if (path === undefined) return defaultMaterials;
+  const custom = parseLibrary(readFile(path));
+  return [...custom, ...defaultMaterials.filter(({ id }) => !custom.some((material) => material.id === id))];
+};
+
+// Rounded for reading; --json and --csv keep full precision
+const TABLE_COLUMNS: { label: string; value: (entry: BatchResult) => string }[] = [
+  { label: 'T (K)', value: ({ row }) => String(row.temperature) },
+  { label: 'ND (cm⁻³)', value: ({ row }) => formatScientific(row.donorConc) },
+  { label: 'NA (cm⁻³)', value: ({ row }) => formatScientific(row.acceptorConc) },
+  { label: 'ni (cm⁻³)', value: ({ result }) => formatLog10(result.log10Ni) },
+  { label: 'n (cm⁻³)', value: ({ result }) => formatLog10(result.log10N) },
+  { label: 'p (cm⁻³)', value: ({ result }) => formatLog10(result.log10P) },
+  { label: 'EF − Ei (eV)', value: ({ result }) => result.fermiLevel.toFixed(4) },
+  { label: 'Type', value: ({ result }) => result.conductionType }
+];
+
+const toTable = (results: BatchResult[]): string => {
+  const cells = [
+    TABLE_COLUMNS.map(({ label }) => label),
+    ...results.map((entry) => TABLE_COLUMNS.map(({ value }) => value(entry)))
+  ];
+  const widths = TABLE_COLUMNS.map((_, column) => Math.max(...cells.map((line) => line[column].length)));
+  return cells.map((line) => line.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n') + '\n';
+};
+
+// Runs one command line; readFile is only used for --materials
+export const runCli = (args: string[], readFile: (path: string) => string): CliOutput => {
+  try {
+    const { values, json, csv, help } = parseArgs(args);
+    if (help) return { stdout: USAGE, stderr: '', exitCode: 0 };
+
+    const material = resolveMaterial(values.material ?? 'Si', values.x, loadMaterials(values.materials, readFile));
+    const temperatures = parseSweep(values.t ?? '300', 'T', 1);
+    const donors = parseSweep(values.nd ?? '0', 'Nd', 0);
+    const acceptors = parseSweep(values.na ?? '0', 'Na', 0);
+    const count = temperatures.length * donors.length * acceptors.length;
+    if (count > MAX_CLI_POINTS) throw new CliUsageError(`The sweeps combine to ${count} points; the limit is ${MAX_CLI_POINTS}`);
+
+    const conditions = {
+      ...defaultConstants,
+      ionization: parseChoice<IonizationModel>(values.ionization, '--ionization', ['incomplete', 'complete'], 'incomplete'),
+      statistics: parseChoice<CarrierStatistics>(values.statistics, '--statistics', ['boltzmann', 'fermi-dirac'], 'boltzmann'),
+      narrowing: parseChoice(values.narrowing, '--narrowing', Object.keys(bandgapNarrowingModels) as BandgapNarrowingModel[], 'none')
+    };
+    const rows = temperatures.flatMap((temperature) => donors.flatMap((donorConc) => acceptors.map((acceptorConc) => ({
+      material,
+      temperature,
+      donorConc,
+      acceptorConc
+    })))).map((row, index): BatchRow => ({ line: index + 1, ...row }));
+    const results = runBatch(rows, conditions);
+
+    const stdout = json ? `${batchToJson(results)}\n` : csv ? batchToCsv(results) : toTable(results);
+    return { stdout, stderr: '', exitCode: 0 };
+  } catch (error) {
+    // Usage mistakes, unreadable files and invalid libraries all end the run with a message
+    const message = error instanceof Error ? error.message : String(error);
+    return { stdout: '', stderr: `semicalc: ${message}\n`, exitCode: 1 };
+  }
+};
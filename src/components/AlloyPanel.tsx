@@ -0,0 +1,122 @@
+import { useMemo } from 'react';
+import { Blend } from 'lucide-react';
+import LineChart, { ChartSeries } from './charts/LineChart';
+import { AlloyDefinition, alloyBands, findCrossover, ValleyLabel } from '../physics/alloy';
+import { linearRange } from '../physics/sweep';
+
+interface AlloyPanelProps {
+  alloy: AlloyDefinition;
+  composition: number;
+  temperature: number;
+  onCompositionChange: (composition: number) => void;
+}
+
+const VALLEY_COLORS: Record<ValleyLabel, string> = { Γ: '#7c3aed', X: '#ea580c', L: '#0d9488' };
+const GAP_COLOR = '#7c3aed';
+const COMPOSITION_POINTS = 101;
+
+function AlloyPanel({ alloy, composition, temperature, onCompositionChange }: AlloyPanelProps) {
+  const compositions = useMemo(() => linearRange(0, 1, COMPOSITION_POINTS), []);
+  const curve = useMemo(
+    () => compositions.map((x) => alloyBands(alloy, x, temperature)),
+    [alloy, compositions, temperature]
+  );
+  const crossover = useMemo(() => findCrossover(alloy, temperature), [alloy, temperature]);
+  const bands = alloyBands(alloy, composition, temperature);
+
+  // Alloys without valley data show the bowed fundamental gap alone
+  const series: ChartSeries[] = alloy.valleys.length > 0
+    ? alloy.valleys.map((valley, index) => ({
+      label: valley.label,
+      color: VALLEY_COLORS[valley.label],
+      values: curve.map((point) => point.valleys[index].gap),
+      dashed: valley.label !== 'Γ'
+    }))
+    : [{ label: 'Eg', color: GAP_COLOR, values: curve.map((point) => point.gap) }];
+
+  const renderTooltip = (index: number) => (
+    <>
+      <div className="font-semibold text-gray-800">x = {compositions[index].toFixed(2)}</div>
+      {curve[index].valleys.map(({ label, gap }) => (
+        <div key={label} style={{ color: VALLEY_COLORS[label] }}>E{label} = {gap.toFixed(3)} eV</div>
+      ))}
+      {curve[index].valleys.length === 0 && <div style={{ color: GAP_COLOR }}>Eg = {curve[index].gap.toFixed(3)} eV</div>}
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <Blend className="w-5 h-5 text-violet-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Alloy Composition</h2>
+        {bands.direct !== null && (
+          <span className={`px-2 py-1 text-xs rounded-full ${bands.direct ? 'bg-violet-100 text-violet-800' : 'bg-orange-100 text-orange-800'}`}>
+            {bands.direct ? 'Direct gap' : `Indirect gap (${bands.lowest})`}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Composition x = {composition.toFixed(2)} ({alloy.atZero.name} → {alloy.atOne.name})
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={composition}
+            onChange={(e) => onCompositionChange(Number(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          {bands.valleys.map(({ label, gap }) => (
+            <div
+              key={label}
+              className={`p-2 rounded-lg ${label === bands.lowest ? 'bg-violet-50 border border-violet-200' : 'bg-gray-50'}`}
+            >
+              <span className="font-medium" style={{ color: VALLEY_COLORS[label] }}>E{label}</span>
+              <p className="text-gray-800">{gap.toFixed(3)} eV</p>
+            </div>
+          ))}
+          {bands.valleys.length === 0 && (
+            <div className="p-2 rounded-lg bg-violet-50 border border-violet-200">
+              <span className="font-medium" style={{ color: GAP_COLOR }}>Eg</span>
+              <p className="text-gray-800">{bands.gap.toFixed(3)} eV</p>
+            </div>
+          )}
+        </div>
+
+        <LineChart
+          x={compositions}
+          series={series}
+          xLabel="Composition x"
+          yLabel={`Gap at ${temperature} K (eV)`}
+          formatX={(value) => value.toFixed(1)}
+          formatY={(value) => value.toFixed(2)}
+          markers={[
+            { axis: 'x', value: composition, label: 'x', color: '#4b5563' },
+            ...(crossover !== null ? [{ axis: 'x' as const, value: crossover, label: 'crossover', color: '#9ca3af' }] : [])
+          ]}
+          renderTooltip={renderTooltip}
+          height={240}
+        />
+
+        <p className="text-xs text-gray-400">
+          {alloy.valleys.length === 0
+            ? `The gap bows by ${alloy.bowing.toFixed(3)} eV between the end points.`
+            : crossover !== null
+              ? `The lowest conduction band minimum leaves Γ at x ≈ ${crossover.toFixed(2)}.`
+              : 'The gap stays direct over the whole composition range.'}
+          {' '}Nc and Nv follow the end points' density-of-states model; with effective masses,
+          Nc uses the electron mass and valley count of the lowest minimum.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default AlloyPanel;
@@ -0,0 +1,162 @@
+import { useId } from 'react';
+import { ConcentrationResult } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { formatEnergy } from '../utils/format';
+
+interface BandDiagramProps {
+  material: MaterialProperties;
+  results: ConcentrationResult;
+  donorConc: number;
+  acceptorConc: number;
+  quasiFermi?: { electrons: number; holes: number }; // eV, EFn - Ei and EFp - Ei under injection
+}
+
+interface Level {
+  key: string;
+  label: string;
+  energy: number; // eV above Ev
+  color: string;
+  dash?: string;
+  partial?: boolean; // drawn as localized dopant states rather than a full line
+}
+
+const WIDTH = 480;
+const HEIGHT = 300;
+const PLOT = { left: 56, right: 380, top: 14, bottom: HEIGHT - 14 };
+const LABEL_GAP = 13;
+
+// Pushes label positions apart so that nearby levels stay readable,
+// keeping them in the same top-to-bottom order as the levels.
+const spreadLabels = (positions: number[]): number[] => {
+  const order = positions.map((y, i) => ({ y, i })).sort((a, b) => a.y - b.y);
+  for (let k = 1; k < order.length; k++) {
+    order[k].y = Math.max(order[k].y, order[k - 1].y + LABEL_GAP);
+  }
+  const spread = [...positions];
+  order.forEach(({ y, i }) => { spread[i] = y; });
+  return spread;
+};
+
+function BandDiagram({ material, results, donorConc, acceptorConc, quasiFermi }: BandDiagramProps) {
+  const arrowId = useId();
+  const Eg = results.bandgap;
+  const EF = results.fermiLevelFromEv;
+  const Ei = Eg / 2 + results.intrinsicOffset;
+
+  const levels: Level[] = [
+    { key: 'Ec', label: 'Ec', energy: Eg, color: '#1d4ed8' },
+    ...(donorConc > 0
+      ? [{ key: 'Ed', label: 'Ed', energy: Eg - material.donorIonizationEnergy, color: '#16a34a', dash: '6 5', partial: true }]
+      : []),
+    { key: 'Ei', label: 'Ei', energy: Ei, color: '#6b7280', dash: '5 4' },
+    ...(quasiFermi
+      ? [
+          { key: 'EFn', label: 'EFn', energy: Ei + quasiFermi.electrons, color: '#0891b2' },
+          { key: 'EFp', label: 'EFp', energy: Ei + quasiFermi.holes, color: '#db2777' }
+        ]
+      : [{ key: 'EF', label: 'EF', energy: EF, color: '#ea580c' }]),
+    ...(acceptorConc > 0
+      ? [{ key: 'Ea', label: 'Ea', energy: material.acceptorIonizationEnergy, color: '#dc2626', dash: '6 5', partial: true }]
+      : []),
+    { key: 'Ev', label: 'Ev', energy: 0, color: '#7e22ce' }
+  ];
+
+  const pad = Math.max(0.12 * Eg, 0.05);
+  const energies = levels.map((level) => level.energy);
+  const low = Math.min(0, ...energies) - pad;
+  const high = Math.max(Eg, ...energies) + pad;
+  const toY = (energy: number) => PLOT.bottom - (energy - low) / (high - low) * (PLOT.bottom - PLOT.top);
+
+  const labelPositions = spreadLabels(levels.map((level) => toY(level.energy)));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {/* Bands */}
+        <rect x={PLOT.left} y={PLOT.top} width={PLOT.right - PLOT.left} height={toY(Eg) - PLOT.top} fill="#dbeafe" />
+        <rect x={PLOT.left} y={toY(0)} width={PLOT.right - PLOT.left} height={PLOT.bottom - toY(0)} fill="#f3e8ff" />
+        <text x={PLOT.left + 8} y={PLOT.top + 14} className="fill-blue-700 text-[11px]">Conduction band</text>
+        <text x={PLOT.left + 8} y={PLOT.bottom - 6} className="fill-purple-700 text-[11px]">Valence band</text>
+
+        {/* Midgap reference for the Ei offset */}
+        <line
+          x1={PLOT.left}
+          x2={PLOT.right}
+          y1={toY(Eg / 2)}
+          y2={toY(Eg / 2)}
+          stroke="#d1d5db"
+          strokeDasharray="1 3"
+        />
+
+        {/* Bandgap arrow */}
+        <line
+          x1={PLOT.right - 20}
+          x2={PLOT.right - 20}
+          y1={toY(Eg) + 3}
+          y2={toY(0) - 3}
+          stroke="#9ca3af"
+          markerStart={`url(#${arrowId})`}
+          markerEnd={`url(#${arrowId})`}
+        />
+        <text x={PLOT.right - 26} y={toY(Eg / 2) - 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+          Eg = {Eg.toFixed(3)} eV
+        </text>
+        <defs>
+          <marker id={arrowId} viewBox="0 0 10 10" refX="5" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M0,0 L10,5 L0,10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+
+        {levels.map((level, i) => {
+          const y = toY(level.energy);
+          return (
+            <g key={level.key}>
+              {level.partial ? (
+                // Localized dopant states drawn as short dashes
+                <line
+                  x1={PLOT.left + 20}
+                  x2={PLOT.right - 60}
+                  y1={y}
+                  y2={y}
+                  stroke={level.color}
+                  strokeWidth={3}
+                  strokeDasharray={level.dash}
+                />
+              ) : (
+                <line
+                  x1={PLOT.left}
+                  x2={PLOT.right}
+                  y1={y}
+                  y2={y}
+                  stroke={level.color}
+                  strokeWidth={level.key.startsWith('EF') ? 2.5 : 2}
+                  strokeDasharray={level.dash}
+                />
+              )}
+              <text x={PLOT.left - 8} y={labelPositions[i] + 4} textAnchor="end" className="text-[12px] font-semibold" fill={level.color}>
+                {level.label}
+              </text>
+              <text x={PLOT.right + 8} y={labelPositions[i] + 4} className="text-[11px] font-mono" fill={level.color}>
+                {level.energy.toFixed(3)} eV
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 mt-2">
+        <div>Ei − Emid = ½kT·ln(Nv/Nc) = {formatEnergy(results.intrinsicOffset)}</div>
+        {quasiFermi ? (
+          <div>EFn − EFp = {formatEnergy(quasiFermi.electrons - quasiFermi.holes)}</div>
+        ) : (
+          <div>EF − Ei = {formatEnergy(results.fermiLevel)}</div>
+        )}
+        {donorConc > 0 && <div>Ec − Ed = {formatEnergy(material.donorIonizationEnergy)}</div>}
+        {acceptorConc > 0 && <div>Ea − Ev = {formatEnergy(material.acceptorIonizationEnergy)}</div>}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">Energies measured from Ev; dotted line marks midgap.</p>
+    </div>
+  );
+}
+
+export default BandDiagram;
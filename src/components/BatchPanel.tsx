@@ -0,0 +1,137 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { Download, Table, Upload } from 'lucide-react';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { batchToCsv, batchToJson, parseBatchCsv, runBatch } from '../storage/batch';
+import { downloadFile } from '../utils/download';
+import { formatEnergy, formatLog10, formatScientific } from '../utils/format';
+
+interface BatchPanelProps {
+  materials: MaterialProperties[];
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+}
+
+const EXAMPLE = `material,T,ND,NA
+Silicon,300,1e15,0
+Silicon,300,1e17,0
+Silicon,77,1e16,0
+Silicon,450,0,5e16
+GaAs,300,2e17,0`;
+
+function BatchPanel({ materials, constants, ionization, statistics, narrowing }: BatchPanelProps) {
+  const [text, setText] = useState(EXAMPLE);
+
+  const { rows, issues } = useMemo(() => parseBatchCsv(text, materials), [text, materials]);
+  const results = useMemo(
+    () => runBatch(rows, { ...constants, ionization, statistics, narrowing }),
+    [rows, constants, ionization, statistics, narrowing]
+  );
+
+  const uploadCsv = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Table className="w-5 h-5 text-emerald-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Batch Calculation</h2>
+          <span className="px-2 py-1 bg-emerald-100 text-emerald-800 text-xs rounded-full">
+            {results.length} row{results.length === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <label className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 cursor-pointer">
+            <Upload className="w-3 h-3" />
+            Upload CSV
+            <input type="file" accept=".csv,text/csv" onChange={uploadCsv} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadFile('batch-results.csv', batchToCsv(results), 'text/csv')}
+            disabled={results.length === 0}
+            className="px-3 py-1 bg-emerald-100 hover:bg-emerald-200 text-emerald-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" />
+            CSV
+          </button>
+          <button
+            onClick={() => downloadFile('batch-results.json', batchToJson(results), 'application/json')}
+            disabled={results.length === 0}
+            className="px-3 py-1 bg-emerald-100 hover:bg-emerald-200 text-emerald-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="grid xl:grid-cols-3 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Rows of material, T (K), ND, NA (cm⁻³)
+          </label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={12}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Materials are matched by library name or id. Ionization, statistics, bandgap narrowing and the
+            physical constants come from the current settings.
+          </p>
+          {issues.length > 0 && (
+            <div className="text-xs text-red-700 bg-red-50 p-3 rounded-lg mt-2 space-y-1">
+              {issues.map(({ line, message }) => (
+                <p key={line}>Row {line}: {message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="xl:col-span-2 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                {['Row', 'Material', 'T (K)', 'ND', 'NA', 'ni', 'n', 'p', 'EF − Ei', 'Type'].map((label) => (
+                  <th key={label} className="py-2 pr-3 font-medium">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(({ row, result }) => (
+                <tr key={row.line} className="border-b border-gray-100 text-gray-800">
+                  <td className="py-1 pr-3 text-gray-500">{row.line}</td>
+                  <td className="py-1 pr-3">{row.material.name}</td>
+                  <td className="py-1 pr-3">{row.temperature}</td>
+                  <td className="py-1 pr-3">{formatScientific(row.donorConc)}</td>
+                  <td className="py-1 pr-3">{formatScientific(row.acceptorConc)}</td>
+                  <td className="py-1 pr-3">{formatLog10(result.log10Ni)}</td>
+                  <td className="py-1 pr-3">{formatLog10(result.log10N)}</td>
+                  <td className="py-1 pr-3">{formatLog10(result.log10P)}</td>
+                  <td className="py-1 pr-3">{formatEnergy(result.fermiLevel)}</td>
+                  <td className="py-1 pr-3">{result.conductionType}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            The table is rounded for display; the CSV and JSON downloads keep full double precision and also
+            list EF relative to both band edges, Eg and the ionized dopant densities.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BatchPanel;
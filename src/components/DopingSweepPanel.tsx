@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import LineChart, { ChartMarker, ChartSeries } from './charts/LineChart';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, ConcentrationResult, IonizationModel } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import {
+  DopingSweepVariable,
+  findDegeneracyOnset,
+  findTypeTransitions,
+  logRange,
+  NON_DEGENERATE_LIMIT_KT,
+  sweepDoping
+} from '../physics/sweep';
+import { formatDecade, formatEnergy, formatLog10, formatScientific } from '../utils/format';
+
+interface DopingSweepPanelProps {
+  material: MaterialProperties;
+  temperature: number;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+}
+
+type EnergyReference = 'Ec' | 'Ei' | 'Ev';
+
+const SERIES_COLORS = { n: '#16a34a', p: '#9333ea', ni: '#2563eb', EF: '#ea580c', Ec: '#1f2937', Ei: '#6b7280', Ev: '#1f2937' };
+const DEGENERACY_COLOR = '#dc2626';
+const TRANSITION_COLOR = '#0891b2';
+
+// EF measured from the chosen reference level
+const fermiRelativeTo = (result: ConcentrationResult, reference: EnergyReference): number => {
+  switch (reference) {
+    case 'Ec':
+      return result.fermiLevelFromEc;
+    case 'Ei':
+      return result.fermiLevel;
+    case 'Ev':
+      return result.fermiLevelFromEv;
+  }
+};
+
+function DopingSweepPanel({
+  material,
+  temperature,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing
+}: DopingSweepPanelProps) {
+  const [variable, setVariable] = useState<DopingSweepVariable>('donor');
+  const [minExponent, setMinExponent] = useState(12);
+  const [maxExponent, setMaxExponent] = useState(20);
+  const [reference, setReference] = useState<EnergyReference>('Ei');
+
+  const rangeValid = maxExponent > minExponent;
+  const kT = constants.kB * temperature;
+  const heldLabel = variable === 'donor'
+    ? `NA = ${formatScientific(acceptorConc)}`
+    : `ND = ${formatScientific(donorConc)}`;
+  const sweptSymbol = variable === 'donor' ? 'ND' : 'NA';
+
+  const sweep = useMemo(() => {
+    if (!rangeValid) return [];
+    return sweepDoping(
+      { material, temperature, donorConc, acceptorConc, ...constants, ionization, statistics, narrowing },
+      variable,
+      logRange(Math.pow(10, minExponent), Math.pow(10, maxExponent), (maxExponent - minExponent) * 20 + 1)
+    );
+  }, [material, temperature, donorConc, acceptorConc, constants, ionization, statistics, narrowing, variable, minExponent, maxExponent, rangeValid]);
+
+  const dopings = sweep.map((point) => point.doping);
+  const degeneracyOnset = findDegeneracyOnset(sweep, kT);
+  const transitions = findTypeTransitions(sweep);
+
+  const markers: ChartMarker[] = [
+    ...(degeneracyOnset !== null
+      ? [{ axis: 'x' as const, value: degeneracyOnset, label: `|EF − E band| < ${NON_DEGENERATE_LIMIT_KT}kT`, color: DEGENERACY_COLOR }]
+      : []),
+    ...transitions.map((transition) => ({
+      axis: 'x' as const,
+      value: transition.doping,
+      label: `${transition.from} → ${transition.to}`,
+      color: TRANSITION_COLOR
+    }))
+  ];
+
+  const concentrationSeries: ChartSeries[] = [
+    { label: 'n', color: SERIES_COLORS.n, values: sweep.map((point) => point.result.n) },
+    { label: 'p', color: SERIES_COLORS.p, values: sweep.map((point) => point.result.p) },
+    { label: 'ni', color: SERIES_COLORS.ni, values: sweep.map((point) => point.result.ni), dashed: true }
+  ];
+
+  // Every level is plotted relative to the chosen reference, using EF - X to recover X - reference
+  const levelRelative = (result: ConcentrationResult, level: EnergyReference) =>
+    fermiRelativeTo(result, reference) - fermiRelativeTo(result, level);
+  const energySeries: ChartSeries[] = [
+    { label: 'EF', color: SERIES_COLORS.EF, values: sweep.map((point) => fermiRelativeTo(point.result, reference)) },
+    { label: 'Ec', color: SERIES_COLORS.Ec, values: sweep.map((point) => levelRelative(point.result, 'Ec')) },
+    { label: 'Ei', color: SERIES_COLORS.Ei, values: sweep.map((point) => levelRelative(point.result, 'Ei')), dashed: true },
+    { label: 'Ev', color: SERIES_COLORS.Ev, values: sweep.map((point) => levelRelative(point.result, 'Ev')) }
+  ];
+
+  const renderTooltip = (index: number) => {
+    const { doping, result } = sweep[index];
+    return (
+      <>
+        <div className="font-semibold text-gray-800">{sweptSymbol} = {formatScientific(doping)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.n }}>n = {formatLog10(result.log10N)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.p }}>p = {formatLog10(result.log10P)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.EF }}>EF - Ec = {formatEnergy(result.fermiLevelFromEc)}</div>
+        <div style={{ color: SERIES_COLORS.EF }}>EF - Ei = {formatEnergy(result.fermiLevel)}</div>
+        <div style={{ color: SERIES_COLORS.EF }}>EF - Ev = {formatEnergy(result.fermiLevelFromEv)}</div>
+        <div className="text-gray-600">{result.conductionType}</div>
+      </>
+    );
+  };
+
+  const currentDoping = variable === 'donor' ? donorConc : acceptorConc;
+  const currentMarker: ChartMarker[] = currentDoping > 0
+    ? [{ axis: 'x', value: currentDoping, label: 'current', color: '#4b5563' }]
+    : [];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="w-5 h-5 text-teal-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Doping Sweep</h2>
+          <span className="px-2 py-1 bg-teal-100 text-teal-800 text-xs rounded-full">
+            {material.name} · T = {temperature} K · {heldLabel}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {(['Ec', 'Ei', 'Ev'] as EnergyReference[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setReference(option)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                reference === option ? 'bg-teal-600 text-white' : 'bg-teal-100 hover:bg-teal-200 text-teal-700'
+              }`}
+            >
+              EF − {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-sm">
+        <div>
+          <label className="block text-gray-600 mb-1">Swept dopant</label>
+          <select
+            value={variable}
+            onChange={(e) => setVariable(e.target.value as DopingSweepVariable)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="donor">Donors (ND)</option>
+            <option value="acceptor">Acceptors (NA)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">From (10^x cm⁻³)</label>
+          <NumberInput
+            value={minExponent}
+            onChange={setMinExponent}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">To (10^x cm⁻³)</label>
+          <NumberInput
+            value={maxExponent}
+            onChange={setMaxExponent}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          />
+        </div>
+      </div>
+
+      {!rangeValid ? (
+        <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          The upper doping exponent must be greater than the lower one.
+        </p>
+      ) : (
+        <div className="grid xl:grid-cols-2 gap-6">
+          <LineChart
+            x={dopings}
+            series={energySeries}
+            xLabel={`${sweptSymbol} (cm⁻³)`}
+            yLabel={`Energy relative to ${reference} (eV)`}
+            formatX={formatDecade}
+            formatY={(value) => value.toFixed(2)}
+            xScale="log"
+            markers={[...currentMarker, ...markers]}
+            renderTooltip={renderTooltip}
+          />
+          <LineChart
+            x={dopings}
+            series={concentrationSeries}
+            xLabel={`${sweptSymbol} (cm⁻³)`}
+            yLabel="Concentration (cm⁻³)"
+            formatX={formatDecade}
+            formatY={formatDecade}
+            xScale="log"
+            yScale="log"
+            markers={[...currentMarker, ...markers]}
+            renderTooltip={renderTooltip}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-full" style={{ background: DEGENERACY_COLOR }} />
+          {degeneracyOnset !== null
+            ? `Non-degenerate approximation fails above ${sweptSymbol} ≈ ${formatScientific(degeneracyOnset)} cm⁻³`
+            : 'Non-degenerate approximation holds over the whole range'}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-full" style={{ background: TRANSITION_COLOR }} />
+          {transitions.length > 0
+            ? `Conduction type changes at ${transitions.map((t) => `${sweptSymbol} ≈ ${formatScientific(t.doping)}`).join(', ')} cm⁻³`
+            : 'No change of conduction type in this range'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default DopingSweepPanel;
@@ -0,0 +1,266 @@
+import { useMemo, useState } from 'react';
+import { Magnet } from 'lucide-react';
+import LineChart, { ChartHighlight, ChartSeries } from './charts/LineChart';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, ConcentrationInput, IonizationModel } from '../physics/engine';
+import { extractHallPoint, fitHallData, HallFitInput, majorityType } from '../physics/hall';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { linearRange, sweepTemperature } from '../physics/sweep';
+import { parseHallCsv } from '../storage/hallData';
+import { formatDecade, formatEnergy, formatScientific } from '../utils/format';
+
+interface HallPanelProps {
+  material: MaterialProperties;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+  onApplyDoping: (donorConc: number, acceptorConc: number) => void;
+}
+
+// Phosphorus-doped silicon with a little compensation, measured from 50 to 350 K
+const EXAMPLE = `T (K),RH (cm^3/C),rho (ohm cm)
+50,-2.79e4,1.04
+70,-5.26e3,0.256
+90,-2.84e3,0.195
+120,-2.43e3,0.277
+150,-2.25e3,0.398
+200,-2.24e3,0.725
+250,-2.25e3,1.18
+300,-2.19e3,1.69
+350,-2.27e3,2.45`;
+
+const COLORS = { current: '#9ca3af', fitted: '#0891b2', n: '#2563eb', p: '#dc2626' };
+const CURVE_POINTS = 150;
+// Fitting ND, NA and the ionization energy together needs at least this many temperatures
+const FULL_FIT_POINTS = 3;
+
+function HallPanel({
+  material,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing,
+  onApplyDoping
+}: HallPanelProps) {
+  const [text, setText] = useState(EXAMPLE);
+  const [thicknessUm, setThicknessUm] = useState(500);
+  const [hallFactor, setHallFactor] = useState(1);
+  const [fitCompensation, setFitCompensation] = useState(true);
+  const [fitIonizationEnergy, setFitIonizationEnergy] = useState(true);
+
+  const { rows, issues } = useMemo(
+    () => parseHallCsv(text, { thickness: thicknessUm * 1e-4, hallFactor }),
+    [text, thicknessUm, hallFactor]
+  );
+  const points = useMemo(() => rows.map(extractHallPoint), [rows]);
+  const type = majorityType(points);
+  const usedPoints = points.filter((point) => point.type === type);
+  const fullFit = usedPoints.length >= FULL_FIT_POINTS;
+  // The ionization energy only matters when dopants can freeze out
+  const canFitEnergy = fullFit && ionization === 'incomplete';
+
+  // The fit finds ND and NA itself, so the sample inputs must not trigger a refit
+  const fitConditions: HallFitInput = useMemo(
+    () => ({ material, ...constants, ionization, statistics, narrowing }),
+    [material, constants, ionization, statistics, narrowing]
+  );
+
+  const fit = useMemo(() => {
+    if (usedPoints.length === 0) return null;
+    return fitHallData(points, fitConditions, {
+      fitCompensation: fitCompensation && fullFit,
+      fitIonizationEnergy: fitIonizationEnergy && canFitEnergy
+    });
+  }, [points, usedPoints.length, fitConditions, fitCompensation, fitIonizationEnergy, fullFit, canFitEnergy]);
+
+  const temperatures = useMemo(() => {
+    if (points.length === 0) return [];
+    const measured = points.map((point) => point.temperature);
+    return linearRange(Math.max(1, Math.min(...measured) * 0.8), Math.max(...measured) * 1.1, CURVE_POINTS);
+  }, [points]);
+
+  const energyField = type === 'n' ? 'donorIonizationEnergy' : 'acceptorIonizationEnergy';
+  const curves = useMemo(() => {
+    const majorityOf = (input: Omit<ConcentrationInput, 'temperature'>) => sweepTemperature(input, temperatures)
+      .map(({ result }) => (type === 'n' ? result.n : result.p));
+    return {
+      current: majorityOf({ ...fitConditions, donorConc, acceptorConc }),
+      fitted: fit
+        ? majorityOf({
+          ...fitConditions,
+          material: { ...material, [energyField]: fit.ionizationEnergy },
+          donorConc: fit.donorConc,
+          acceptorConc: fit.acceptorConc
+        })
+        : []
+    };
+  }, [fitConditions, donorConc, acceptorConc, temperatures, type, fit, material, energyField]);
+
+  const carrier = type === 'n' ? 'n' : 'p';
+  const series: ChartSeries[] = [
+    { label: `${carrier}(T) for the current inputs`, color: COLORS.current, values: curves.current, dashed: true },
+    ...(fit ? [{ label: `${carrier}(T) for the fit`, color: COLORS.fitted, values: curves.fitted }] : [])
+  ];
+  const highlights: ChartHighlight[] = points.map((point) => ({
+    x: point.temperature,
+    y: point.density,
+    color: COLORS[point.type]
+  }));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <Magnet className="w-5 h-5 text-cyan-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Hall Measurement Analysis</h2>
+        <span className="px-2 py-1 bg-cyan-100 text-cyan-800 text-xs rounded-full">
+          {points.length} point{points.length === 1 ? '' : 's'} · {material.name}
+        </span>
+      </div>
+
+      <div className="grid xl:grid-cols-3 gap-6">
+        <div className="space-y-3 text-sm">
+          <div>
+            <label className="block text-gray-600 mb-1">Measurements (T, RH in cm³/C, rho in Ω·cm or Rs in Ω/sq)</label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-gray-600 mb-1">Thickness for Rs (µm)</label>
+              <NumberInput
+                value={thicknessUm}
+                onChange={setThicknessUm}
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+                positive
+              />
+            </div>
+            <div>
+              <label className="block text-gray-600 mb-1">Hall factor rH</label>
+              <NumberInput
+                value={hallFactor}
+                onChange={setHallFactor}
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+                positive
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            A hall_factor column overrides rH per row. rH is about 1.18 (3π/8) for lattice scattering and 1 for
+            degenerate samples.
+          </p>
+          {issues.length > 0 && (
+            <div className="text-xs text-red-700 bg-red-50 p-3 rounded-lg space-y-1">
+              {issues.map(({ line, message }) => (
+                <p key={line}>Row {line}: {message}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={fitCompensation}
+                onChange={(e) => setFitCompensation(e.target.checked)}
+                disabled={!fullFit}
+              />
+              Fit the compensating dopant ({type === 'n' ? 'NA' : 'ND'})
+            </label>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={fitIonizationEnergy}
+                onChange={(e) => setFitIonizationEnergy(e.target.checked)}
+                disabled={!canFitEnergy}
+              />
+              Fit the ionization energy ({type === 'n' ? 'Ec − Ed' : 'Ea − Ev'})
+            </label>
+            {!fullFit && points.length > 0 && (
+              <p className="text-xs text-gray-500">
+                With fewer than {FULL_FIT_POINTS} temperatures only the majority dopant is fitted.
+              </p>
+            )}
+          </div>
+
+          {fit && (
+            <div className="bg-gradient-to-r from-cyan-50 to-cyan-100 p-4 rounded-lg space-y-1">
+              <p className="font-bold text-cyan-900">ND = {formatScientific(fit.donorConc)} cm⁻³</p>
+              <p className="font-bold text-cyan-900">NA = {formatScientific(fit.acceptorConc)} cm⁻³</p>
+              <p className="text-cyan-900">
+                {type === 'n' ? 'Ec − Ed' : 'Ea − Ev'} = {formatEnergy(fit.ionizationEnergy)}
+              </p>
+              <p className="text-xs text-cyan-700">
+                RMS error {(fit.rmsLogError * 100).toFixed(2)}% of a decade after {fit.iterations} iterations
+              </p>
+              <button
+                onClick={() => onApplyDoping(fit.donorConc, fit.acceptorConc)}
+                className="mt-2 px-3 py-1 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-xs font-medium transition-colors"
+              >
+                Use fitted ND and NA
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="xl:col-span-2 space-y-4">
+          {temperatures.length > 0 ? (
+            <LineChart
+              x={temperatures}
+              series={series}
+              xLabel="Temperature (K)"
+              yLabel={`${type === 'n' ? 'Electron' : 'Hole'} density (cm⁻³)`}
+              formatX={(value) => value.toFixed(0)}
+              formatY={formatDecade}
+              yScale="log"
+              highlights={highlights}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">Enter at least one valid measurement to compare it with the model.</p>
+          )}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                {['Row', 'T (K)', 'Type', 'Density (cm⁻³)', 'μH (cm²/Vs)', 'μ (cm²/Vs)'].map((label) => (
+                  <th key={label} className="py-2 pr-3 font-medium">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {points.map((point, i) => (
+                <tr key={rows[i].line} className="border-b border-gray-100 text-gray-800">
+                  <td className="py-1 pr-3 text-gray-500">{rows[i].line}</td>
+                  <td className="py-1 pr-3">{point.temperature}</td>
+                  <td className="py-1 pr-3" style={{ color: COLORS[point.type] }}>{point.type}-type</td>
+                  <td className="py-1 pr-3">{formatScientific(point.density)}</td>
+                  <td className="py-1 pr-3">{point.hallMobility.toFixed(0)}</td>
+                  <td className="py-1 pr-3">{point.driftMobility.toFixed(0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400">
+            Single-carrier analysis: n or p = rH/(q|RH|), μH = |RH|/ρ and μ = μH/rH. The fit minimises the squared
+            log10 error of the majority density using the current material, ionization, statistics and narrowing
+            settings; points of the other carrier type are left out of it. Unless it is fitted, the compensating
+            dopant is taken as zero.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HallPanel;
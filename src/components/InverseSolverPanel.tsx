@@ -0,0 +1,199 @@
+import { useMemo, useState } from 'react';
+import { Target } from 'lucide-react';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import {
+  InverseTarget,
+  InverseVariable,
+  inverseTargets,
+  inverseVariables,
+  solveInverse,
+  targetValueOf
+} from '../physics/inverse';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { formatEnergy, formatLog10, formatScientific } from '../utils/format';
+
+interface InverseSolverPanelProps {
+  material: MaterialProperties;
+  temperature: number;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+  onApply: (variable: InverseVariable, value: number) => void;
+}
+
+const DEFAULT_TARGETS: Record<InverseTarget, number> = { n: 5e17, p: 5e17, fermiLevel: 0.3, niRatio: 0.1 };
+// Doping ranges are entered as decades, temperature in kelvin
+const DEFAULT_RANGES: Record<InverseVariable, [number, number]> = {
+  donorConc: [10, 21],
+  acceptorConc: [10, 21],
+  temperature: [20, 800]
+};
+
+const formatTarget = (target: InverseTarget, value: number): string => {
+  switch (target) {
+    case 'fermiLevel':
+      return formatEnergy(value);
+    case 'niRatio':
+      return value.toPrecision(3);
+    default:
+      return `${formatScientific(value)} cm⁻³`;
+  }
+};
+
+const formatVariable = (variable: InverseVariable, value: number): string => {
+  return variable === 'temperature' ? `${value.toFixed(1)} K` : `${formatScientific(value)} cm⁻³`;
+};
+
+function InverseSolverPanel({
+  material,
+  temperature,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing,
+  onApply
+}: InverseSolverPanelProps) {
+  const [target, setTarget] = useState<InverseTarget>('n');
+  const [targetValue, setTargetValue] = useState(DEFAULT_TARGETS.n);
+  const [variable, setVariable] = useState<InverseVariable>('donorConc');
+  const [range, setRange] = useState(DEFAULT_RANGES.donorConc);
+
+  const isDoping = variable !== 'temperature';
+  const [min, max] = isDoping ? range.map((exponent) => Math.pow(10, exponent)) : range;
+
+  const solution = useMemo(() => solveInverse({
+    input: { material, temperature, donorConc, acceptorConc, ...constants, ionization, statistics, narrowing },
+    target,
+    targetValue,
+    variable,
+    min,
+    max
+  }), [material, temperature, donorConc, acceptorConc, constants, ionization, statistics, narrowing, target, targetValue, variable, min, max]);
+
+  const changeTarget = (next: InverseTarget) => {
+    setTarget(next);
+    setTargetValue(DEFAULT_TARGETS[next]);
+  };
+
+  const changeVariable = (next: InverseVariable) => {
+    setVariable(next);
+    setRange(DEFAULT_RANGES[next]);
+  };
+
+  const held = (['temperature', 'donorConc', 'acceptorConc'] as InverseVariable[])
+    .filter((key) => key !== variable)
+    .map((key) => key === 'temperature'
+      ? `T = ${temperature} K`
+      : `${key === 'donorConc' ? 'ND' : 'NA'} = ${formatScientific(key === 'donorConc' ? donorConc : acceptorConc)}`)
+    .join(' · ');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <Target className="w-5 h-5 text-rose-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Inverse Solver</h2>
+        <span className="px-2 py-1 bg-rose-100 text-rose-800 text-xs rounded-full">
+          {material.name} · {held}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-5 gap-3 mb-4 text-sm">
+        <div>
+          <label className="block text-gray-600 mb-1">Target quantity</label>
+          <select
+            value={target}
+            onChange={(e) => changeTarget(e.target.value as InverseTarget)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            {(Object.keys(inverseTargets) as InverseTarget[]).map((key) => (
+              <option key={key} value={key}>{inverseTargets[key].label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">
+            Target value {inverseTargets[target].unit && `(${inverseTargets[target].unit})`}
+          </label>
+          <NumberInput
+            value={targetValue}
+            onChange={setTargetValue}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">Free variable</label>
+          <select
+            value={variable}
+            onChange={(e) => changeVariable(e.target.value as InverseVariable)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            {(Object.keys(inverseVariables) as InverseVariable[]).map((key) => (
+              <option key={key} value={key}>{inverseVariables[key].label}</option>
+            ))}
+          </select>
+        </div>
+        {[0, 1].map((bound) => (
+          <div key={bound}>
+            <label className="block text-gray-600 mb-1">
+              {bound === 0 ? 'From' : 'To'} {isDoping ? '(10^x cm⁻³)' : '(K)'}
+            </label>
+            <NumberInput
+              value={range[bound]}
+              onChange={(value) => setRange(bound === 0 ? [value, range[1]] : [range[0], value])}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+            />
+          </div>
+        ))}
+      </div>
+
+      {solution.status === 'solved' ? (
+        <div className="bg-gradient-to-r from-rose-50 to-rose-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-lg font-bold text-rose-900">
+              {inverseVariables[variable].label} = {formatVariable(variable, solution.value)}
+            </p>
+            <p className="text-sm text-rose-700">
+              gives {inverseTargets[target].label} = {formatTarget(
+                target,
+                targetValueOf(solution.result, target, variable === 'donorConc' ? solution.value : donorConc)
+              )}
+              {' '}(n = {formatLog10(solution.result.log10N)}, p = {formatLog10(solution.result.log10P)} cm⁻³,
+              {' '}{solution.result.conductionType})
+            </p>
+            {solution.otherSolutions.length > 0 && (
+              <p className="text-xs text-rose-700 mt-1">
+                The target is also reached at {solution.otherSolutions.map((value) => formatVariable(variable, value)).join(', ')}.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => onApply(variable, solution.value)}
+            className="px-4 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Use this value
+          </button>
+        </div>
+      ) : (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          <p className="font-medium">No solution: {solution.reason}.</p>
+          {solution.reachable && (
+            <p className="text-xs mt-1">
+              Over this range the target quantity only spans {formatTarget(target, solution.reachable[0])} to
+              {' '}{formatTarget(target, solution.reachable[1])}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InverseSolverPanel;
@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import LineChart, { ChartMarker, ChartSeries } from './charts/LineChart';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import { calculateJunction, junctionProfile, sweepReverseBias } from '../physics/junction';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { linearRange } from '../physics/sweep';
+import { formatEnergy, formatScientific } from '../utils/format';
+
+interface JunctionPanelProps {
+  material: MaterialProperties;
+  temperature: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+}
+
+const SERIES_COLORS = { Ec: '#1d4ed8', Ev: '#7e22ce', Ei: '#6b7280', EFn: '#16a34a', EFp: '#dc2626', C: '#0d9488' };
+const PROFILE_POINTS = 241;
+const BIAS_POINTS = 81;
+
+const toMicrons = (cm: number) => cm * 1e4;
+const toNanofarads = (farads: number) => farads * 1e9;
+
+function JunctionPanel({ material, temperature, constants, ionization, statistics, narrowing }: JunctionPanelProps) {
+  const [acceptorConc, setAcceptorConc] = useState(1e17);
+  const [donorConc, setDonorConc] = useState(1e16);
+  const [reverseBias, setReverseBias] = useState(0);
+  const [maxReverseBias, setMaxReverseBias] = useState(10);
+
+  const valid = acceptorConc > 0 && donorConc > 0 && maxReverseBias > 0;
+  const input = useMemo(
+    () => ({ material, temperature, ...constants, ionization, statistics, narrowing, acceptorConc, donorConc }),
+    [material, temperature, constants, ionization, statistics, narrowing, acceptorConc, donorConc]
+  );
+
+  const junction = useMemo(() => (valid ? calculateJunction(input, reverseBias) : null), [valid, input, reverseBias]);
+  const profile = useMemo(
+    () => (junction ? junctionProfile(input, junction, PROFILE_POINTS) : []),
+    [input, junction]
+  );
+  const biasSweep = useMemo(
+    () => (valid ? sweepReverseBias(input, linearRange(0, maxReverseBias, BIAS_POINTS)) : []),
+    [valid, input, maxReverseBias]
+  );
+
+  const positions = profile.map((point) => toMicrons(point.x));
+  const bandSeries: ChartSeries[] = [
+    { label: 'Ec', color: SERIES_COLORS.Ec, values: profile.map((point) => point.Ec) },
+    { label: 'Ei', color: SERIES_COLORS.Ei, values: profile.map((point) => point.Ei), dashed: true },
+    { label: 'Ev', color: SERIES_COLORS.Ev, values: profile.map((point) => point.Ev) },
+    { label: 'EFn', color: SERIES_COLORS.EFn, values: profile.map((point) => point.EFn), dashed: true },
+    { label: 'EFp', color: SERIES_COLORS.EFp, values: profile.map((point) => point.EFp), dashed: true }
+  ];
+  const edgeMarkers: ChartMarker[] = junction
+    ? [
+        { axis: 'x', value: -toMicrons(junction.pDepletionWidth), label: '−xp', color: '#4b5563' },
+        { axis: 'x', value: 0, label: 'junction', color: '#9ca3af' },
+        { axis: 'x', value: toMicrons(junction.nDepletionWidth), label: 'xn', color: '#4b5563' }
+      ]
+    : [];
+
+  const biases = biasSweep.map((point) => point.reverseBias);
+  const capacitanceSeries: ChartSeries[] = [
+    { label: 'Cj', color: SERIES_COLORS.C, values: biasSweep.map((point) => toNanofarads(point.junction.capacitance)) }
+  ];
+
+  const renderProfileTooltip = (index: number) => {
+    const point = profile[index];
+    return (
+      <>
+        <div className="font-semibold text-gray-800">x = {toMicrons(point.x).toFixed(3)} µm</div>
+        <div style={{ color: SERIES_COLORS.Ec }}>Ec = {point.Ec.toFixed(3)} eV</div>
+        <div style={{ color: SERIES_COLORS.Ev }}>Ev = {point.Ev.toFixed(3)} eV</div>
+        {!Number.isNaN(point.EFn) && <div style={{ color: SERIES_COLORS.EFn }}>EFn = {point.EFn.toFixed(3)} eV</div>}
+        {!Number.isNaN(point.EFp) && <div style={{ color: SERIES_COLORS.EFp }}>EFp = {point.EFp.toFixed(3)} eV</div>}
+      </>
+    );
+  };
+
+  const renderBiasTooltip = (index: number) => {
+    const { reverseBias: bias, junction: point } = biasSweep[index];
+    return (
+      <>
+        <div className="font-semibold text-gray-800">VR = {bias.toFixed(2)} V</div>
+        <div style={{ color: SERIES_COLORS.C }}>Cj = {toNanofarads(point.capacitance).toFixed(2)} nF/cm²</div>
+        <div className="text-gray-600">1/Cj² = {formatScientific(1 / point.capacitance ** 2)} cm⁴/F²</div>
+        <div className="text-gray-600">W = {toMicrons(point.depletionWidth).toFixed(3)} µm</div>
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <GitMerge className="w-5 h-5 text-cyan-600" />
+        <h2 className="text-xl font-semibold text-gray-800">PN Junction</h2>
+        <span className="px-2 py-1 bg-cyan-100 text-cyan-800 text-xs rounded-full">
+          {material.name} · T = {temperature} K · εr = {material.relativePermittivity}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-3 mb-4 text-sm">
+        <div>
+          <label className="block text-gray-600 mb-1">p side NA (cm⁻³)</label>
+          <NumberInput
+            value={acceptorConc}
+            onChange={setAcceptorConc}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={0}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">n side ND (cm⁻³)</label>
+          <NumberInput
+            value={donorConc}
+            onChange={setDonorConc}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={0}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">Reverse bias VR (V)</label>
+          <NumberInput
+            value={reverseBias}
+            onChange={setReverseBias}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">C–V sweep up to (V)</label>
+          <NumberInput
+            value={maxReverseBias}
+            onChange={setMaxReverseBias}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={0}
+          />
+        </div>
+      </div>
+
+      {!junction ? (
+        <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          Both sides need a positive doping and the C–V sweep a positive upper bias.
+        </p>
+      ) : (
+        <>
+          {junction.builtInPotential + reverseBias <= 0 && (
+            <p className="text-sm text-amber-700 bg-amber-50 p-3 rounded-lg mb-4">
+              The forward bias exceeds the built-in potential; the depletion approximation no longer applies.
+            </p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-6 text-sm">
+            {[
+              { label: 'Built-in potential Vbi', value: `${junction.builtInPotential.toFixed(3)} V` },
+              { label: 'Depletion width W', value: `${toMicrons(junction.depletionWidth).toFixed(3)} µm` },
+              { label: 'p side xp', value: `${toMicrons(junction.pDepletionWidth).toFixed(3)} µm` },
+              { label: 'n side xn', value: `${toMicrons(junction.nDepletionWidth).toFixed(3)} µm` },
+              { label: 'Peak field |Emax|', value: `${formatScientific(junction.peakField)} V/cm` },
+              { label: 'Capacitance Cj', value: `${toNanofarads(junction.capacitance).toFixed(2)} nF/cm²` }
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-gradient-to-r from-cyan-50 to-cyan-100 p-3 rounded-lg">
+                <h3 className="text-xs font-medium text-cyan-800 mb-1">{label}</h3>
+                <p className="font-bold text-cyan-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid xl:grid-cols-2 gap-6">
+            <LineChart
+              x={positions}
+              series={bandSeries}
+              xLabel="Position x (µm), p side on the left"
+              yLabel="Energy (eV)"
+              formatX={(value) => value.toFixed(2)}
+              formatY={(value) => value.toFixed(2)}
+              markers={edgeMarkers}
+              renderTooltip={renderProfileTooltip}
+            />
+            <LineChart
+              x={biases}
+              series={capacitanceSeries}
+              xLabel="Reverse bias VR (V)"
+              yLabel="Junction capacitance (nF/cm²)"
+              formatX={(value) => value.toFixed(1)}
+              formatY={(value) => value.toFixed(1)}
+              markers={reverseBias >= 0 && reverseBias <= maxReverseBias
+                ? [{ axis: 'x', value: reverseBias, label: 'VR', color: '#4b5563' }]
+                : []}
+              renderTooltip={renderBiasTooltip}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 mt-3">
+            <div>p side: EF − Ei = {formatEnergy(junction.pSide.fermiLevel)}, p = {formatScientific(junction.pSide.p)} cm⁻³</div>
+            <div>n side: EF − Ei = {formatEnergy(junction.nSide.fermiLevel)}, n = {formatScientific(junction.nSide.n)} cm⁻³</div>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            Abrupt junction in the depletion approximation; energies measured from Ev in the neutral n region.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default JunctionPanel;
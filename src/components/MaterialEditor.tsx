@@ -0,0 +1,306 @@
+import NumberInput from './NumberInput';
+import { bandgapModels } from '../physics/bandgap';
+import {
+  BandgapModel,
+  DensityOfStatesModel,
+  MaterialProperties,
+  MobilityParameters,
+  NarrowingParameters
+} from '../physics/materials';
+import { bandgapNarrowingModels } from '../physics/narrowing';
+import { materialFieldBounds } from '../storage/materialLibrary';
+
+interface MaterialEditorProps {
+  material: MaterialProperties;
+  onChange: <K extends keyof MaterialProperties>(property: K, value: MaterialProperties[K]) => void;
+}
+
+const mobilityFields: { key: keyof MobilityParameters; label: string }[] = [
+  { key: 'muMin', label: 'μmin (cm²/Vs)' },
+  { key: 'mu0', label: 'μ0 (cm²/Vs)' },
+  { key: 'Nref', label: 'Nref (cm⁻³)' },
+  { key: 'alpha', label: 'α' },
+  { key: 'betaMin', label: 'β1 (μmin)' },
+  { key: 'beta0', label: 'β2 (μ0)' },
+  { key: 'betaRef', label: 'β3 (Nref)' },
+  { key: 'betaAlpha', label: 'β4 (α)' }
+];
+
+const narrowingFields: { key: keyof NarrowingParameters; label: string }[] = [
+  { key: 'E0', label: 'E0 (eV)' },
+  { key: 'Nref', label: 'Nref (cm⁻³)' },
+  { key: 'C', label: 'C' }
+];
+
+const narrowingSets = [
+  { field: 'slotboomNarrowing', model: 'slotboom' },
+  { field: 'delAlamoNarrowing', model: 'del-alamo' }
+] as const;
+
+function MaterialEditor({ material, onChange }: MaterialEditorProps) {
+  const updateMobility = (carrier: 'electronMobility' | 'holeMobility', key: keyof MobilityParameters, value: number) => {
+    onChange(carrier, { ...material[carrier], [key]: value });
+  };
+
+  const updateNarrowing = (field: 'slotboomNarrowing' | 'delAlamoNarrowing', key: keyof NarrowingParameters, value: number) => {
+    onChange(field, { ...material[field], [key]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-sm">
+      <div className="col-span-2">
+        <label className="block text-gray-600 mb-1">Bandgap Model</label>
+        <select
+          value={material.bandgapModel}
+          onChange={(e) => onChange('bandgapModel', e.target.value as BandgapModel)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+        >
+          {(Object.keys(bandgapModels) as BandgapModel[]).map((model) => (
+            <option key={model} value={model}>{bandgapModels[model].label}</option>
+          ))}
+        </select>
+      </div>
+      {material.bandgapModel === 'linear' && (
+        <>
+          <div>
+            <label className="block text-gray-600 mb-1">Bandgap (eV)</label>
+            <NumberInput
+              value={material.bandgap}
+              onChange={(value) => onChange('bandgap', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('bandgap')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Temp Coeff (eV/K)</label>
+            <NumberInput
+              value={material.temperatureCoeff}
+              onChange={(value) => onChange('temperatureCoeff', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('temperatureCoeff')}
+            />
+          </div>
+        </>
+      )}
+      {material.bandgapModel !== 'linear' && (
+        <div>
+          <label className="block text-gray-600 mb-1">Eg0 (eV)</label>
+          <NumberInput
+            value={material.Eg0}
+            onChange={(value) => onChange('Eg0', value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            {...materialFieldBounds('Eg0')}
+          />
+        </div>
+      )}
+      {material.bandgapModel === 'varshni' && (
+        <>
+          <div>
+            <label className="block text-gray-600 mb-1">Varshni α (eV/K)</label>
+            <NumberInput
+              value={material.varshniAlpha}
+              onChange={(value) => onChange('varshniAlpha', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('varshniAlpha')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Varshni β (K)</label>
+            <NumberInput
+              value={material.varshniBeta}
+              onChange={(value) => onChange('varshniBeta', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('varshniBeta')}
+            />
+          </div>
+        </>
+      )}
+      {material.bandgapModel === 'bose-einstein' && (
+        <>
+          <div>
+            <label className="block text-gray-600 mb-1">aB (eV)</label>
+            <NumberInput
+              value={material.boseEinsteinAB}
+              onChange={(value) => onChange('boseEinsteinAB', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('boseEinsteinAB')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">ΘB (K)</label>
+            <NumberInput
+              value={material.boseEinsteinTheta}
+              onChange={(value) => onChange('boseEinsteinTheta', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('boseEinsteinTheta')}
+            />
+          </div>
+        </>
+      )}
+      <div className="col-span-2">
+        <label className="block text-gray-600 mb-1">Density of States</label>
+        <select
+          value={material.densityOfStatesModel}
+          onChange={(e) => onChange('densityOfStatesModel', e.target.value as DensityOfStatesModel)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+        >
+          <option value="fixed">Nc, Nv at 300 K scaled by (T/300)^3/2</option>
+          <option value="effective-mass">From effective masses</option>
+        </select>
+      </div>
+      {material.densityOfStatesModel === 'fixed' ? (
+        <>
+          <div>
+            <label className="block text-gray-600 mb-1">Nc (300K) cm⁻³</label>
+            <NumberInput
+              value={material.Nc300}
+              onChange={(value) => onChange('Nc300', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('Nc300')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Nv (300K) cm⁻³</label>
+            <NumberInput
+              value={material.Nv300}
+              onChange={(value) => onChange('Nv300', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('Nv300')}
+            />
+          </div>
+        </>
+      ) : (
+        <>
+          <div>
+            <label className="block text-gray-600 mb-1">m*e / m0 (per valley)</label>
+            <NumberInput
+              value={material.electronDosMass}
+              onChange={(value) => onChange('electronDosMass', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('electronDosMass')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">m*h / m0</label>
+            <NumberInput
+              value={material.holeDosMass}
+              onChange={(value) => onChange('holeDosMass', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('holeDosMass')}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Valley Degeneracy Mc</label>
+            <NumberInput
+              value={material.conductionValleys}
+              onChange={(value) => onChange('conductionValleys', value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              {...materialFieldBounds('conductionValleys')}
+            />
+          </div>
+        </>
+      )}
+      <div>
+        <label className="block text-gray-600 mb-1">Donor Level Ec−Ed (eV)</label>
+        <NumberInput
+          value={material.donorIonizationEnergy}
+          onChange={(value) => onChange('donorIonizationEnergy', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('donorIonizationEnergy')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Acceptor Level Ea−Ev (eV)</label>
+        <NumberInput
+          value={material.acceptorIonizationEnergy}
+          onChange={(value) => onChange('acceptorIonizationEnergy', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('acceptorIonizationEnergy')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Donor Degeneracy gD</label>
+        <NumberInput
+          value={material.donorDegeneracy}
+          onChange={(value) => onChange('donorDegeneracy', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('donorDegeneracy')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Acceptor Degeneracy gA</label>
+        <NumberInput
+          value={material.acceptorDegeneracy}
+          onChange={(value) => onChange('acceptorDegeneracy', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('acceptorDegeneracy')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Relative Permittivity εr</label>
+        <NumberInput
+          value={material.relativePermittivity}
+          onChange={(value) => onChange('relativePermittivity', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('relativePermittivity')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Fitted from T (K)</label>
+        <NumberInput
+          value={material.minTemperature}
+          onChange={(value) => onChange('minTemperature', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('minTemperature')}
+        />
+      </div>
+      <div>
+        <label className="block text-gray-600 mb-1">Fitted to T (K)</label>
+        <NumberInput
+          value={material.maxTemperature}
+          onChange={(value) => onChange('maxTemperature', value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+          {...materialFieldBounds('maxTemperature')}
+        />
+      </div>
+      {(['electronMobility', 'holeMobility'] as const).map((carrier) => (
+        <div key={carrier} className="col-span-2 grid grid-cols-2 gap-3">
+          <h3 className="col-span-2 text-gray-700 font-medium pt-1">
+            {carrier === 'electronMobility' ? 'Electron' : 'Hole'} Mobility (Arora)
+          </h3>
+          {mobilityFields.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-gray-600 mb-1">{label}</label>
+              <NumberInput
+                value={material[carrier][key]}
+                onChange={(value) => updateMobility(carrier, key, value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+                {...materialFieldBounds(carrier, key)}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+      {narrowingSets.map(({ field, model }) => (
+        <div key={field} className="col-span-2 grid grid-cols-3 gap-3">
+          <h3 className="col-span-3 text-gray-700 font-medium pt-1">
+            Bandgap Narrowing ({bandgapNarrowingModels[model].label})
+          </h3>
+          {narrowingFields.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-gray-600 mb-1">{label}</label>
+              <NumberInput
+                value={material[field][key]}
+                onChange={(value) => updateNarrowing(field, key, value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+                {...materialFieldBounds(field, key)}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default MaterialEditor;
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { formatNumberInput, NumberBounds, parseNumber } from '../utils/number';
+
+interface NumberInputProps extends NumberBounds {
+  value: number;
+  onChange: (value: number) => void;
+  className: string;
+  placeholder?: string;
+}
+
+// Text field for numbers that only reports valid values. What was typed is kept
+// while it is invalid, so clearing the field never silently becomes zero.
+function NumberInput({ value, onChange, className, placeholder, min, max, positive }: NumberInputProps) {
+  const [draft, setDraft] = useState(() => formatNumberInput(value));
+  const [lastValue, setLastValue] = useState(value);
+
+  const parsed = parseNumber(draft, { min, max, positive });
+
+  // Follow changes made elsewhere (undo, scenarios, other panels)
+  if (value !== lastValue) {
+    setLastValue(value);
+    if (parsed.value !== value) setDraft(formatNumberInput(value));
+  }
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const next = parseNumber(text, { min, max, positive });
+    if (next.value !== null && next.value !== value) {
+      setLastValue(next.value);
+      onChange(next.value);
+    }
+  };
+
+  return (
+    <>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        onBlur={() => parsed.error === null && setDraft(formatNumberInput(value))}
+        className={`${className} ${parsed.error !== null ? '!border-red-400 bg-red-50' : ''}`}
+        placeholder={placeholder}
+        aria-invalid={parsed.error !== null}
+        title={parsed.error ?? undefined}
+      />
+      {parsed.error !== null && <span className="block text-xs text-red-600 mt-1">{parsed.error}</span>}
+    </>
+  );
+}
+
+export default NumberInput;
@@ -0,0 +1,62 @@
+import NumberInput from './NumberInput';
+import { defaultMaterials, MaterialProperties } from '../physics/materials';
+import { RecombinationParameters, recombinationDefaults } from '../physics/recombination';
+
+interface RecombinationEditorProps {
+  params: RecombinationParameters;
+  material: MaterialProperties;
+  onChange: (property: keyof RecombinationParameters, value: number) => void;
+  onReplace: (params: RecombinationParameters) => void;
+}
+
+const fields: { key: keyof RecombinationParameters; label: string }[] = [
+  { key: 'tauN', label: 'SRH τn (s)' },
+  { key: 'tauP', label: 'SRH τp (s)' },
+  { key: 'radiative', label: 'Radiative B (cm³/s)' },
+  { key: 'augerN', label: 'Auger Cn (cm⁶/s)' },
+  { key: 'augerP', label: 'Auger Cp (cm⁶/s)' }
+];
+
+// Name of the built-in material whose tabulated values are in use, if any
+const sourceOf = (params: RecombinationParameters): string | undefined => {
+  const id = Object.keys(recombinationDefaults)
+    .find((key) => fields.every(({ key: field }) => recombinationDefaults[key][field] === params[field]));
+  return defaultMaterials.find((material) => material.id === id)?.name;
+};
+
+function RecombinationEditor({ params, material, onChange, onReplace }: RecombinationEditorProps) {
+  const materialDefaults: RecombinationParameters | undefined = recombinationDefaults[material.id];
+  const source = sourceOf(params);
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-sm">
+      {fields.map(({ key, label }) => (
+        <div key={key}>
+          <label className="block text-gray-600 mb-1">{label}</label>
+          <NumberInput
+            value={params[key]}
+            onChange={(value) => onChange(key, value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={0}
+          />
+        </div>
+      ))}
+      <div className="col-span-2 flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {source ? `${source} values` : 'Custom values'}
+          {!materialDefaults && ` · none tabulated for ${material.name}`}
+        </span>
+        {materialDefaults && source !== material.name && (
+          <button
+            onClick={() => onReplace(materialDefaults)}
+            className="px-2 py-1 bg-amber-100 hover:bg-amber-200 text-amber-700 rounded-lg font-medium transition-colors"
+          >
+            Use {material.name} values
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RecombinationEditor;
@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { Activity } from 'lucide-react';
+import LineChart, { ChartHighlight, ChartMarker, ChartSeries } from './charts/LineChart';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { logRange } from '../physics/sweep';
+import {
+  CarrierType,
+  dopingForResistivity,
+  MAX_LOOKUP_DOPING,
+  MIN_LOOKUP_DOPING,
+  resistivityForDoping
+} from '../physics/transport';
+import { formatDecade, formatScientific } from '../utils/format';
+
+interface ResistivityPanelProps {
+  material: MaterialProperties;
+  temperature: number;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+  resistivity: number; // Ω·cm of the current sample
+  onApplyDoping: (type: CarrierType, doping: number) => void;
+}
+
+const SERIES_COLORS: Record<CarrierType, string> = { n: '#2563eb', p: '#dc2626' };
+const MIN_EXPONENT = 12;
+const MAX_EXPONENT = 21;
+const POINTS_PER_DECADE = 20;
+
+function ResistivityPanel({
+  material,
+  temperature,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing,
+  resistivity,
+  onApplyDoping
+}: ResistivityPanelProps) {
+  const [targetResistivity, setTargetResistivity] = useState(1);
+  const [targetType, setTargetType] = useState<CarrierType>('n');
+
+  const conditions = useMemo(
+    () => ({ material, temperature, ...constants, ionization, statistics, narrowing }),
+    [material, temperature, constants, ionization, statistics, narrowing]
+  );
+
+  const dopings = useMemo(
+    () => logRange(Math.pow(10, MIN_EXPONENT), Math.pow(10, MAX_EXPONENT), (MAX_EXPONENT - MIN_EXPONENT) * POINTS_PER_DECADE + 1),
+    []
+  );
+
+  const curves = useMemo(() => ({
+    n: dopings.map((doping) => resistivityForDoping(conditions, 'n', doping)),
+    p: dopings.map((doping) => resistivityForDoping(conditions, 'p', doping))
+  }), [conditions, dopings]);
+
+  const lookup = useMemo(() => {
+    if (!(targetResistivity > 0)) return null;
+    return dopingForResistivity(conditions, targetType, targetResistivity);
+  }, [conditions, targetType, targetResistivity]);
+
+  const series: ChartSeries[] = [
+    { label: 'n-type (donors)', color: SERIES_COLORS.n, values: curves.n },
+    { label: 'p-type (acceptors)', color: SERIES_COLORS.p, values: curves.p }
+  ];
+
+  // The current sample is placed at its majority dopant density
+  const currentType: CarrierType = donorConc >= acceptorConc ? 'n' : 'p';
+  const currentDoping = Math.max(donorConc, acceptorConc);
+  const highlights: ChartHighlight[] = [
+    ...(currentDoping > 0 ? [{ x: currentDoping, y: resistivity, color: SERIES_COLORS[currentType] }] : []),
+    ...(lookup !== null ? [{ x: lookup, y: targetResistivity, color: '#ea580c' }] : [])
+  ];
+  const markers: ChartMarker[] = targetResistivity > 0
+    ? [{ axis: 'y', value: targetResistivity, label: `ρ = ${formatScientific(targetResistivity)} Ω·cm`, color: '#ea580c' }]
+    : [];
+
+  const renderTooltip = (index: number) => (
+    <>
+      <div className="font-semibold text-gray-800">N = {formatScientific(dopings[index])} cm⁻³</div>
+      <div style={{ color: SERIES_COLORS.n }}>ρn = {formatScientific(curves.n[index])} Ω·cm</div>
+      <div style={{ color: SERIES_COLORS.p }}>ρp = {formatScientific(curves.p[index])} Ω·cm</div>
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <Activity className="w-5 h-5 text-orange-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Resistivity vs Doping</h2>
+        <span className="px-2 py-1 bg-orange-100 text-orange-800 text-xs rounded-full">
+          {material.name} · T = {temperature} K
+        </span>
+      </div>
+
+      <div className="grid xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2">
+          <LineChart
+            x={dopings}
+            series={series}
+            xLabel="Dopant concentration (cm⁻³)"
+            yLabel="Resistivity (Ω·cm)"
+            formatX={formatDecade}
+            formatY={formatDecade}
+            xScale="log"
+            yScale="log"
+            markers={markers}
+            highlights={highlights}
+            renderTooltip={renderTooltip}
+          />
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <h3 className="font-medium text-gray-700">Doping for a target resistivity</h3>
+          <div>
+            <label className="block text-gray-600 mb-1">Resistivity (Ω·cm)</label>
+            <NumberInput
+              value={targetResistivity}
+              onChange={setTargetResistivity}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+              positive
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Dopant type</label>
+            <select
+              value={targetType}
+              onChange={(e) => setTargetType(e.target.value as CarrierType)}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="n">Donors (n-type)</option>
+              <option value="p">Acceptors (p-type)</option>
+            </select>
+          </div>
+          {lookup !== null ? (
+            <div className="bg-gradient-to-r from-orange-50 to-orange-100 p-4 rounded-lg">
+              <p className="font-bold text-orange-900">
+                {targetType === 'n' ? 'ND' : 'NA'} = {formatScientific(lookup)} cm⁻³
+              </p>
+              <button
+                onClick={() => onApplyDoping(targetType, lookup)}
+                className="mt-2 px-3 py-1 bg-orange-600 hover:bg-orange-700 text-white rounded-lg text-xs font-medium transition-colors"
+              >
+                Use this doping
+              </button>
+            </div>
+          ) : (
+            <p className="text-red-600 bg-red-50 p-3 rounded-lg">
+              No single-dopant concentration between {formatDecade(MIN_LOOKUP_DOPING)} and {formatDecade(MAX_LOOKUP_DOPING)} cm⁻³
+              gives this resistivity.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Irvin curves for uncompensated material, using the Arora mobility model and the current ionization and
+            statistics settings.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ResistivityPanel;
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Bookmark, Link2, Redo2, Trash2, Undo2 } from 'lucide-react';
+import { alloyDefinitions } from '../physics/alloy';
+import { SavedScenario, Scenario } from '../storage/scenario';
+import { defaultMaterialFor, isMaterialModified } from '../storage/materialLibrary';
+import { formatScientific } from '../utils/format';
+
+interface ScenarioPanelProps {
+  saved: SavedScenario[];
+  canUndo: boolean;
+  canRedo: boolean;
+  shareUrl: string;
+  error: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSave: (name: string) => void;
+  onLoad: (entry: SavedScenario) => void;
+  onDelete: (id: string) => void;
+}
+
+// Which parameter set the scenario was computed with
+const describeMaterial = (scenario: Scenario): string => {
+  if (scenario.material === null) {
+    const alloy = alloyDefinitions.find((definition) => definition.id === scenario.materialId);
+    return `${alloy?.name ?? scenario.materialId}, x = ${scenario.composition.toFixed(2)}`;
+  }
+  const { material } = scenario;
+  if (!defaultMaterialFor(material.id)) return `${material.name} (custom parameters)`;
+  return `${material.name} (${isMaterialModified(material) ? 'edited' : 'built-in'} parameters)`;
+};
+
+const describeConditions = ({ temperature, donorConc, acceptorConc }: Scenario): string => {
+  return `T = ${temperature} K · ND = ${formatScientific(donorConc)} · NA = ${formatScientific(acceptorConc)}`;
+};
+
+function ScenarioPanel({
+  saved,
+  canUndo,
+  canRedo,
+  shareUrl,
+  error,
+  onUndo,
+  onRedo,
+  onSave,
+  onLoad,
+  onDelete
+}: ScenarioPanelProps) {
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const save = () => {
+    onSave(name.trim() || `Scenario ${saved.length + 1}`);
+    setName('');
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Bookmark className="w-5 h-5 text-sky-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Scenarios</h2>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-40"
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 disabled:opacity-40"
+          >
+            <Redo2 className="w-3 h-3" />
+            Redo
+          </button>
+          <button
+            onClick={copyLink}
+            className="px-3 py-1 bg-sky-100 hover:bg-sky-200 text-sky-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+          >
+            <Link2 className="w-3 h-3" />
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-700 bg-red-50 p-3 rounded-lg mb-3">{error}</p>}
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Name this scenario"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          onClick={save}
+          className="px-4 py-2 bg-sky-600 hover:bg-sky-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          Save
+        </button>
+      </div>
+
+      {saved.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved scenarios yet. The page URL always holds the current inputs, so it can be shared as is.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {saved.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 p-3 bg-sky-50 rounded-lg text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-sky-900 truncate">{entry.name}</p>
+                <p className="text-xs text-gray-600">{describeMaterial(entry.scenario)}</p>
+                <p className="text-xs text-gray-500">
+                  {describeConditions(entry.scenario)} · {new Date(entry.savedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => onLoad(entry)}
+                  className="px-3 py-1 bg-white hover:bg-sky-100 text-sky-700 rounded-lg text-xs font-medium transition-colors"
+                >
+                  Load
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+                  title="Delete scenario"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ScenarioPanel;
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import LineChart, { ChartSeries } from './charts/LineChart';
+import { ScaleType } from './charts/scales';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, ConcentrationResult, IonizationModel } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import { activationEnergy, linearRange, sweepTemperature } from '../physics/sweep';
+import { formatDecade, formatEnergy, formatLog10, formatScientific } from '../utils/format';
+
+interface TemperatureSweepPanelProps {
+  material: MaterialProperties;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+  temperature: number;
+  results: ConcentrationResult;
+}
+
+type SweepView = 'temperature' | 'arrhenius';
+
+const SERIES_COLORS = { ni: '#2563eb', n: '#16a34a', p: '#9333ea', fermi: '#ea580c' };
+const POINT_OPTIONS = [50, 100, 200, 400];
+
+function TemperatureSweepPanel({
+  material,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing,
+  temperature,
+  results
+}: TemperatureSweepPanelProps) {
+  const [minTemperature, setMinTemperature] = useState(20);
+  const [maxTemperature, setMaxTemperature] = useState(800);
+  const [points, setPoints] = useState(200);
+  const [view, setView] = useState<SweepView>('temperature');
+  const [temperatureScale, setTemperatureScale] = useState<ScaleType>('linear');
+
+  const rangeValid = minTemperature > 0 && maxTemperature > minTemperature;
+
+  const sweep = useMemo(() => {
+    if (!rangeValid) return [];
+    return sweepTemperature(
+      { material, donorConc, acceptorConc, ...constants, ionization, statistics, narrowing },
+      linearRange(minTemperature, maxTemperature, points)
+    );
+  }, [material, donorConc, acceptorConc, constants, ionization, statistics, narrowing, minTemperature, maxTemperature, points, rangeValid]);
+
+  const temperatures = sweep.map((point) => point.temperature);
+  const isArrhenius = view === 'arrhenius';
+  const xValues = isArrhenius ? temperatures.map((T) => 1000 / T) : temperatures;
+  const currentX = isArrhenius ? 1000 / temperature : temperature;
+
+  const concentrationSeries: ChartSeries[] = [
+    { label: 'ni', color: SERIES_COLORS.ni, values: sweep.map((point) => point.result.ni), dashed: true },
+    { label: 'n', color: SERIES_COLORS.n, values: sweep.map((point) => point.result.n) },
+    { label: 'p', color: SERIES_COLORS.p, values: sweep.map((point) => point.result.p) }
+  ];
+  const fermiSeries: ChartSeries[] = [
+    { label: 'EF - Ei', color: SERIES_COLORS.fermi, values: sweep.map((point) => point.result.fermiLevel) }
+  ];
+
+  const xLabel = isArrhenius ? '1000 / T (K⁻¹)' : 'Temperature (K)';
+  const formatX = (value: number) => isArrhenius ? value.toFixed(1) : `${Math.round(value)}`;
+  const currentMarker = { axis: 'x' as const, value: currentX, label: `T = ${temperature} K`, color: '#dc2626' };
+
+  const renderTooltip = (index: number) => {
+    const { temperature: T, result } = sweep[index];
+    return (
+      <>
+        <div className="font-semibold text-gray-800">
+          T = {T.toFixed(1)} K{isArrhenius && ` (1000/T = ${(1000 / T).toFixed(2)})`}
+        </div>
+        <div style={{ color: SERIES_COLORS.ni }}>ni = {formatLog10(result.log10Ni)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.n }}>n = {formatLog10(result.log10N)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.p }}>p = {formatLog10(result.log10P)} cm⁻³</div>
+        <div style={{ color: SERIES_COLORS.fermi }}>EF - Ei = {formatEnergy(result.fermiLevel)}</div>
+        {isArrhenius && (
+          <div className="border-t border-gray-200 mt-1 pt-1 text-gray-600">
+            <div>Ea(ni) = {formatEnergy(activationEnergy(temperatures, concentrationSeries[0].values, index, constants.kB))}</div>
+            <div>Ea(n) = {formatEnergy(activationEnergy(temperatures, concentrationSeries[1].values, index, constants.kB))}</div>
+            <div>Ea(p) = {formatEnergy(activationEnergy(temperatures, concentrationSeries[2].values, index, constants.kB))}</div>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <LineChartIcon className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Temperature Sweep</h2>
+          <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full">
+            {material.name} · ND = {formatScientific(donorConc)} · NA = {formatScientific(acceptorConc)}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {(['temperature', 'arrhenius'] as SweepView[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                view === option ? 'bg-indigo-600 text-white' : 'bg-indigo-100 hover:bg-indigo-200 text-indigo-700'
+              }`}
+            >
+              {option === 'temperature' ? 'vs T' : 'Arrhenius'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+        <div>
+          <label className="block text-gray-600 mb-1">T min (K)</label>
+          <NumberInput
+            value={minTemperature}
+            onChange={setMinTemperature}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={1}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">T max (K)</label>
+          <NumberInput
+            value={maxTemperature}
+            onChange={setMaxTemperature}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            min={1}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">Points</label>
+          <select
+            value={points}
+            onChange={(e) => setPoints(Number(e.target.value))}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            {POINT_OPTIONS.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-600 mb-1">T axis</label>
+          <select
+            value={temperatureScale}
+            onChange={(e) => setTemperatureScale(e.target.value as ScaleType)}
+            disabled={isArrhenius}
+            className="w-full px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100 disabled:text-gray-400"
+          >
+            <option value="linear">Linear</option>
+            <option value="log">Log</option>
+          </select>
+        </div>
+      </div>
+
+      {!rangeValid ? (
+        <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          Enter a temperature range with 0 &lt; T min &lt; T max.
+        </p>
+      ) : (
+        <div className="grid xl:grid-cols-2 gap-6">
+          <LineChart
+            x={xValues}
+            series={concentrationSeries}
+            xLabel={xLabel}
+            yLabel="Concentration (cm⁻³)"
+            formatX={formatX}
+            formatY={formatDecade}
+            xScale={isArrhenius ? 'linear' : temperatureScale}
+            yScale="log"
+            markers={[currentMarker]}
+            highlights={[
+              { x: currentX, y: results.n, color: SERIES_COLORS.n },
+              { x: currentX, y: results.p, color: SERIES_COLORS.p }
+            ]}
+            renderTooltip={renderTooltip}
+          />
+          <LineChart
+            x={xValues}
+            series={fermiSeries}
+            xLabel={xLabel}
+            yLabel="EF - Ei (eV)"
+            formatX={formatX}
+            formatY={(value) => value.toFixed(2)}
+            xScale={isArrhenius ? 'linear' : temperatureScale}
+            markers={[currentMarker, { axis: 'y', value: 0, label: 'Ei', color: '#6b7280' }]}
+            highlights={[{ x: currentX, y: results.fermiLevel, color: SERIES_COLORS.fermi }]}
+            renderTooltip={renderTooltip}
+          />
+        </div>
+      )}
+
+      {isArrhenius && rangeValid && (
+        <p className="text-xs text-gray-500 mt-3">
+          The local activation energy Ea = −kB · d(ln n)/d(1/T) is read from the slope under the cursor.
+          In the freeze-out regime of uncompensated material Ea(n) ≈ (Ec − Ed)/2; in the intrinsic regime Ea(ni) ≈ Eg/2.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default TemperatureSweepPanel;
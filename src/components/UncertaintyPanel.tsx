@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react';
+import { Dices, Play } from 'lucide-react';
+import TornadoChart from './charts/TornadoChart';
+import NumberInput from './NumberInput';
+import { PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, ConcentrationInput, IonizationModel } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel } from '../physics/narrowing';
+import {
+  analyzeUncertainty,
+  deviationOf,
+  rankSensitivity,
+  relevantParameters,
+  Tolerances,
+  UncertaintyAnalysis,
+  UncertainOutput,
+  uncertainOutputs,
+  UncertainParameter,
+  uncertainParameters
+} from '../physics/uncertainty';
+import { formatEnergy, formatLog10 } from '../utils/format';
+
+interface UncertaintyPanelProps {
+  material: MaterialProperties;
+  temperature: number;
+  donorConc: number;
+  acceptorConc: number;
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+}
+
+// Tolerances as entered: meV for the absolute energy parameters, % otherwise
+const DEFAULT_TOLERANCES: Record<UncertainParameter, number> = {
+  bandgap: 10,
+  temperatureCoeff: 5,
+  Eg0: 10,
+  varshniAlpha: 5,
+  varshniBeta: 10,
+  boseEinsteinAB: 5,
+  boseEinsteinTheta: 10,
+  Nc300: 10,
+  Nv300: 10,
+  electronDosMass: 5,
+  holeDosMass: 5,
+  donorIonizationEnergy: 5,
+  acceptorIonizationEnergy: 5,
+  donorDegeneracy: 0,
+  acceptorDegeneracy: 0,
+  donorConc: 10,
+  acceptorConc: 10
+};
+
+const SAMPLE_COUNTS = [500, 1000, 2000, 5000];
+const CONFIDENCE = 0.95;
+
+// The settings a Monte Carlo run used, kept to tell when the shown results are out of date
+interface UncertaintyRun {
+  input: ConcentrationInput;
+  tolerances: Tolerances;
+  samples: number;
+  analysis: UncertaintyAnalysis;
+}
+
+const formatOutput = (output: UncertainOutput, value: number) =>
+  output === 'fermiLevel' ? formatEnergy(value) : formatLog10(value);
+
+function UncertaintyPanel({
+  material,
+  temperature,
+  donorConc,
+  acceptorConc,
+  constants,
+  ionization,
+  statistics,
+  narrowing
+}: UncertaintyPanelProps) {
+  const [tolerances, setTolerances] = useState(DEFAULT_TOLERANCES);
+  const [samples, setSamples] = useState(1000);
+  const [tornadoOutput, setTornadoOutput] = useState<UncertainOutput>('ni');
+  const [run, setRun] = useState<UncertaintyRun | null>(null);
+
+  const input = useMemo(
+    () => ({ material, temperature, donorConc, acceptorConc, ...constants, ionization, statistics, narrowing }),
+    [material, temperature, donorConc, acceptorConc, constants, ionization, statistics, narrowing]
+  );
+
+  const parameters = useMemo(() => relevantParameters(input), [input]);
+
+  // Converted to the engine's units: eV and fractions
+  const physicalTolerances = useMemo(() => Object.fromEntries(
+    parameters.map((parameter) => [
+      parameter,
+      tolerances[parameter] / (uncertainParameters[parameter].absolute ? 1000 : 100)
+    ])
+  ) as Tolerances, [parameters, tolerances]);
+
+  // Thousands of engine solves are too slow to repeat on every keystroke, so they wait for Run
+  const runAnalysis = () => setRun({
+    input,
+    tolerances: physicalTolerances,
+    samples,
+    analysis: analyzeUncertainty(input, physicalTolerances, { samples, confidence: CONFIDENCE })
+  });
+  const stale = run !== null
+    && (run.input !== input || run.tolerances !== physicalTolerances || run.samples !== samples);
+
+  const analysis = run?.analysis;
+  const nominal = analysis?.outputs[tornadoOutput].nominal ?? 0;
+  const isEnergy = tornadoOutput === 'fermiLevel';
+  const bars = (analysis ? rankSensitivity(analysis.sensitivity, tornadoOutput) : []).map((entry) => ({
+    label: uncertainParameters[entry.parameter].label,
+    low: deviationOf(tornadoOutput, entry.low[tornadoOutput], nominal) * (isEnergy ? 1000 : 100),
+    high: deviationOf(tornadoOutput, entry.high[tornadoOutput], nominal) * (isEnergy ? 1000 : 100)
+  }));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center gap-3 mb-4">
+        <Dices className="w-5 h-5 text-fuchsia-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Uncertainty & Sensitivity</h2>
+        <span className="px-2 py-1 bg-fuchsia-100 text-fuchsia-800 text-xs rounded-full">
+          Monte Carlo{analysis && ` · ${analysis.samples} samples`}
+        </span>
+      </div>
+
+      <div className="grid xl:grid-cols-3 gap-6">
+        <div className="space-y-3 text-sm">
+          <h3 className="font-medium text-gray-700">Input tolerances (1σ)</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {parameters.map((parameter) => (
+              <div key={parameter}>
+                <label className="block text-gray-600 mb-1">
+                  {uncertainParameters[parameter].label} ({uncertainParameters[parameter].absolute ? 'meV' : '%'})
+                </label>
+                <NumberInput
+                  value={tolerances[parameter]}
+                  onChange={(value) => setTolerances({ ...tolerances, [parameter]: value })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded"
+                  min={0}
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">Samples</label>
+            <select
+              value={samples}
+              onChange={(e) => setSamples(Number(e.target.value))}
+              className="w-full px-2 py-1 border border-gray-300 rounded"
+            >
+              {SAMPLE_COUNTS.map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={runAnalysis}
+            className="w-full px-3 py-2 bg-fuchsia-600 hover:bg-fuchsia-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            <Play className="w-4 h-4" />
+            Run
+          </button>
+          <p className="text-xs text-gray-500">
+            Inputs are drawn independently from normal distributions and never change sign. Only the parameters read by
+            the current bandgap, density-of-states and ionization models are listed.
+          </p>
+        </div>
+
+        {analysis ? (
+          <div className="xl:col-span-2 space-y-4">
+            {stale && (
+              <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded-lg">
+                The inputs have changed since this run. Press Run to update the results.
+              </p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Output</th>
+                  <th className="py-2 pr-3 font-medium">Nominal</th>
+                  <th className="py-2 pr-3 font-medium">Median</th>
+                  <th className="py-2 pr-3 font-medium">{CONFIDENCE * 100}% interval</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(uncertainOutputs) as UncertainOutput[]).map((output) => {
+                  const { nominal: value, median, lower, upper } = analysis.outputs[output];
+                  const unit = output === 'fermiLevel' ? '' : ` ${uncertainOutputs[output].unit}`;
+                  return (
+                    <tr key={output} className="border-b border-gray-100 text-gray-800">
+                      <td className="py-1 pr-3 font-medium">{uncertainOutputs[output].label}</td>
+                      <td className="py-1 pr-3">{formatOutput(output, value)}{unit}</td>
+                      <td className="py-1 pr-3">{formatOutput(output, median)}{unit}</td>
+                      <td className="py-1 pr-3">
+                        {formatOutput(output, lower)} … {formatOutput(output, upper)}{unit}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {analysis.rejected > 0 && (
+              <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded-lg">
+                {analysis.rejected} samples gave non-finite results and were left out.
+              </p>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium text-gray-700 text-sm">Sensitivity ranking</h3>
+                <select
+                  value={tornadoOutput}
+                  onChange={(e) => setTornadoOutput(e.target.value as UncertainOutput)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {(Object.keys(uncertainOutputs) as UncertainOutput[]).map((output) => (
+                    <option key={output} value={output}>{uncertainOutputs[output].label}</option>
+                  ))}
+                </select>
+              </div>
+              {bars.length > 0 ? (
+                <TornadoChart
+                  bars={bars}
+                  xLabel={isEnergy
+                    ? 'Shift of EF − Ei (meV)'
+                    : `Change in ${uncertainOutputs[tornadoOutput].label} (%)`}
+                  formatX={(value) => `${value > 0 ? '+' : ''}${Number(value.toPrecision(3))}`}
+                  lowLabel="Input at −1σ"
+                  highLabel="Input at +1σ"
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Give at least one input a tolerance to rank its influence.</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="xl:col-span-2 text-sm text-gray-500">
+            Press Run to draw {samples} samples for the current inputs and tolerances.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default UncertaintyPanel;
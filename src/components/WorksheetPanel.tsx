@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { Download, ScrollText } from 'lucide-react';
+import { ConcentrationInput } from '../physics/engine';
+import { buildWorksheet, worksheetBranches } from '../physics/worksheet';
+import { worksheetToLatex, worksheetToMarkdown } from '../storage/worksheet';
+import { downloadFile } from '../utils/download';
+
+interface WorksheetPanelProps {
+  input: ConcentrationInput;
+}
+
+function WorksheetPanel({ input }: WorksheetPanelProps) {
+  const worksheet = useMemo(() => buildWorksheet(input), [input]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <ScrollText className="w-5 h-5 text-slate-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Derivation Worksheet</h2>
+          <span className="px-2 py-1 bg-slate-100 text-slate-800 text-xs rounded-full">
+            {worksheetBranches[worksheet.branch].text}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile('worksheet.tex', worksheetToLatex(worksheet), 'application/x-tex')}
+            className="px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+          >
+            <Download className="w-3 h-3" />
+            LaTeX
+          </button>
+          <button
+            onClick={() => downloadFile('worksheet.md', worksheetToMarkdown(worksheet), 'text/markdown')}
+            className="px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+          >
+            <Download className="w-3 h-3" />
+            Markdown
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Every formula the calculation applied for the current inputs, with the numbers substituted, rounded to four
+        significant figures.
+      </p>
+
+      <ol className="grid lg:grid-cols-2 gap-4">
+        {worksheet.steps.map(({ title, note, equations }, i) => (
+          <li key={title} className="bg-gray-50 p-3 rounded-lg text-sm">
+            <h3 className="font-medium text-gray-800 mb-1">{i + 1}. {title}</h3>
+            {note && <p className="text-xs text-gray-600 mb-2">{note.text}</p>}
+            <div className="space-y-1 font-mono text-xs text-gray-800 break-words">
+              {equations.map(({ text }) => (
+                <p key={text}>{text}</p>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default WorksheetPanel;
@@ -0,0 +1,251 @@
+import { MouseEvent, ReactNode, useId, useMemo, useState } from 'react';
+import { createScale, domainOf, ScaleType, ticksFor } from './scales';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+  dashed?: boolean;
+}
+
+export interface ChartMarker {
+  axis: 'x' | 'y';
+  value: number;
+  label: string;
+  color: string;
+}
+
+export interface ChartHighlight {
+  x: number;
+  y: number;
+  color: string;
+}
+
+interface LineChartProps {
+  x: number[];
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  formatX: (value: number) => string;
+  formatY: (value: number) => string;
+  xScale?: ScaleType;
+  yScale?: ScaleType;
+  markers?: ChartMarker[];
+  highlights?: ChartHighlight[];
+  renderTooltip?: (index: number) => ReactNode;
+  height?: number;
+}
+
+const WIDTH = 640;
+const MARGIN = { top: 16, right: 20, bottom: 44, left: 76 };
+
+function LineChart({
+  x,
+  series,
+  xLabel,
+  yLabel,
+  formatX,
+  formatY,
+  xScale = 'linear',
+  yScale = 'linear',
+  markers = [],
+  highlights = [],
+  renderTooltip,
+  height = 300
+}: LineChartProps) {
+  const clipId = useId();
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const plot = { left: MARGIN.left, right: WIDTH - MARGIN.right, top: MARGIN.top, bottom: height - MARGIN.bottom };
+
+  const { xDomain, yDomain } = useMemo(() => ({
+    xDomain: domainOf(x, xScale),
+    yDomain: domainOf([
+      ...series.flatMap((s) => s.values),
+      ...markers.filter((m) => m.axis === 'y').map((m) => m.value),
+      ...highlights.map((h) => h.y)
+    ], yScale)
+  }), [x, series, markers, highlights, xScale, yScale]);
+
+  const toX = createScale(xScale, xDomain, [plot.left, plot.right]);
+  const toY = createScale(yScale, yDomain, [plot.bottom, plot.top]);
+
+  const isPlottable = (value: number, type: ScaleType) => Number.isFinite(value) && (type === 'linear' || value > 0);
+
+  const pathFor = (values: number[]): string => {
+    let path = '';
+    let penDown = false;
+    values.forEach((value, i) => {
+      if (!isPlottable(value, yScale) || !isPlottable(x[i], xScale)) {
+        penDown = false;
+        return;
+      }
+      path += `${penDown ? 'L' : 'M'}${toX(x[i]).toFixed(2)},${toY(value).toFixed(2)}`;
+      penDown = true;
+    });
+    return path;
+  };
+
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = (e.clientX - rect.left) / rect.width * WIDTH;
+    let nearest: number | null = null;
+    let nearestDistance = Infinity;
+    x.forEach((value, i) => {
+      if (!isPlottable(value, xScale)) return;
+      const distance = Math.abs(toX(value) - px);
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    setHoverIndex(nearest);
+  };
+
+  const hoverX = hoverIndex !== null ? toX(x[hoverIndex]) : null;
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={plot.left} y={plot.top} width={plot.right - plot.left} height={plot.bottom - plot.top} />
+          </clipPath>
+        </defs>
+
+        {/* Grid and axes */}
+        {ticksFor(xScale, xDomain).map((tick) => (
+          <g key={`x-${tick}`}>
+            <line x1={toX(tick)} x2={toX(tick)} y1={plot.top} y2={plot.bottom} stroke="#e5e7eb" />
+            <text x={toX(tick)} y={plot.bottom + 16} textAnchor="middle" className="fill-gray-500 text-[11px]">
+              {formatX(tick)}
+            </text>
+          </g>
+        ))}
+        {ticksFor(yScale, yDomain).map((tick) => (
+          <g key={`y-${tick}`}>
+            <line x1={plot.left} x2={plot.right} y1={toY(tick)} y2={toY(tick)} stroke="#e5e7eb" />
+            <text x={plot.left - 6} y={toY(tick) + 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+        <rect
+          x={plot.left}
+          y={plot.top}
+          width={plot.right - plot.left}
+          height={plot.bottom - plot.top}
+          fill="none"
+          stroke="#9ca3af"
+        />
+        <text x={(plot.left + plot.right) / 2} y={height - 8} textAnchor="middle" className="fill-gray-700 text-[12px]">
+          {xLabel}
+        </text>
+        <text
+          transform={`translate(14 ${(plot.top + plot.bottom) / 2}) rotate(-90)`}
+          textAnchor="middle"
+          className="fill-gray-700 text-[12px]"
+        >
+          {yLabel}
+        </text>
+
+        <g clipPath={`url(#${clipId})`}>
+          {/* Reference markers */}
+          {markers.map((marker, i) => marker.axis === 'x' ? (
+            <g key={`mx-${i}`}>
+              <line
+                x1={toX(marker.value)}
+                x2={toX(marker.value)}
+                y1={plot.top}
+                y2={plot.bottom}
+                stroke={marker.color}
+                strokeDasharray="4 3"
+              />
+              <text x={toX(marker.value) + 4} y={plot.top + 12 + (i % 3) * 13} className="text-[11px]" fill={marker.color}>
+                {marker.label}
+              </text>
+            </g>
+          ) : (
+            <g key={`my-${i}`}>
+              <line
+                x1={plot.left}
+                x2={plot.right}
+                y1={toY(marker.value)}
+                y2={toY(marker.value)}
+                stroke={marker.color}
+                strokeDasharray="4 3"
+              />
+              <text x={plot.right - 4} y={toY(marker.value) - 4} textAnchor="end" className="text-[11px]" fill={marker.color}>
+                {marker.label}
+              </text>
+            </g>
+          ))}
+
+          {/* Data */}
+          {series.map((s) => (
+            <path
+              key={s.label}
+              d={pathFor(s.values)}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeDasharray={s.dashed ? '6 4' : undefined}
+            />
+          ))}
+
+          {highlights.filter((h) => isPlottable(h.x, xScale) && isPlottable(h.y, yScale)).map((h, i) => (
+            <circle key={`h-${i}`} cx={toX(h.x)} cy={toY(h.y)} r={5} fill="white" stroke={h.color} strokeWidth={2.5} />
+          ))}
+
+          {/* Hover cursor */}
+          {hoverIndex !== null && hoverX !== null && (
+            <g>
+              <line x1={hoverX} x2={hoverX} y1={plot.top} y2={plot.bottom} stroke="#374151" strokeWidth={1} />
+              {series.filter((s) => isPlottable(s.values[hoverIndex], yScale)).map((s) => (
+                <circle key={s.label} cx={hoverX} cy={toY(s.values[hoverIndex])} r={3.5} fill={s.color} />
+              ))}
+            </g>
+          )}
+        </g>
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 justify-center text-xs text-gray-600 mt-1">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span
+              className="inline-block w-4 h-0.5"
+              style={{ background: s.dashed ? `repeating-linear-gradient(90deg, ${s.color} 0 4px, transparent 4px 7px)` : s.color }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+
+      {hoverIndex !== null && hoverX !== null && (
+        <div
+          className="absolute top-2 pointer-events-none bg-white/95 border border-gray-200 shadow-md rounded-lg px-3 py-2 text-xs text-gray-700 font-mono"
+          style={hoverX > WIDTH / 2
+            ? { right: `${(1 - hoverX / WIDTH) * 100 + 1}%` }
+            : { left: `${hoverX / WIDTH * 100 + 1}%` }}
+        >
+          {renderTooltip ? renderTooltip(hoverIndex) : (
+            <>
+              <div className="font-semibold text-gray-800">{xLabel}: {formatX(x[hoverIndex])}</div>
+              {series.map((s) => (
+                <div key={s.label} style={{ color: s.color }}>{s.label}: {formatY(s.values[hoverIndex])}</div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LineChart;
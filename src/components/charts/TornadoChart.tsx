@@ -0,0 +1,97 @@
+import { createScale, domainOf, ticksFor } from './scales';
+
+export interface TornadoBar {
+  label: string;
+  low: number; // deviation with the input at its low setting
+  high: number; // deviation with the input at its high setting
+}
+
+interface TornadoChartProps {
+  bars: TornadoBar[]; // drawn top to bottom in the given order
+  xLabel: string;
+  formatX: (value: number) => string;
+  lowLabel: string;
+  highLabel: string;
+}
+
+const WIDTH = 640;
+const MARGIN = { top: 12, right: 20, bottom: 44, left: 96 };
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 18;
+const LOW_COLOR = '#2563eb';
+const HIGH_COLOR = '#dc2626';
+
+function TornadoChart({ bars, xLabel, formatX, lowLabel, highLabel }: TornadoChartProps) {
+  const height = MARGIN.top + MARGIN.bottom + Math.max(bars.length, 1) * ROW_HEIGHT;
+  const plot = { left: MARGIN.left, right: WIDTH - MARGIN.right, top: MARGIN.top, bottom: height - MARGIN.bottom };
+
+  // The zero line is always inside the domain so every bar grows from it
+  const xDomain = domainOf([0, ...bars.flatMap((bar) => [bar.low, bar.high])], 'linear');
+  const toX = createScale('linear', xDomain, [plot.left, plot.right]);
+  const zero = toX(0);
+
+  const barFor = (value: number, y: number, color: string) => (
+    <rect
+      x={Math.min(zero, toX(value))}
+      y={y}
+      width={Math.abs(toX(value) - zero)}
+      height={BAR_HEIGHT}
+      fill={color}
+      fillOpacity={0.75}
+    >
+      <title>{formatX(value)}</title>
+    </rect>
+  );
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto select-none">
+        {ticksFor('linear', xDomain).map((tick) => (
+          <g key={tick}>
+            <line x1={toX(tick)} x2={toX(tick)} y1={plot.top} y2={plot.bottom} stroke="#e5e7eb" />
+            <text x={toX(tick)} y={plot.bottom + 16} textAnchor="middle" className="fill-gray-500 text-[11px]">
+              {formatX(tick)}
+            </text>
+          </g>
+        ))}
+        <rect
+          x={plot.left}
+          y={plot.top}
+          width={plot.right - plot.left}
+          height={plot.bottom - plot.top}
+          fill="none"
+          stroke="#9ca3af"
+        />
+
+        {bars.map((bar, i) => {
+          const y = plot.top + i * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+          return (
+            <g key={bar.label}>
+              <text x={plot.left - 6} y={y + BAR_HEIGHT / 2 + 4} textAnchor="end" className="fill-gray-700 text-[11px]">
+                {bar.label}
+              </text>
+              {barFor(bar.low, y, LOW_COLOR)}
+              {barFor(bar.high, y, HIGH_COLOR)}
+            </g>
+          );
+        })}
+
+        <line x1={zero} x2={zero} y1={plot.top} y2={plot.bottom} stroke="#374151" />
+        <text x={(plot.left + plot.right) / 2} y={height - 8} textAnchor="middle" className="fill-gray-700 text-[12px]">
+          {xLabel}
+        </text>
+      </svg>
+
+      <div className="flex flex-wrap gap-4 justify-center text-xs text-gray-600 mt-1">
+        {[{ label: lowLabel, color: LOW_COLOR }, { label: highLabel, color: HIGH_COLOR }].map(({ label, color }) => (
+          <span key={label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ background: color, opacity: 0.75 }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TornadoChart;
@@ -0,0 +1,68 @@
+export type ScaleType = 'linear' | 'log';
+
+// Log axes are limited to this many decades so that vanishing minority
+// carrier densities at low temperature do not flatten the rest of the plot.
+const MAX_DECADES = 30;
+const TARGET_TICKS = 6;
+
+const niceStep = (span: number): number => {
+  const raw = span / TARGET_TICKS;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10;
+  return nice * magnitude;
+};
+
+export const domainOf = (values: number[], type: ScaleType): [number, number] => {
+  const finite = values.filter((value) => Number.isFinite(value) && (type === 'linear' || value > 0));
+  if (finite.length === 0) return type === 'log' ? [1, 10] : [0, 1];
+
+  let min = Math.min(...finite);
+  let max = Math.max(...finite);
+
+  if (type === 'log') {
+    const top = Math.ceil(Math.log10(max));
+    const bottom = Math.max(Math.floor(Math.log10(min)), top - MAX_DECADES);
+    return [Math.pow(10, bottom), Math.pow(10, top === bottom ? top + 1 : top)];
+  }
+
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1;
+    min -= pad;
+    max += pad;
+  }
+  const step = niceStep(max - min);
+  return [Math.floor(min / step) * step, Math.ceil(max / step) * step];
+};
+
+export const createScale = (
+  type: ScaleType,
+  [d0, d1]: [number, number],
+  [r0, r1]: [number, number]
+): ((value: number) => number) => {
+  const transform = type === 'log' ? Math.log10 : (value: number) => value;
+  const t0 = transform(d0);
+  const t1 = transform(d1);
+  return (value: number) => r0 + (transform(value) - t0) / (t1 - t0) * (r1 - r0);
+};
+
+export const ticksFor = (type: ScaleType, [d0, d1]: [number, number]): number[] => {
+  if (type === 'log') {
+    const bottom = Math.round(Math.log10(d0));
+    const top = Math.round(Math.log10(d1));
+    const stride = Math.max(1, Math.ceil((top - bottom) / TARGET_TICKS));
+    const ticks: number[] = [];
+    for (let exponent = bottom; exponent <= top; exponent += stride) {
+      ticks.push(Math.pow(10, exponent));
+    }
+    return ticks;
+  }
+
+  const step = niceStep(d1 - d0);
+  const ticks: number[] = [];
+  for (let value = Math.ceil(d0 / step) * step; value <= d1 + step * 1e-9; value += step) {
+    // Snap away floating-point residue such as 0.30000000000000004
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+};
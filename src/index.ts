@@ -0,0 +1,26 @@
+// Library entry point: the calculations behind the web app, without React
+export * from './physics/alloy';
+export * from './physics/bandgap';
+export * from './physics/constants';
+export * from './physics/diagnostics';
+export * from './physics/engine';
+export * from './physics/fermiDirac';
+export * from './physics/hall';
+export * from './physics/inverse';
+export * from './physics/junction';
+export * from './physics/materials';
+export * from './physics/narrowing';
+export * from './physics/recombination';
+export * from './physics/sweep';
+export * from './physics/transport';
+export * from './physics/uncertainty';
+export * from './physics/worksheet';
+export { batchToCsv, batchToJson, findMaterial, parseBatchCsv, runBatch } from './storage/batch';
+export type { BatchConditions, BatchInput, BatchIssue, BatchResult, BatchRow } from './storage/batch';
+export { parseHallCsv } from './storage/hallData';
+export type { HallDataDefaults, HallDataInput, HallDataRow } from './storage/hallData';
+export { MATERIAL_LIBRARY_VERSION, MaterialLibraryError, parseLibrary, serializeLibrary } from './storage/materialLibrary';
+export type { MaterialLibraryFile } from './storage/materialLibrary';
+export { worksheetToLatex, worksheetToMarkdown } from './storage/worksheet';
+export { CliUsageError, runCli, USAGE } from './cli/semicalc';
+export type { CliOutput } from './cli/semicalc';
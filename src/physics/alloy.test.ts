@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ALLOY_ID_PREFIX,
+  alloyAt,
+  alloyBands,
+  alloyDefinitions,
+  aluminiumArsenide,
+  defineAlloy,
+  findCrossover,
+  indiumArsenide,
+  libraryAlloys,
+  materialById
+} from './alloy';
+import { bandgapAt } from './bandgap';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations, ConcentrationInput } from './engine';
+import { defaultMaterials, MaterialProperties } from './materials';
+
+const [algaas, ingaas] = alloyDefinitions;
+const libraryMaterial = (id: string): MaterialProperties => {
+  const material = materialById(defaultMaterials, id);
+  if (!material) throw new Error(`No ${id} in the default library`);
+  return material;
+};
+const gaas = libraryMaterial('gaas');
+const silicon = libraryMaterial('silicon');
+const germanium = libraryMaterial('germanium');
+
+const conditions = (material: MaterialProperties): ConcentrationInput => ({
+  material,
+  temperature: 250,
+  donorConc: 1e16,
+  acceptorConc: 1e14,
+  kB: DEFAULT_KB,
+  ionization: 'incomplete'
+});
+
+describe('defineAlloy', () => {
+  it('builds namespaced alloys from library end points', () => {
+    expect(algaas).toMatchObject({ id: `${ALLOY_ID_PREFIX}gaas-alas`, atZero: gaas, atOne: aluminiumArsenide });
+    expect(alloyDefinitions.every(({ id }) => !defaultMaterials.some((material) => material.id === id))).toBe(true);
+  });
+
+  it('picks up edited end points from the library', () => {
+    const edited = { ...gaas, relativePermittivity: 13 };
+    const [alloy] = libraryAlloys([silicon, edited]);
+    expect(alloy.atZero).toBe(edited);
+    expect(libraryAlloys([silicon])).toEqual([]);
+  });
+
+  it('bows the end points\' own gaps when no valleys are given', () => {
+    const sige = defineAlloy(silicon, germanium, 0.2);
+    const bands = alloyBands(sige, 0.5, 300);
+    expect(bands).toMatchObject({ valleys: [], lowest: null, direct: null });
+    expect(bands.gap).toBeCloseTo(0.5 * bandgapAt(silicon, 300) + 0.5 * bandgapAt(germanium, 300) - 0.25 * 0.2, 12);
+    expect(findCrossover(sige, 300)).toBeNull();
+
+    const material = alloyAt(sige, 0.5);
+    expect(material.bandgapModel).toBe('varshni');
+    expect(material.densityOfStatesModel).toBe('fixed');
+    expect(bandgapAt(material, 300)).toBeCloseTo(bands.gap, 12);
+  });
+});
+
+describe('alloyBands', () => {
+  it('reproduces the binary gaps at the end points', () => {
+    expect(alloyBands(algaas, 0, 300).valleys[0].gap).toBeCloseTo(bandgapAt(gaas, 300), 2);
+    expect(Math.min(...alloyBands(algaas, 1, 300).valleys.map((v) => v.gap))).toBeCloseTo(aluminiumArsenide.bandgap, 2);
+    expect(alloyBands(ingaas, 1, 300).valleys[0].gap).toBeCloseTo(indiumArsenide.bandgap, 2);
+  });
+
+  it('switches AlGaAs from direct to indirect near x = 0.45', () => {
+    expect(alloyBands(algaas, 0.3, 300).direct).toBe(true);
+    expect(alloyBands(algaas, 0.6, 300)).toMatchObject({ direct: false, lowest: 'X' });
+    const crossover = findCrossover(algaas, 300)!;
+    expect(crossover).toBeGreaterThan(0.4);
+    expect(crossover).toBeLessThan(0.47);
+  });
+
+  it('keeps InGaAs direct with the lattice-matched gap near 0.74 eV', () => {
+    expect(findCrossover(ingaas, 300)).toBeNull();
+    expect(alloyBands(ingaas, 0.53, 300).valleys[0].gap).toBeCloseTo(0.74, 2);
+  });
+});
+
+describe('alloyAt', () => {
+  it('interpolates linearly apart from the bandgap', () => {
+    const material = alloyAt(algaas, 0.25);
+    expect(material.relativePermittivity).toBeCloseTo(0.75 * gaas.relativePermittivity + 0.25 * aluminiumArsenide.relativePermittivity, 12);
+    expect(material.electronMobility.mu0).toBeCloseTo(0.75 * gaas.electronMobility.mu0 + 0.25 * aluminiumArsenide.electronMobility.mu0, 9);
+    expect(material.name).toBe('Al0.25Ga0.75As');
+  });
+
+  it('follows the lowest valley for the gap and electron mass', () => {
+    const direct = alloyAt(algaas, 0.2);
+    const indirect = alloyAt(algaas, 0.7);
+    expect(bandgapAt(direct, 300)).toBeCloseTo(alloyBands(algaas, 0.2, 300).valleys[0].gap, 9);
+    expect(bandgapAt(indirect, 300)).toBeCloseTo(alloyBands(algaas, 0.7, 300).valleys[1].gap, 9);
+    expect(direct.conductionValleys).toBe(1);
+    expect(indirect.conductionValleys).toBe(3);
+    expect(indirect.electronDosMass).toBeGreaterThan(direct.electronDosMass);
+  });
+
+  it('reproduces the GaAs result at x = 0', () => {
+    const binary = calculateConcentrations(conditions(gaas));
+    const alloy = calculateConcentrations(conditions(alloyAt(algaas, 0)));
+    expect(alloy.log10Ni).toBeCloseTo(binary.log10Ni, 9);
+    expect(alloy.log10N).toBeCloseTo(binary.log10N, 9);
+    expect(alloy.log10P).toBeCloseTo(binary.log10P, 9);
+    expect(alloy.fermiLevel).toBeCloseTo(binary.fermiLevel, 9);
+  });
+
+  it('keeps a shared density-of-states model and converts mixed ones to fixed', () => {
+    expect(alloyAt(defineAlloy(aluminiumArsenide, indiumArsenide, 0.7), 0.5).densityOfStatesModel).toBe('effective-mass');
+    const mixed = alloyAt(ingaas, 1);
+    expect(mixed.densityOfStatesModel).toBe('fixed');
+    const binary = calculateConcentrations(conditions(indiumArsenide));
+    expect(calculateConcentrations(conditions(mixed)).log10Ni).toBeCloseTo(binary.log10Ni, 9);
+  });
+
+  it('feeds the concentration engine', () => {
+    const result = calculateConcentrations({
+      material: alloyAt(ingaas, 0.53),
+      temperature: 300,
+      donorConc: 1e16,
+      acceptorConc: 0,
+      kB: DEFAULT_KB,
+      ionization: 'complete'
+    });
+    expect(result.n).toBeCloseTo(1e16, -13);
+    expect(result.ni).toBeGreaterThan(1e11);
+    expect(result.ni).toBeLessThan(1e12);
+  });
+});
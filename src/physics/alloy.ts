@@ -0,0 +1,364 @@
+import { bandgapAt } from './bandgap';
+import { DEFAULT_KB } from './constants';
+import { densityOfStates } from './engine';
+import { defaultMaterials, MaterialProperties } from './materials';
+
+export type ValleyLabel = 'Γ' | 'X' | 'L';
+
+// Varshni parameters and single-valley density-of-states mass of one conduction band minimum
+export interface ValleyParameters {
+  Eg0: number; // eV
+  alpha: number; // eV/K
+  beta: number; // K
+  mass: number; // m*/m0
+}
+
+export interface AlloyValley {
+  label: ValleyLabel;
+  multiplicity: number; // equivalent minima
+  atZero: ValleyParameters; // x = 0 end point
+  atOne: ValleyParameters; // x = 1 end point
+  // Bowing C(x) = bowing + bowingSlope·x in Eg = (1 - x)·Eg(0) + x·Eg(1) - x(1 - x)·C
+  bowing: number; // eV
+  bowingSlope: number; // eV
+}
+
+// Alloy ids carry this prefix so they can never collide with a library material id
+export const ALLOY_ID_PREFIX = 'alloy:';
+
+// A ternary A(x)B(1-x)C defined by its two binary end points. The fundamental
+// gap bows by `bowing`; when valleys are given they decide the gap, including
+// the direct/indirect crossover, and the electron DOS mass instead. Every other
+// parameter is interpolated linearly between the end points.
+export interface AlloyDefinition {
+  id: string;
+  name: string;
+  atZero: MaterialProperties; // binary at x = 0
+  atOne: MaterialProperties; // binary at x = 1
+  bowing: number; // eV, used when there are no valleys
+  valleys: AlloyValley[];
+  formula: (x: number) => string; // name at composition x
+}
+
+export interface AlloyOptions {
+  name?: string;
+  formula?: (x: number) => string;
+  valleys?: AlloyValley[];
+}
+
+export interface ValleyGap {
+  label: ValleyLabel;
+  gap: number; // eV
+}
+
+export interface AlloyBands {
+  gap: number; // eV, fundamental gap
+  valleys: ValleyGap[]; // empty for alloys without valley data
+  lowest: ValleyLabel | null;
+  direct: boolean | null; // lowest conduction band minimum at Γ, null without valley data
+}
+
+// Temperature at which the lowest valley is chosen for the interpolated material
+const REFERENCE_TEMPERATURE = 300; // K
+
+// End points not in the default library. Varshni parameters and valley masses
+// from Vurgaftman et al., J. Appl. Phys. 89, 5815 (2001); Bose–Einstein values
+// are fits to those Varshni curves over 20–600 K (within 6 meV). Mobility from
+// Sotoodeh et al. (2000) recast in the Arora form; dopant levels and bandgap
+// narrowing are representative.
+export const aluminiumArsenide: MaterialProperties = {
+  id: 'alas',
+  name: 'AlAs',
+  bandgapModel: 'varshni',
+  densityOfStatesModel: 'effective-mass',
+  bandgap: 2.164,
+  Nc300: 1.63e19,
+  Nv300: 1.8e19,
+  electronDosMass: 0.361,
+  holeDosMass: 0.8,
+  conductionValleys: 3,
+  temperatureCoeff: -4.15e-4,
+  Eg0: 2.24,
+  varshniAlpha: 7.0e-4,
+  varshniBeta: 530,
+  boseEinsteinAB: 0.0845,
+  boseEinsteinTheta: 345,
+  minTemperature: 20,
+  maxTemperature: 600,
+  donorIonizationEnergy: 0.06, // Si
+  acceptorIonizationEnergy: 0.05, // Be
+  donorDegeneracy: 2,
+  acceptorDegeneracy: 4,
+  relativePermittivity: 10.06,
+  electronMobility: { muMin: 10, mu0: 390, Nref: 5.46e17, alpha: 1.0, betaMin: 0, beta0: -2.1, betaRef: 3.0, betaAlpha: 0 },
+  holeMobility: { muMin: 10, mu0: 190, Nref: 3.84e17, alpha: 0.488, betaMin: 0, beta0: -2.24, betaRef: 3.0, betaAlpha: 0 },
+  slotboomNarrowing: { E0: 5e-3, Nref: 1e17, C: 0.5 },
+  delAlamoNarrowing: { E0: 5.2e-3, Nref: 1e17, C: 0 }
+};
+
+export const indiumArsenide: MaterialProperties = {
+  id: 'inas',
+  name: 'InAs',
+  bandgapModel: 'varshni',
+  densityOfStatesModel: 'effective-mass',
+  bandgap: 0.354,
+  Nc300: 1.05e17,
+  Nv300: 6.6e18,
+  electronDosMass: 0.026,
+  holeDosMass: 0.41,
+  conductionValleys: 1,
+  temperatureCoeff: -2.6e-4,
+  Eg0: 0.417,
+  varshniAlpha: 2.76e-4,
+  varshniBeta: 93,
+  boseEinsteinAB: 0.0148,
+  boseEinsteinTheta: 114,
+  minTemperature: 20,
+  maxTemperature: 600,
+  donorIonizationEnergy: 0.002, // S
+  acceptorIonizationEnergy: 0.01, // Zn
+  donorDegeneracy: 2,
+  acceptorDegeneracy: 4,
+  relativePermittivity: 15.15,
+  electronMobility: { muMin: 1000, mu0: 33000, Nref: 1.1e18, alpha: 0.32, betaMin: 0, beta0: -1.57, betaRef: 3.0, betaAlpha: 0 },
+  holeMobility: { muMin: 20, mu0: 510, Nref: 1.1e17, alpha: 0.46, betaMin: 0, beta0: -2.3, betaRef: 3.0, betaAlpha: 0 },
+  slotboomNarrowing: { E0: 2.5e-3, Nref: 1e17, C: 0.5 },
+  delAlamoNarrowing: { E0: 2.6e-3, Nref: 1e17, C: 0 }
+};
+
+// Binaries the presets need that the material library may not contain
+export const alloyEndpointMaterials: MaterialProperties[] = [aluminiumArsenide, indiumArsenide];
+
+export const defineAlloy = (
+  endpointA: MaterialProperties,
+  endpointB: MaterialProperties,
+  bowing: number,
+  options: AlloyOptions = {}
+): AlloyDefinition => {
+  const name = options.name ?? `${endpointA.name}–${endpointB.name}`;
+  return {
+    id: `${ALLOY_ID_PREFIX}${endpointA.id}-${endpointB.id}`,
+    name,
+    atZero: endpointA,
+    atOne: endpointB,
+    bowing,
+    valleys: options.valleys ?? [],
+    formula: options.formula ?? ((x) => `${name} (x = ${x.toFixed(2)})`)
+  };
+};
+
+interface AlloyPreset {
+  atZero: string; // end point material ids
+  atOne: string;
+  bowing: number;
+  options: AlloyOptions;
+}
+
+const gaasValleys: Record<ValleyLabel, ValleyParameters> = {
+  Γ: { Eg0: 1.519, alpha: 5.405e-4, beta: 204, mass: 0.067 },
+  X: { Eg0: 1.981, alpha: 4.6e-4, beta: 204, mass: 0.41 },
+  L: { Eg0: 1.815, alpha: 6.05e-4, beta: 204, mass: 0.221 }
+};
+
+const alloyPresets: AlloyPreset[] = [
+  {
+    atZero: 'gaas',
+    atOne: 'alas',
+    bowing: -0.127,
+    options: {
+      name: 'AlxGa1−xAs',
+      formula: (x) => `Al${x.toFixed(2)}Ga${(1 - x).toFixed(2)}As`,
+      valleys: [
+        {
+          label: 'Γ',
+          multiplicity: 1,
+          atZero: gaasValleys.Γ,
+          atOne: { Eg0: 3.099, alpha: 8.85e-4, beta: 530, mass: 0.15 },
+          bowing: -0.127,
+          bowingSlope: 1.31
+        },
+        {
+          label: 'X',
+          multiplicity: 3,
+          atZero: gaasValleys.X,
+          atOne: { Eg0: 2.24, alpha: 7.0e-4, beta: 530, mass: 0.361 },
+          bowing: 0.055,
+          bowingSlope: 0
+        },
+        {
+          label: 'L',
+          multiplicity: 4,
+          atZero: gaasValleys.L,
+          atOne: { Eg0: 2.46, alpha: 6.05e-4, beta: 204, mass: 0.31 },
+          bowing: 0,
+          bowingSlope: 0
+        }
+      ]
+    }
+  },
+  {
+    atZero: 'gaas',
+    atOne: 'inas',
+    bowing: 0.477,
+    options: {
+      name: 'InxGa1−xAs',
+      formula: (x) => `In${x.toFixed(2)}Ga${(1 - x).toFixed(2)}As`,
+      valleys: [
+        {
+          label: 'Γ',
+          multiplicity: 1,
+          atZero: gaasValleys.Γ,
+          atOne: { Eg0: 0.417, alpha: 2.76e-4, beta: 93, mass: 0.026 },
+          bowing: 0.477,
+          bowingSlope: 0
+        },
+        {
+          label: 'X',
+          multiplicity: 3,
+          atZero: gaasValleys.X,
+          atOne: { Eg0: 1.433, alpha: 2.76e-4, beta: 93, mass: 0.307 },
+          bowing: 1.4,
+          bowingSlope: 0
+        },
+        {
+          label: 'L',
+          multiplicity: 4,
+          atZero: gaasValleys.L,
+          atOne: { Eg0: 1.133, alpha: 2.76e-4, beta: 93, mass: 0.117 },
+          bowing: 0.33,
+          bowingSlope: 0
+        }
+      ]
+    }
+  }
+];
+
+export const materialById = (materials: MaterialProperties[], id: string): MaterialProperties | undefined => {
+  return materials.find((material) => material.id === id);
+};
+
+// The preset alloys built on the library's own end points, so edited GaAs
+// values carry into AlGaAs and InGaAs. Presets whose end points are missing are left out.
+export const libraryAlloys = (materials: MaterialProperties[]): AlloyDefinition[] => {
+  const library = [...materials, ...alloyEndpointMaterials];
+  return alloyPresets.flatMap(({ atZero, atOne, bowing, options }) => {
+    const endpointA = materialById(library, atZero);
+    const endpointB = materialById(library, atOne);
+    return endpointA && endpointB ? [defineAlloy(endpointA, endpointB, bowing, options)] : [];
+  });
+};
+
+export const alloyDefinitions = libraryAlloys(defaultMaterials);
+
+const lerp = (a: number, b: number, x: number) => (1 - x) * a + x * b;
+
+const varshni = ({ Eg0, alpha, beta }: ValleyParameters, temperature: number) =>
+  Eg0 - alpha * temperature * temperature / (temperature + beta);
+
+const valleyGap = (valley: AlloyValley, x: number, temperature: number): number => {
+  const bowing = valley.bowing + valley.bowingSlope * x;
+  return lerp(varshni(valley.atZero, temperature), varshni(valley.atOne, temperature), x) - x * (1 - x) * bowing;
+};
+
+// Fundamental gap of an alloy without valley data, from each end point's own bandgap model
+const bowedGap = (alloy: AlloyDefinition, x: number, temperature: number): number => {
+  return lerp(bandgapAt(alloy.atZero, temperature), bandgapAt(alloy.atOne, temperature), x) - x * (1 - x) * alloy.bowing;
+};
+
+const lowestValley = (alloy: AlloyDefinition, x: number, temperature: number): AlloyValley | undefined => {
+  return alloy.valleys.reduce<AlloyValley | undefined>(
+    (min, valley) => (min === undefined || valleyGap(valley, x, temperature) < valleyGap(min, x, temperature) ? valley : min),
+    undefined
+  );
+};
+
+export const alloyBands = (alloy: AlloyDefinition, x: number, temperature: number): AlloyBands => {
+  const valleys = alloy.valleys.map((valley) => ({ label: valley.label, gap: valleyGap(valley, x, temperature) }));
+  const lowest = lowestValley(alloy, x, temperature);
+  if (lowest === undefined) return { gap: bowedGap(alloy, x, temperature), valleys, lowest: null, direct: null };
+  return { gap: valleyGap(lowest, x, temperature), valleys, lowest: lowest.label, direct: lowest.label === 'Γ' };
+};
+
+// Composition at which the lowest conduction band minimum leaves Γ, or null if it never does
+export const findCrossover = (alloy: AlloyDefinition, temperature: number, steps = 1000): number | null => {
+  let previous = alloyBands(alloy, 0, temperature).direct;
+  for (let i = 1; i <= steps; i++) {
+    const direct = alloyBands(alloy, i / steps, temperature).direct;
+    if (direct !== previous) return (i - 0.5) / steps;
+    previous = direct;
+  }
+  return null;
+};
+
+// Interpolates every entry of a parameter group such as MobilityParameters
+const lerpParameters = <K extends string>(a: Record<K, number>, b: Record<K, number>, x: number): Record<K, number> => {
+  return Object.fromEntries((Object.keys(a) as K[]).map((key) => [key, lerp(a[key], b[key], x)])) as Record<K, number>;
+};
+
+type DensityOfStatesFields = Pick<
+  MaterialProperties,
+  'densityOfStatesModel' | 'Nc300' | 'Nv300' | 'electronDosMass' | 'holeDosMass' | 'conductionValleys'
+>;
+
+// Nc and Nv follow the end points' own model. When the models differ, each
+// end point's 300 K Nc and Nv are interpolated as a fixed-model material, so
+// x = 0 and x = 1 reproduce the binaries exactly.
+const interpolateDensityOfStates = (
+  a: MaterialProperties,
+  b: MaterialProperties,
+  x: number,
+  valley: AlloyValley | undefined
+): DensityOfStatesFields => {
+  const masses = {
+    electronDosMass: valley ? lerp(valley.atZero.mass, valley.atOne.mass, x) : lerp(a.electronDosMass, b.electronDosMass, x),
+    holeDosMass: lerp(a.holeDosMass, b.holeDosMass, x),
+    conductionValleys: valley ? valley.multiplicity : lerp(a.conductionValleys, b.conductionValleys, x)
+  };
+  if (a.densityOfStatesModel === b.densityOfStatesModel) {
+    return { densityOfStatesModel: a.densityOfStatesModel, Nc300: lerp(a.Nc300, b.Nc300, x), Nv300: lerp(a.Nv300, b.Nv300, x), ...masses };
+  }
+  const atZero = densityOfStates(a, REFERENCE_TEMPERATURE, DEFAULT_KB);
+  const atOne = densityOfStates(b, REFERENCE_TEMPERATURE, DEFAULT_KB);
+  return { densityOfStatesModel: 'fixed', Nc300: lerp(atZero.Nc, atOne.Nc, x), Nv300: lerp(atZero.Nv, atOne.Nv, x), ...masses };
+};
+
+// The material at composition x, ready for the concentration engine. With
+// valley data its Varshni curve follows the valley that is lowest at 300 K;
+// otherwise it keeps the end points' bandgap model. Either way the
+// interpolated curve is shifted to match the bowed gap at 300 K.
+export const alloyAt = (alloy: AlloyDefinition, x: number): MaterialProperties => {
+  const { atZero: a, atOne: b } = alloy;
+  const mix = (key: 'bandgap' | 'temperatureCoeff' | 'Eg0' | 'varshniAlpha' | 'varshniBeta' | 'boseEinsteinAB' | 'boseEinsteinTheta') =>
+    lerp(a[key], b[key], x);
+  const valley = lowestValley(alloy, x, REFERENCE_TEMPERATURE);
+  const gap = alloyBands(alloy, x, REFERENCE_TEMPERATURE).gap;
+
+  const interpolated: MaterialProperties = {
+    id: `${alloy.id}-${x.toFixed(3)}`,
+    name: alloy.formula(x),
+    bandgapModel: valley || a.bandgapModel !== b.bandgapModel ? 'varshni' : a.bandgapModel,
+    bandgap: mix('bandgap'),
+    ...interpolateDensityOfStates(a, b, x, valley),
+    temperatureCoeff: mix('temperatureCoeff'),
+    Eg0: valley ? lerp(valley.atZero.Eg0, valley.atOne.Eg0, x) : mix('Eg0'),
+    varshniAlpha: valley ? lerp(valley.atZero.alpha, valley.atOne.alpha, x) : mix('varshniAlpha'),
+    varshniBeta: valley ? lerp(valley.atZero.beta, valley.atOne.beta, x) : mix('varshniBeta'),
+    boseEinsteinAB: mix('boseEinsteinAB'),
+    boseEinsteinTheta: mix('boseEinsteinTheta'),
+    minTemperature: lerp(a.minTemperature, b.minTemperature, x),
+    maxTemperature: lerp(a.maxTemperature, b.maxTemperature, x),
+    donorIonizationEnergy: lerp(a.donorIonizationEnergy, b.donorIonizationEnergy, x),
+    acceptorIonizationEnergy: lerp(a.acceptorIonizationEnergy, b.acceptorIonizationEnergy, x),
+    donorDegeneracy: lerp(a.donorDegeneracy, b.donorDegeneracy, x),
+    acceptorDegeneracy: lerp(a.acceptorDegeneracy, b.acceptorDegeneracy, x),
+    relativePermittivity: lerp(a.relativePermittivity, b.relativePermittivity, x),
+    electronMobility: lerpParameters(a.electronMobility, b.electronMobility, x),
+    holeMobility: lerpParameters(a.holeMobility, b.holeMobility, x),
+    slotboomNarrowing: lerpParameters(a.slotboomNarrowing, b.slotboomNarrowing, x),
+    delAlamoNarrowing: lerpParameters(a.delAlamoNarrowing, b.delAlamoNarrowing, x)
+  };
+
+  // Every model's Eg(T) moves rigidly with bandgap and Eg0
+  const shift = gap - bandgapAt(interpolated, REFERENCE_TEMPERATURE);
+  return { ...interpolated, bandgap: interpolated.bandgap + shift, Eg0: interpolated.Eg0 + shift };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { bandgapAt } from './bandgap';
+import { BandgapModel, defaultMaterials } from './materials';
+
+const withModel = (index: number, bandgapModel: BandgapModel) => ({ ...defaultMaterials[index], bandgapModel });
+
+describe('bandgapAt', () => {
+  it('evaluates the linear model around 300 K', () => {
+    const silicon = withModel(0, 'linear');
+    expect(bandgapAt(silicon, 300)).toBe(1.12);
+    expect(bandgapAt(silicon, 400)).toBeCloseTo(1.12 - 0.0273, 10);
+  });
+
+  it('reproduces the published Varshni gaps', () => {
+    // Sze & Ng: Si 1.12 eV, Ge 0.66 eV, GaAs 1.42 eV at 300 K
+    expect(bandgapAt(defaultMaterials[0], 300)).toBeCloseTo(1.12, 2);
+    expect(bandgapAt(defaultMaterials[1], 300)).toBeCloseTo(0.66, 2);
+    expect(bandgapAt(defaultMaterials[2], 300)).toBeCloseTo(1.42, 2);
+  });
+
+  it('returns Eg0 at absolute zero for the Varshni and Bose–Einstein models', () => {
+    for (const model of ['varshni', 'bose-einstein'] as BandgapModel[]) {
+      const silicon = withModel(0, model);
+      expect(bandgapAt(silicon, 1e-3)).toBeCloseTo(silicon.Eg0, 6);
+    }
+  });
+
+  it('flattens out at low temperature unlike the linear model', () => {
+    const varshni = bandgapAt(defaultMaterials[0], 20);
+    const linear = bandgapAt(withModel(0, 'linear'), 20);
+    expect(varshni).toBeLessThan(defaultMaterials[0].Eg0);
+    expect(linear).toBeGreaterThan(defaultMaterials[0].Eg0);
+  });
+
+  it('keeps the Bose–Einstein fit within 5 meV of Varshni', () => {
+    for (let index = 0; index < defaultMaterials.length; index++) {
+      for (let temperature = 20; temperature <= 600; temperature += 20) {
+        const varshni = bandgapAt(withModel(index, 'varshni'), temperature);
+        const boseEinstein = bandgapAt(withModel(index, 'bose-einstein'), temperature);
+        expect(Math.abs(varshni - boseEinstein)).toBeLessThan(0.005);
+      }
+    }
+  });
+});
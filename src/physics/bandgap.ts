@@ -0,0 +1,32 @@
+import { BandgapModel, MaterialProperties } from './materials';
+
+export interface BandgapModelInfo {
+  label: string;
+  formula: string;
+}
+
+export const bandgapModels: Record<BandgapModel, BandgapModelInfo> = {
+  linear: {
+    label: 'Linear',
+    formula: 'Eg(T) = Eg(300K) + dEg/dT × (T − 300)'
+  },
+  varshni: {
+    label: 'Varshni',
+    formula: 'Eg(T) = Eg0 − αT² / (T + β)'
+  },
+  'bose-einstein': {
+    label: 'Bose–Einstein',
+    formula: 'Eg(T) = Eg0 − 2aB / (exp(ΘB/T) − 1)'
+  }
+};
+
+export const bandgapAt = (material: MaterialProperties, temperature: number): number => {
+  switch (material.bandgapModel) {
+    case 'varshni':
+      return material.Eg0 - material.varshniAlpha * temperature * temperature / (temperature + material.varshniBeta);
+    case 'bose-einstein':
+      return material.Eg0 - 2 * material.boseEinsteinAB / (Math.exp(material.boseEinsteinTheta / temperature) - 1);
+    case 'linear':
+      return material.bandgap + material.temperatureCoeff * (temperature - 300);
+  }
+};
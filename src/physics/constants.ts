@@ -0,0 +1,19 @@
+// CODATA 2018 values
+export const DEFAULT_KB = 8.617333262e-5; // Boltzmann constant in eV/K
+export const DEFAULT_PLANCK = 6.62607015e-34; // J·s
+export const DEFAULT_ELECTRON_MASS = 9.1093837015e-31; // kg, free electron mass m0
+export const ELEMENTARY_CHARGE = 1.602176634e-19; // C
+export const VACUUM_PERMITTIVITY = 8.8541878128e-14; // F/cm
+
+// Constants the user may edit; they feed kT and, for effective-mass materials, Nc and Nv
+export interface PhysicalConstants {
+  kB: number; // eV/K
+  planck: number; // J·s
+  electronMass: number; // kg
+}
+
+export const defaultConstants: PhysicalConstants = {
+  kB: DEFAULT_KB,
+  planck: DEFAULT_PLANCK,
+  electronMass: DEFAULT_ELECTRON_MASS
+};
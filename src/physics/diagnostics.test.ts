@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { diagnose, diagnoseInput } from './diagnostics';
+import { calculateConcentrations, ConcentrationInput } from './engine';
+import { defaultMaterials } from './materials';
+
+const [silicon, , gaas] = defaultMaterials;
+const base: ConcentrationInput = { material: silicon, temperature: 300, donorConc: 1e16, acceptorConc: 0, kB: DEFAULT_KB };
+const diagnosed = (input: ConcentrationInput) => diagnose(input, calculateConcentrations(input));
+
+describe('diagnose', () => {
+  it('is silent for an ordinary sample', () => {
+    expect(diagnosed(base)).toEqual([]);
+  });
+
+  it('rejects inputs that have no physical meaning', () => {
+    expect(diagnoseInput({ ...base, temperature: 0, donorConc: -1 }).map(({ message }) => message)).toEqual([
+      'T must be above 0 K (got 0)',
+      'ND must be zero or positive'
+    ]);
+    const negativeGap = { ...silicon, bandgapModel: 'linear' as const, bandgap: 0.1, temperatureCoeff: -1e-3 };
+    const [error] = diagnosed({ ...base, material: negativeGap, temperature: 500 });
+    expect(error).toEqual({ level: 'error', message: expect.stringContaining('Eg = -0.100 eV at 500 K') });
+    expect(diagnoseInput({ ...base, material: { ...silicon, Nc300: -1 } })[0].level).toBe('error');
+  });
+
+  it('warns outside the fitted temperature range', () => {
+    expect(diagnosed({ ...base, temperature: 700 })).toEqual([{
+      level: 'warning',
+      message: 'T = 700 K is outside the 20–600 K range Silicon\'s temperature models were fitted over'
+    }]);
+  });
+
+  it('warns when ND and NA nearly cancel', () => {
+    const [warning] = diagnosed({ ...base, donorConc: 1e17, acceptorConc: 9.8e16 });
+    expect(warning.message).toMatch(/^ND and NA cancel to within 2\.0%/);
+    expect(diagnosed({ ...base, donorConc: 1e17, acceptorConc: 5e16 })).toEqual([]);
+  });
+
+  it('warns when EF comes within 3kT of a band edge', () => {
+    const [boltzmann] = diagnosed({ ...base, material: gaas, donorConc: 3e17, ionization: 'complete' });
+    expect(boltzmann.message).toMatch(/^EF lies \d\.\d kT below Ec: Boltzmann statistics overestimate n/);
+    const [fermiDirac] = diagnosed({ ...base, acceptorConc: 1e20, donorConc: 0, statistics: 'fermi-dirac' });
+    expect(fermiDirac.message).toMatch(/^EF lies (inside the band beyond Ev|\d\.\d kT above Ev): the material is degenerate/);
+  });
+});
@@ -0,0 +1,85 @@
+import { bandgapAt } from './bandgap';
+import { ConcentrationInput, ConcentrationResult, densityOfStates } from './engine';
+import { NON_DEGENERATE_LIMIT_KT } from './sweep';
+
+// Errors mean the inputs cannot give a meaningful answer; warnings mean an
+// answer exists but one of the model's assumptions no longer holds.
+export type DiagnosticLevel = 'error' | 'warning';
+
+export interface Diagnostic {
+  level: DiagnosticLevel;
+  message: string;
+}
+
+// ND and NA are treated as nearly cancelling once their difference falls
+// below this fraction of the larger of the two.
+export const COMPENSATION_RATIO = 0.1;
+
+const isNonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+
+export const diagnoseInput = (input: ConcentrationInput): Diagnostic[] => {
+  const { material, temperature, donorConc, acceptorConc, kB } = input;
+  const diagnostics: Diagnostic[] = [];
+  const error = (message: string) => diagnostics.push({ level: 'error', message });
+  const warning = (message: string) => diagnostics.push({ level: 'warning', message });
+
+  if (!(Number.isFinite(temperature) && temperature > 0)) error(`T must be above 0 K (got ${temperature})`);
+  if (!(Number.isFinite(kB) && kB > 0)) error('kB must be positive');
+  if (!isNonNegative(donorConc)) error('ND must be zero or positive');
+  if (!isNonNegative(acceptorConc)) error('NA must be zero or positive');
+  if (diagnostics.length > 0) return diagnostics;
+
+  const Eg = bandgapAt(material, temperature);
+  if (!(Eg > 0)) {
+    error(`The bandgap model gives Eg = ${Eg.toFixed(3)} eV at ${temperature} K; check ${material.name}'s bandgap parameters`);
+  }
+  const { Nc, Nv } = densityOfStates(material, temperature, kB, input.planck, input.electronMass);
+  if (!(Nc > 0 && Number.isFinite(Nc)) || !(Nv > 0 && Number.isFinite(Nv))) {
+    error(`Nc and Nv must be positive (got ${Nc.toExponential(2)} and ${Nv.toExponential(2)} cm⁻³)`);
+  }
+
+  if (temperature < material.minTemperature || temperature > material.maxTemperature) {
+    warning(
+      `T = ${temperature} K is outside the ${material.minTemperature}–${material.maxTemperature} K range ` +
+      `${material.name}'s temperature models were fitted over`
+    );
+  }
+  const larger = Math.max(donorConc, acceptorConc);
+  if (donorConc > 0 && acceptorConc > 0 && Math.abs(donorConc - acceptorConc) < COMPENSATION_RATIO * larger) {
+    warning(
+      `ND and NA cancel to within ${(Math.abs(donorConc - acceptorConc) / larger * 100).toFixed(1)}%: ` +
+      'the net doping, and so n and p, hinge on small errors in either value'
+    );
+  }
+  return diagnostics;
+};
+
+export const diagnoseResult = (input: ConcentrationInput, result: ConcentrationResult): Diagnostic[] => {
+  const kT = input.kB * input.temperature;
+  const limit = NON_DEGENERATE_LIMIT_KT * kT;
+  const boltzmann = (input.statistics ?? 'boltzmann') === 'boltzmann';
+  const diagnostics: Diagnostic[] = [];
+
+  // Distance from EF to each band edge, positive while EF is still in the gap
+  const edges = [
+    { name: 'Ec', side: 'below', carrier: 'n', distance: -result.fermiLevelFromEc },
+    { name: 'Ev', side: 'above', carrier: 'p', distance: result.fermiLevelFromEv }
+  ];
+  for (const { name, side, carrier, distance } of edges) {
+    if (distance >= limit) continue;
+    const where = distance > 0 ? `${(distance / kT).toFixed(1)} kT ${side} ${name}` : `inside the band beyond ${name}`;
+    diagnostics.push({
+      level: 'warning',
+      message: boltzmann
+        ? `EF lies ${where}: Boltzmann statistics overestimate ${carrier}; switch to Fermi–Dirac statistics`
+        : `EF lies ${where}: the material is degenerate, where parabolic bands and isolated dopant levels are only rough approximations`
+    });
+  }
+  return diagnostics;
+};
+
+export const diagnose = (input: ConcentrationInput, result: ConcentrationResult): Diagnostic[] => {
+  const inputDiagnostics = diagnoseInput(input);
+  if (inputDiagnostics.some(({ level }) => level === 'error')) return inputDiagnostics;
+  return [...inputDiagnostics, ...diagnoseResult(input, result)];
+};
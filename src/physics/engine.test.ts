@@ -0,0 +1,311 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ELECTRON_MASS, DEFAULT_KB, DEFAULT_PLANCK } from './constants';
+import { calculateConcentrations, CarrierStatistics, densityOfStates, IonizationModel } from './engine';
+import { fermiDiracHalf } from './fermiDirac';
+import { defaultMaterials, MaterialProperties } from './materials';
+
+const material = (name: string): MaterialProperties => {
+  const found = defaultMaterials.find((m) => m.name === name);
+  if (!found) throw new Error(`Unknown material ${name}`);
+  return found;
+};
+
+const solve = (
+  name: string,
+  temperature: number,
+  donorConc: number,
+  acceptorConc: number,
+  ionization: IonizationModel = 'complete',
+  statistics: CarrierStatistics = 'boltzmann'
+) => calculateConcentrations({
+  material: material(name),
+  temperature,
+  donorConc,
+  acceptorConc,
+  kB: DEFAULT_KB,
+  ionization,
+  statistics
+});
+
+// Expects `actual` to lie within `factor` of `expected` on a log scale.
+const expectWithinFactor = (actual: number, expected: number, factor: number) => {
+  expect(actual).toBeGreaterThan(expected / factor);
+  expect(actual).toBeLessThan(expected * factor);
+};
+
+describe('calculateConcentrations', () => {
+  describe('intrinsic concentration at 300 K', () => {
+    // Reference values from Sze & Ng, Physics of Semiconductor Devices, 3rd ed.
+    it('matches silicon (~9.65e9 cm^-3)', () => {
+      expectWithinFactor(solve('Silicon', 300, 0, 0).ni, 9.65e9, 1.5);
+    });
+
+    it('matches germanium (~2.4e13 cm^-3)', () => {
+      expectWithinFactor(solve('Germanium', 300, 0, 0).ni, 2.4e13, 1.5);
+    });
+
+    it('matches GaAs (~2.1e6 cm^-3)', () => {
+      expectWithinFactor(solve('GaAs', 300, 0, 0).ni, 2.1e6, 1.5);
+    });
+  });
+
+  it('reports temperature-dependent Eg, Nc and Nv', () => {
+    const result = calculateConcentrations({
+      material: { ...material('Silicon'), bandgapModel: 'linear' },
+      temperature: 400,
+      donorConc: 0,
+      acceptorConc: 0,
+      kB: DEFAULT_KB
+    });
+    expect(result.bandgap).toBeCloseTo(1.12 - 2.73e-4 * 100, 10);
+    expect(result.Nc).toBeCloseTo(2.8e19 * Math.pow(400 / 300, 1.5), -10);
+    expect(result.Nv).toBeCloseTo(2.65e19 * Math.pow(400 / 300, 1.5), -10);
+  });
+
+  it('offsets Ei from midgap towards the band with fewer states', () => {
+    const silicon = solve('Silicon', 300, 0, 0);
+    expect(silicon.intrinsicOffset).toBeCloseTo((DEFAULT_KB * 300 / 2) * Math.log(2.65e19 / 2.8e19), 10);
+    expect(silicon.intrinsicOffset).toBeLessThan(0);
+    expect(solve('GaAs', 300, 0, 0).intrinsicOffset).toBeGreaterThan(0);
+  });
+
+  it('places Ei at midgap plus the offset', () => {
+    const result = solve('GaAs', 300, 1e16, 0, 'incomplete');
+    const Ei = result.fermiLevelFromEv - result.fermiLevel;
+    expect(Ei).toBeCloseTo(result.bandgap / 2 + result.intrinsicOffset, 10);
+  });
+
+  it('treats undoped material as intrinsic', () => {
+    const result = solve('Silicon', 300, 0, 0);
+    expect(result.conductionType).toBe('Intrinsic');
+    expect(result.n).toBe(result.ni);
+    expect(result.p).toBe(result.ni);
+    expect(result.fermiLevel).toBe(0);
+  });
+
+  it('solves a textbook n-type silicon sample', () => {
+    const result = solve('Silicon', 300, 1e16, 0);
+    expect(result.conductionType).toBe('n-type');
+    expect(result.n).toBeCloseTo(1e16, -8);
+    expectWithinFactor(result.p, result.ni ** 2 / 1e16, 1.0001);
+    // EF - Ei = kT ln(ND/ni) ≈ 0.35 eV
+    expect(result.fermiLevel).toBeGreaterThan(0.33);
+    expect(result.fermiLevel).toBeLessThan(0.37);
+  });
+
+  it('solves a textbook p-type silicon sample', () => {
+    const result = solve('Silicon', 300, 0, 1e16);
+    expect(result.conductionType).toBe('p-type');
+    expect(result.p).toBeCloseTo(1e16, -8);
+    expect(result.fermiLevel).toBeLessThan(-0.33);
+    expect(result.fermiLevel).toBeGreaterThan(-0.37);
+  });
+
+  it('uses net doping for compensated material', () => {
+    const result = solve('Silicon', 300, 5e16, 2e16);
+    expect(result.conductionType).toBe('n-type');
+    expect(result.n).toBeCloseTo(3e16, -8);
+  });
+
+  it('uses the exact quadratic solution when doping is comparable to ni', () => {
+    const { ni } = solve('Germanium', 300, 0, 0);
+    const donorConc = 2 * ni;
+    const result = solve('Germanium', 300, donorConc, 0);
+    const expected = (donorConc + Math.sqrt(donorConc ** 2 + 4 * ni ** 2)) / 2;
+    expect(result.n / expected).toBeCloseTo(1, 10);
+    expect(result.n).toBeGreaterThan(donorConc);
+  });
+
+  it('uses the exact quadratic solution for p-type doping comparable to ni', () => {
+    const { ni } = solve('Germanium', 300, 0, 0);
+    const acceptorConc = 3 * ni;
+    const result = solve('Germanium', 300, 0, acceptorConc);
+    const expected = (acceptorConc + Math.sqrt(acceptorConc ** 2 + 4 * ni ** 2)) / 2;
+    expect(result.p / expected).toBeCloseTo(1, 10);
+  });
+
+  it('obeys the mass action law', () => {
+    for (const name of ['Silicon', 'Germanium', 'GaAs']) {
+      for (const temperature of [250, 300, 450]) {
+        const result = solve(name, temperature, 1e15, 3e14);
+        expect((result.n * result.p) / result.ni ** 2).toBeCloseTo(1, 6);
+      }
+    }
+  });
+
+  it('increases ni with temperature', () => {
+    expect(solve('Silicon', 400, 0, 0).ni).toBeGreaterThan(solve('Silicon', 300, 0, 0).ni);
+  });
+
+  describe('incomplete ionization', () => {
+    const solveIncomplete = (name: string, temperature: number, donorConc: number, acceptorConc: number) =>
+      solve(name, temperature, donorConc, acceptorConc, 'incomplete');
+
+    it('is the default model', () => {
+      const result = calculateConcentrations({
+        material: material('Silicon'),
+        temperature: 50,
+        donorConc: 1e16,
+        acceptorConc: 0,
+        kB: DEFAULT_KB
+      });
+      expect(result.ionizedDonors).toBe(solveIncomplete('Silicon', 50, 1e16, 0).ionizedDonors);
+      expect(result.ionizedDonors).toBeLessThan(1e16);
+    });
+
+    it('satisfies charge neutrality', () => {
+      for (const temperature of [20, 77, 300, 800]) {
+        const result = solveIncomplete('Silicon', temperature, 1e16, 3e15);
+        const positive = result.p + result.ionizedDonors;
+        const negative = result.n + result.ionizedAcceptors;
+        expect(Math.abs(positive - negative) / Math.max(positive, negative)).toBeLessThan(1e-9);
+      }
+    });
+
+    it('agrees with the complete-ionization model at room temperature', () => {
+      const incomplete = solveIncomplete('Silicon', 300, 1e16, 0);
+      const complete = solve('Silicon', 300, 1e16, 0);
+      expect(incomplete.ionizedDonors / 1e16).toBeGreaterThan(0.99);
+      expect(incomplete.n / complete.n).toBeCloseTo(1, 2);
+      expect(incomplete.fermiLevel).toBeCloseTo(complete.fermiLevel, 3);
+    });
+
+    it('freezes out donors at cryogenic temperatures', () => {
+      const result = solveIncomplete('Silicon', 30, 1e16, 0);
+      expect(result.conductionType).toBe('n-type');
+      expect(result.ionizedDonors / 1e16).toBeLessThan(0.05);
+      expect(result.n).toBeCloseTo(result.ionizedDonors, -4);
+      // EF sits between the donor level and the conduction band edge
+      expect(result.fermiLevel).toBeGreaterThan(result.bandgap / 2 - 0.045);
+    });
+
+    it('keeps compensated acceptors fully ionized during freeze-out', () => {
+      const result = solveIncomplete('Silicon', 30, 1e16, 1e15);
+      expect(result.ionizedAcceptors / 1e15).toBeCloseTo(1, 6);
+      expect(result.ionizedDonors).toBeGreaterThan(1e15);
+    });
+
+    it('freezes out acceptors in p-type material', () => {
+      const result = solveIncomplete('Silicon', 30, 0, 1e16);
+      expect(result.conductionType).toBe('p-type');
+      expect(result.ionizedAcceptors / 1e16).toBeLessThan(0.05);
+      expect(result.p).toBeCloseTo(result.ionizedAcceptors, -4);
+    });
+
+    it('reaches the intrinsic regime at high temperature', () => {
+      const result = solveIncomplete('Germanium', 800, 1e15, 0);
+      expect(result.conductionType).toBe('Intrinsic');
+      expect(result.n / result.ni).toBeCloseTo(1, 1);
+      expect(result.p / result.ni).toBeCloseTo(1, 1);
+    });
+
+    it('obeys the mass action law', () => {
+      const result = solveIncomplete('GaAs', 300, 1e17, 0);
+      expect((result.n * result.p) / result.ni ** 2).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe('Fermi-Dirac statistics', () => {
+    it('agrees with Boltzmann statistics for non-degenerate doping', () => {
+      const fermiDirac = solve('Silicon', 300, 1e15, 0, 'complete', 'fermi-dirac');
+      const boltzmann = solve('Silicon', 300, 1e15, 0, 'complete', 'boltzmann');
+      expect(fermiDirac.n / boltzmann.n).toBeCloseTo(1, 4);
+      expect(fermiDirac.fermiLevel).toBeCloseTo(boltzmann.fermiLevel, 4);
+    });
+
+    it('places EF above the Boltzmann estimate in degenerate GaAs', () => {
+      const fermiDirac = solve('GaAs', 300, 1e18, 0, 'complete', 'fermi-dirac');
+      const boltzmann = solve('GaAs', 300, 1e18, 0, 'complete', 'boltzmann');
+      expect(fermiDirac.n / 1e18).toBeCloseTo(1, 6);
+      expect(fermiDirac.fermiLevelFromEc).toBeGreaterThan(0);
+      expect(fermiDirac.fermiLevelFromEc).toBeGreaterThan(boltzmann.fermiLevelFromEc + 0.01);
+      const eta = fermiDirac.fermiLevelFromEc / (DEFAULT_KB * 300);
+      expect(fermiDirac.Nc * fermiDiracHalf(eta) / fermiDirac.n).toBeCloseTo(1, 6);
+    });
+
+    it('handles doping far above the density of states', () => {
+      const result = solve('GaAs', 300, 1e21, 0, 'complete', 'fermi-dirac');
+      expect(result.n / 1e21).toBeCloseTo(1, 6);
+      expect(result.fermiLevelFromEc).toBeGreaterThan(0.5);
+    });
+
+    it('reports EF relative to both band edges', () => {
+      const result = solve('Silicon', 300, 0, 1e19, 'incomplete', 'fermi-dirac');
+      expect(result.fermiLevelFromEv - result.fermiLevelFromEc).toBeCloseTo(result.bandgap, 10);
+      expect(result.conductionType).toBe('p-type');
+    });
+  });
+
+  describe('log-space densities', () => {
+    it('keeps ni finite in log space where it underflows', () => {
+      const result = solve('GaAs', 10, 0, 0);
+      expect(result.ni).toBe(0);
+      expect(result.log10Ni).toBeLessThan(-324);
+      expect(result.log10N).toBeCloseTo(result.log10Ni, 10);
+      expect(result.conductionType).toBe('Intrinsic');
+      expect(result.fermiLevel).toBe(0);
+    });
+
+    it('places EF at Ei in undoped material under every model', () => {
+      const result = solve('GaAs', 10, 0, 0, 'incomplete', 'fermi-dirac');
+      expect(result.fermiLevel).toBeCloseTo(0, 6);
+      expect(result.log10P).toBeCloseTo(result.log10Ni, 6);
+    });
+
+    it('tracks the minority carrier through the mass action law', () => {
+      const result = solve('GaAs', 15, 1e16, 0, 'incomplete');
+      expect(result.p).toBe(0);
+      expect(result.log10N + result.log10P).toBeCloseTo(2 * result.log10Ni, 6);
+      expect(result.log10N).toBeCloseTo(Math.log10(result.n), 10);
+    });
+
+    it('keeps frozen-out dopants finite in log space', () => {
+      // A deep acceptor, like Mg in GaN, leaves NA⁻ far below the smallest double near 1 K
+      const result = calculateConcentrations({
+        material: { ...material('GaAs'), acceptorIonizationEnergy: 0.2 },
+        temperature: 1,
+        donorConc: 0,
+        acceptorConc: 1e17,
+        kB: DEFAULT_KB,
+        ionization: 'incomplete'
+      });
+      expect(result.ionizedAcceptors).toBe(0);
+      expect(result.log10IonizedAcceptors).toBeLessThan(-324);
+      expect(result.log10IonizedAcceptors).toBeCloseTo(result.log10P, 6);
+    });
+  });
+});
+
+describe('densityOfStates', () => {
+  const silicon = material('Silicon');
+  const effectiveMass = { ...silicon, densityOfStatesModel: 'effective-mass' as const };
+
+  it('derives Nc and Nv from the density-of-states masses', () => {
+    const { Nc, Nv } = densityOfStates(effectiveMass, 300, DEFAULT_KB);
+    expect(Nc / silicon.Nc300).toBeCloseTo(1, 1);
+    expect(Nv / silicon.Nv300).toBeCloseTo(1, 1);
+    expect(densityOfStates(effectiveMass, 600, DEFAULT_KB).Nc / Nc).toBeCloseTo(Math.pow(2, 1.5), 12);
+  });
+
+  it('follows edits to the physical constants in the effective-mass model only', () => {
+    const base = densityOfStates(effectiveMass, 300, DEFAULT_KB);
+    expect(densityOfStates(effectiveMass, 300, 2 * DEFAULT_KB).Nc / base.Nc).toBeCloseTo(Math.pow(2, 1.5), 12);
+    expect(densityOfStates(effectiveMass, 300, DEFAULT_KB, 2 * DEFAULT_PLANCK).Nv / base.Nv).toBeCloseTo(1 / 8, 12);
+    expect(densityOfStates(silicon, 300, 2 * DEFAULT_KB).Nc).toBe(silicon.Nc300);
+  });
+
+  it('feeds the derived values into the carrier densities', () => {
+    const result = calculateConcentrations({
+      material: effectiveMass,
+      temperature: 300,
+      donorConc: 0,
+      acceptorConc: 0,
+      kB: DEFAULT_KB,
+      electronMass: 1.1 * DEFAULT_ELECTRON_MASS
+    });
+    const expected = densityOfStates(effectiveMass, 300, DEFAULT_KB, undefined, 1.1 * DEFAULT_ELECTRON_MASS);
+    expect(result.Nc).toBe(expected.Nc);
+    const ni = Math.sqrt(expected.Nc * expected.Nv) * Math.exp(-result.bandgap / (2 * DEFAULT_KB * 300));
+    expect(result.ni / ni).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,291 @@
+import { bandgapAt } from './bandgap';
+import { DEFAULT_ELECTRON_MASS, DEFAULT_PLANCK, ELEMENTARY_CHARGE } from './constants';
+import { logFermiDiracHalf } from './fermiDirac';
+import { MaterialProperties } from './materials';
+import { bandgapNarrowingAt, BandgapNarrowingModel } from './narrowing';
+
+export type ConductionType = 'Intrinsic' | 'n-type' | 'p-type';
+
+// 'complete' assumes every dopant is ionized (closed-form solution);
+// 'incomplete' solves charge neutrality with the dopant levels occupied.
+export type IonizationModel = 'complete' | 'incomplete';
+
+// 'fermi-dirac' uses F½ for the band occupancy, which stays accurate
+// once EF approaches or enters a band (degenerate doping).
+export type CarrierStatistics = 'boltzmann' | 'fermi-dirac';
+
+export interface ConcentrationInput {
+  material: MaterialProperties;
+  temperature: number; // K
+  donorConc: number; // cm^-3
+  acceptorConc: number; // cm^-3
+  kB: number; // eV/K
+  planck?: number; // J·s, defaults to CODATA
+  electronMass?: number; // kg, defaults to CODATA
+  ionization?: IonizationModel; // defaults to 'incomplete'
+  statistics?: CarrierStatistics; // defaults to 'boltzmann'
+  narrowing?: BandgapNarrowingModel; // defaults to 'none'
+}
+
+export interface ConcentrationResult {
+  ni: number; // cm^-3, ni,eff with the narrowed gap
+  n: number; // cm^-3
+  p: number; // cm^-3
+  log10Ni: number; // log10 of ni in cm^-3, finite even where ni underflows to 0
+  log10N: number;
+  log10P: number;
+  fermiLevel: number; // eV, EF - Ei
+  fermiLevelFromEc: number; // eV, EF - Ec
+  fermiLevelFromEv: number; // eV, EF - Ev
+  intrinsicOffset: number; // eV, Ei - (Ec + Ev)/2
+  conductionType: ConductionType;
+  bandgap: number; // eV, Eg(T) less the doping-induced narrowing
+  nominalBandgap: number; // eV, Eg(T) of the undoped material
+  bandgapNarrowing: number; // eV, ΔEg
+  Nc: number; // cm^-3, Nc(T)
+  Nv: number; // cm^-3, Nv(T)
+  ionizedDonors: number; // cm^-3, ND+
+  ionizedAcceptors: number; // cm^-3, NA-
+  log10IonizedDonors: number; // log10 of ND+, finite where ND+ underflows
+  log10IonizedAcceptors: number;
+}
+
+// Carrier densities are carried as natural logarithms so that wide-gap
+// materials at low temperature do not underflow
+interface CarrierSolution {
+  logN: number;
+  logP: number;
+  fermiLevel: number;
+  ionizedDonors: number;
+  ionizedAcceptors: number;
+  logDonors: number; // ln ND+
+  logAcceptors: number; // ln NA-
+}
+
+// Net doping above this multiple of ni is treated as fully dominating,
+// so the majority carrier density is taken as the net doping itself.
+export const MUCH_GREATER_RATIO = 1e3;
+
+// The neutrality root is first bracketed this many kT outside the band edges.
+const BRACKET_KT = 50;
+const MAX_BRACKET_EXPANSIONS = 20;
+const MAX_BISECTIONS = 200;
+const ENERGY_TOLERANCE = 1e-12; // eV
+
+export const densityOfStatesAt = (N300: number, temperature: number): number => {
+  return N300 * Math.pow(temperature / 300, 1.5);
+};
+
+// N = 2·g·(2π·m*·m0·kT / h²)^(3/2) for g equivalent valleys of mass m* (in units of m0)
+export const effectiveDensityOfStates = (
+  mass: number,
+  valleys: number,
+  temperature: number,
+  kB: number,
+  planck = DEFAULT_PLANCK,
+  electronMass = DEFAULT_ELECTRON_MASS
+): number => {
+  const kT = kB * ELEMENTARY_CHARGE * temperature; // J
+  const perCubicMetre = 2 * valleys * Math.pow(2 * Math.PI * mass * electronMass * kT / (planck * planck), 1.5);
+  return perCubicMetre * 1e-6;
+};
+
+export const densityOfStates = (
+  material: MaterialProperties,
+  temperature: number,
+  kB: number,
+  planck?: number,
+  electronMass?: number
+): { Nc: number; Nv: number } => {
+  if (material.densityOfStatesModel === 'effective-mass') {
+    return {
+      Nc: effectiveDensityOfStates(material.electronDosMass, material.conductionValleys, temperature, kB, planck, electronMass),
+      Nv: effectiveDensityOfStates(material.holeDosMass, 1, temperature, kB, planck, electronMass)
+    };
+  }
+  return {
+    Nc: densityOfStatesAt(material.Nc300, temperature),
+    Nv: densityOfStatesAt(material.Nv300, temperature)
+  };
+};
+
+const classify = (netDoping: number, logNi: number): ConductionType => {
+  if (Math.log(Math.abs(netDoping)) < logNi) return 'Intrinsic';
+  return netDoping > 0 ? 'n-type' : 'p-type';
+};
+
+const solveCompleteIonization = (
+  logNi: number,
+  kT: number,
+  donorConc: number,
+  acceptorConc: number
+): CarrierSolution => {
+  // Net doping
+  const netDoping = donorConc - acceptorConc;
+  const logNet = Math.log(Math.abs(netDoping)); // -Infinity when fully compensated
+  const ionized = {
+    ionizedDonors: donorConc,
+    ionizedAcceptors: acceptorConc,
+    logDonors: Math.log(donorConc),
+    logAcceptors: Math.log(acceptorConc)
+  };
+
+  if (logNet < logNi) {
+    // Intrinsic semiconductor
+    return { logN: logNi, logP: logNi, fermiLevel: 0, ...ionized };
+  }
+
+  // Majority carrier density from n·p = ni² and n - p = ND - NA. The quadratic
+  // is solved in units of ni, which keeps it finite when ni itself underflows.
+  let logMajority: number;
+  if (logNet - logNi > Math.log(MUCH_GREATER_RATIO)) {
+    logMajority = logNet;
+  } else {
+    const ratio = Math.exp(logNet - logNi);
+    logMajority = logNi + Math.log((ratio + Math.sqrt(ratio * ratio + 4)) / 2);
+  }
+  const logMinority = 2 * logNi - logMajority;
+  // Fermi level relative to the intrinsic level
+  const fermiLevel = kT * (logMajority - logNi);
+
+  return netDoping > 0
+    ? { logN: logMajority, logP: logMinority, fermiLevel, ...ionized }
+    : { logN: logMinority, logP: logMajority, fermiLevel: -fermiLevel, ...ionized };
+};
+
+// ln(1 + e^x) without overflow
+const softplus = (x: number): number => (x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x)));
+
+const solveChargeNeutrality = (
+  material: MaterialProperties,
+  Eg: number,
+  Ei: number,
+  Nc: number,
+  Nv: number,
+  kT: number,
+  donorConc: number,
+  acceptorConc: number,
+  ionization: IonizationModel,
+  statistics: CarrierStatistics
+): CarrierSolution => {
+  // Energies are measured from the valence band edge (Ev = 0, Ec = Eg)
+  const Ed = Eg - material.donorIonizationEnergy;
+  const Ea = material.acceptorIonizationEnergy;
+  const logOccupancy = statistics === 'fermi-dirac' ? logFermiDiracHalf : (eta: number) => eta;
+  const logNc = Math.log(Nc);
+  const logNv = Math.log(Nv);
+
+  // Natural logarithms of n, p, ND+ and NA-
+  const logChargesAt = (EF: number) => ({
+    logN: logNc + logOccupancy((EF - Eg) / kT),
+    logP: logNv + logOccupancy(-EF / kT),
+    logDonors: ionization === 'complete'
+      ? Math.log(donorConc)
+      : Math.log(donorConc) - softplus(Math.log(material.donorDegeneracy) + (EF - Ed) / kT),
+    logAcceptors: ionization === 'complete'
+      ? Math.log(acceptorConc)
+      : Math.log(acceptorConc) - softplus(Math.log(material.acceptorDegeneracy) + (Ea - EF) / kT)
+  });
+
+  const carriersAt = (EF: number): CarrierSolution => {
+    const { logN, logP, logDonors, logAcceptors } = logChargesAt(EF);
+    return {
+      logN,
+      logP,
+      fermiLevel: EF - Ei,
+      ionizedDonors: ionization === 'complete' ? donorConc : Math.exp(logDonors),
+      ionizedAcceptors: ionization === 'complete' ? acceptorConc : Math.exp(logAcceptors),
+      logDonors,
+      logAcceptors
+    };
+  };
+
+  // Only the sign matters to the bisection, so every term is scaled by the
+  // largest one before leaving log space.
+  const netCharge = (EF: number): number => {
+    const { logN, logP, logDonors, logAcceptors } = logChargesAt(EF);
+    const scale = Math.max(logN, logP, logDonors, logAcceptors);
+    return Math.exp(logP - scale) + Math.exp(logDonors - scale) - Math.exp(logN - scale) - Math.exp(logAcceptors - scale);
+  };
+
+  // Net positive charge p + ND+ - n - NA- decreases monotonically with EF,
+  // so bisection on EF always converges to the single root. Degenerate
+  // doping can push EF deep into a band, so the bracket widens until it
+  // straddles the root.
+  let low = -BRACKET_KT * kT;
+  let high = Eg + BRACKET_KT * kT;
+  for (let i = 0; i < MAX_BRACKET_EXPANSIONS && netCharge(low) < 0; i++) {
+    low -= high - low;
+  }
+  for (let i = 0; i < MAX_BRACKET_EXPANSIONS && netCharge(high) > 0; i++) {
+    high += high - low;
+  }
+  for (let i = 0; i < MAX_BISECTIONS && high - low > ENERGY_TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (netCharge(mid) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return carriersAt((low + high) / 2);
+};
+
+export const calculateConcentrations = ({
+  material,
+  temperature,
+  donorConc,
+  acceptorConc,
+  kB,
+  planck,
+  electronMass,
+  ionization = 'incomplete',
+  statistics = 'boltzmann',
+  narrowing = 'none'
+}: ConcentrationInput): ConcentrationResult => {
+  const kT = kB * temperature;
+
+  // Temperature-dependent bandgap, narrowed by heavy doping. The shift is split
+  // equally between the band edges, so midgap and Ei stay in place.
+  const nominalBandgap = bandgapAt(material, temperature);
+  const bandgapNarrowing = bandgapNarrowingAt(material, narrowing, donorConc + acceptorConc);
+  const Eg = nominalBandgap - bandgapNarrowing;
+
+  // Temperature-dependent effective density of states
+  const { Nc, Nv } = densityOfStates(material, temperature, kB, planck, electronMass);
+
+  // Intrinsic carrier concentration, ln ni = ½·ln(Nc·Nv) - Eg/2kT
+  const logNi = (Math.log(Nc) + Math.log(Nv)) / 2 - Eg / (2 * kT);
+
+  // Intrinsic level, offset from midgap by the density-of-states asymmetry
+  const intrinsicOffset = (kT / 2) * Math.log(Nv / Nc);
+  const Ei = Eg / 2 + intrinsicOffset;
+
+  const solution = ionization === 'complete' && statistics === 'boltzmann'
+    ? solveCompleteIonization(logNi, kT, donorConc, acceptorConc)
+    : solveChargeNeutrality(material, Eg, Ei, Nc, Nv, kT, donorConc, acceptorConc, ionization, statistics);
+  const { logN, logP, logDonors, logAcceptors, ...rest } = solution;
+  const EF = Ei + solution.fermiLevel;
+
+  return {
+    ni: Math.exp(logNi),
+    n: Math.exp(logN),
+    p: Math.exp(logP),
+    log10Ni: logNi / Math.LN10,
+    log10N: logN / Math.LN10,
+    log10P: logP / Math.LN10,
+    log10IonizedDonors: logDonors / Math.LN10,
+    log10IonizedAcceptors: logAcceptors / Math.LN10,
+    ...rest,
+    fermiLevelFromEc: EF - Eg,
+    fermiLevelFromEv: EF,
+    intrinsicOffset,
+    conductionType: classify(solution.ionizedDonors - solution.ionizedAcceptors, logNi),
+    bandgap: Eg,
+    nominalBandgap,
+    bandgapNarrowing,
+    Nc,
+    Nv
+  };
+};
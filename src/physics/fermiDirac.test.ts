@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { fermiDiracHalf, logFermiDiracHalf } from './fermiDirac';
+
+describe('fermiDiracHalf', () => {
+  it('approaches exp(η) in the non-degenerate limit', () => {
+    expect(fermiDiracHalf(-10) / Math.exp(-10)).toBeCloseTo(1, 4);
+    expect(fermiDiracHalf(-30) / Math.exp(-30)).toBeCloseTo(1, 10);
+  });
+
+  it('matches tabulated values', () => {
+    // Blakemore, Solid-State Electronics 25, 1067 (1982)
+    expect(fermiDiracHalf(-1)).toBeCloseTo(0.3278, 4);
+    expect(fermiDiracHalf(0)).toBeCloseTo(0.7651, 4);
+    expect(fermiDiracHalf(1)).toBeCloseTo(1.5756, 4);
+    expect(fermiDiracHalf(4)).toBeCloseTo(6.5115, 3);
+  });
+
+  it('is continuous where the series hands over to the integral', () => {
+    expect(fermiDiracHalf(-2 - 1e-9)).toBeCloseTo(fermiDiracHalf(-2), 8);
+  });
+
+  it('approaches the Sommerfeld expansion when strongly degenerate', () => {
+    const eta = 30;
+    const sommerfeld = (4 / (3 * Math.sqrt(Math.PI))) * eta ** 1.5 * (1 + Math.PI ** 2 / (8 * eta ** 2));
+    expect(fermiDiracHalf(eta) / sommerfeld).toBeCloseTo(1, 5);
+  });
+});
+
+describe('logFermiDiracHalf', () => {
+  it('matches ln F½ and keeps going where F½ underflows', () => {
+    expect(logFermiDiracHalf(-5)).toBeCloseTo(Math.log(fermiDiracHalf(-5)), 12);
+    expect(logFermiDiracHalf(3)).toBeCloseTo(Math.log(fermiDiracHalf(3)), 12);
+    expect(fermiDiracHalf(-2000)).toBe(0);
+    expect(logFermiDiracHalf(-2000)).toBe(-2000);
+  });
+});
@@ -0,0 +1,45 @@
+// Below this reduced energy the alternating series converges quickly
+const SERIES_LIMIT = -2;
+const SERIES_TERMS = 30;
+// The integrand is negligible this many kT above max(η, 0)
+const INTEGRATION_TAIL = 50;
+const INTEGRATION_STEPS = 400; // must be even for Simpson's rule
+
+// Normalized Fermi–Dirac integral of order one half,
+// F½(η) = (2/√π) ∫₀^∞ √x / (1 + exp(x − η)) dx, so that n = Nc·F½(η)
+// and F½(η) → exp(η) in the non-degenerate limit.
+export const fermiDiracHalf = (eta: number): number => {
+  if (eta < SERIES_LIMIT) {
+    // F½(η) = Σ (−1)^(k+1) exp(kη) / k^(3/2)
+    let sum = 0;
+    for (let k = 1; k <= SERIES_TERMS; k++) {
+      sum += (k % 2 === 1 ? 1 : -1) * Math.exp(k * eta) / Math.pow(k, 1.5);
+    }
+    return sum;
+  }
+
+  // Substituting x = t² removes the √x singularity at the origin:
+  // F½(η) = (4/√π) ∫₀^∞ t² / (1 + exp(t² − η)) dt
+  const upper = Math.sqrt(Math.max(eta, 0) + INTEGRATION_TAIL);
+  const h = upper / INTEGRATION_STEPS;
+  let sum = 0;
+  for (let i = 0; i <= INTEGRATION_STEPS; i++) {
+    const t = i * h;
+    const weight = i === 0 || i === INTEGRATION_STEPS ? 1 : i % 2 === 1 ? 4 : 2;
+    sum += weight * t * t / (1 + Math.exp(t * t - eta));
+  }
+  return (4 / Math.sqrt(Math.PI)) * sum * h / 3;
+};
+
+// ln F½(η), which stays finite where F½ itself underflows (η below about −745)
+export const logFermiDiracHalf = (eta: number): number => {
+  if (eta < SERIES_LIMIT) {
+    // ln F½(η) = η + ln Σ (−1)^(k+1) exp((k−1)η) / k^(3/2)
+    let sum = 0;
+    for (let k = 1; k <= SERIES_TERMS; k++) {
+      sum += (k % 2 === 1 ? 1 : -1) * Math.exp((k - 1) * eta) / Math.pow(k, 1.5);
+    }
+    return eta + Math.log(sum);
+  }
+  return Math.log(fermiDiracHalf(eta));
+};
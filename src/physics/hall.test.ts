@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB, ELEMENTARY_CHARGE } from './constants';
+import { calculateConcentrations } from './engine';
+import { extractHallPoint, fitHallData, HallMeasurement, majorityType } from './hall';
+import { defaultMaterials } from './materials';
+
+const [silicon] = defaultMaterials;
+const conditions = { material: silicon, kB: DEFAULT_KB };
+
+// Hall data an ideal single-carrier sample would give, with a constant mobility
+const synthetic = (donorConc: number, acceptorConc: number, donorEnergy: number, hallFactor = 1): HallMeasurement[] => {
+  const material = { ...silicon, donorIonizationEnergy: donorEnergy };
+  return [40, 60, 80, 100, 150, 200, 300].map((temperature) => {
+    const { n } = calculateConcentrations({ ...conditions, material, temperature, donorConc, acceptorConc });
+    return {
+      temperature,
+      hallCoefficient: -hallFactor / (ELEMENTARY_CHARGE * n),
+      resistivity: 1 / (ELEMENTARY_CHARGE * n * 1000),
+      hallFactor
+    };
+  });
+};
+
+describe('extractHallPoint', () => {
+  it('reads carrier type, density and mobility from RH and ρ', () => {
+    const point = extractHallPoint({ temperature: 300, hallCoefficient: 625, resistivity: 1.5, hallFactor: 1.18 });
+    expect(point.type).toBe('p');
+    expect(point.density).toBeCloseTo(1.18 / (ELEMENTARY_CHARGE * 625), -8);
+    expect(point.hallMobility).toBeCloseTo(625 / 1.5, 10);
+    expect(point.driftMobility).toBeCloseTo(625 / 1.5 / 1.18, 10);
+  });
+
+  it('recovers the density the data were generated from', () => {
+    const [first] = synthetic(1e16, 0, 0.045, 1.18).map(extractHallPoint);
+    expect(first.type).toBe('n');
+    expect(first.hallMobility).toBeCloseTo(1180, 6);
+    expect(first.driftMobility).toBeCloseTo(1000, 6);
+  });
+});
+
+describe('majorityType', () => {
+  it('follows most of the points', () => {
+    const points = synthetic(1e16, 0, 0.045).map(extractHallPoint);
+    expect(majorityType(points)).toBe('n');
+    expect(majorityType(points.map((point) => ({ ...point, type: 'p' as const })))).toBe('p');
+  });
+});
+
+describe('fitHallData', () => {
+  it('recovers ND, NA and Ed from freeze-out data', () => {
+    const points = synthetic(2e16, 3e15, 0.05).map(extractHallPoint);
+    const fit = fitHallData(points, conditions, { fitCompensation: true, fitIonizationEnergy: true });
+    expect(fit.type).toBe('n');
+    expect(fit.donorConc / 2e16).toBeCloseTo(1, 1);
+    expect(fit.acceptorConc / 3e15).toBeCloseTo(1, 1);
+    expect(fit.ionizationEnergy).toBeCloseTo(0.05, 3);
+    expect(fit.rmsLogError).toBeLessThan(0.01);
+  });
+
+  it('fits only the majority dopant when asked to', () => {
+    const points = synthetic(5e15, 0, silicon.donorIonizationEnergy).map(extractHallPoint);
+    const fit = fitHallData(points, conditions, { fitCompensation: false, fitIonizationEnergy: false });
+    expect(fit.donorConc / 5e15).toBeCloseTo(1, 3);
+    expect(fit.acceptorConc).toBe(0);
+    expect(fit.ionizationEnergy).toBe(silicon.donorIonizationEnergy);
+  });
+
+  it('does not depend on the sample doping entered elsewhere', () => {
+    const points = synthetic(2e16, 3e15, 0.05).map(extractHallPoint);
+    const options = { fitCompensation: true, fitIonizationEnergy: false };
+    const withDoping = { ...conditions, donorConc: 1e18, acceptorConc: 1e17 };
+    expect(fitHallData(points, withDoping, options)).toEqual(fitHallData(points, conditions, options));
+  });
+});
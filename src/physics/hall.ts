@@ -0,0 +1,163 @@
+import { ELEMENTARY_CHARGE } from './constants';
+import { calculateConcentrations, ConcentrationInput } from './engine';
+import { CarrierType } from './transport';
+
+export interface HallMeasurement {
+  temperature: number; // K
+  hallCoefficient: number; // cm^3/C, negative for electrons
+  resistivity: number; // Ω·cm
+  hallFactor: number; // rH = μH/μ, 1 for a degenerate gas, 3π/8 for lattice scattering
+}
+
+export interface HallPoint {
+  temperature: number; // K
+  type: CarrierType;
+  density: number; // cm^-3, majority carrier density
+  hallMobility: number; // cm^2/Vs, |RH|/ρ
+  driftMobility: number; // cm^2/Vs, μH/rH
+}
+
+export interface HallFitOptions {
+  fitCompensation: boolean; // also fit the minority dopant density, otherwise taken as zero
+  fitIonizationEnergy: boolean; // also fit the majority dopant's ionization energy
+}
+
+export interface HallFit {
+  type: CarrierType;
+  donorConc: number; // cm^-3
+  acceptorConc: number; // cm^-3
+  ionizationEnergy: number; // eV, Ec − Ed for n-type, Ea − Ev for p-type
+  rmsLogError: number; // root-mean-square of log10(predicted/measured)
+  iterations: number;
+}
+
+// What a fit holds fixed; the dopant densities come from the data alone
+export type HallFitInput = Omit<ConcentrationInput, 'temperature' | 'donorConc' | 'acceptorConc'>;
+
+// Fitted compensation starts at least this high so that it can be searched in log space
+const MIN_COMPENSATION = 1e8; // cm^-3
+const MAX_ITERATIONS = 400;
+const FIT_TOLERANCE = 1e-10;
+
+// Single-carrier analysis: p or n = rH / (q·|RH|), μH = |RH| / ρ
+export const extractHallPoint = ({ temperature, hallCoefficient, resistivity, hallFactor }: HallMeasurement): HallPoint => {
+  const hallMobility = Math.abs(hallCoefficient) / resistivity;
+  return {
+    temperature,
+    type: hallCoefficient < 0 ? 'n' : 'p',
+    density: hallFactor / (ELEMENTARY_CHARGE * Math.abs(hallCoefficient)),
+    hallMobility,
+    driftMobility: hallMobility / hallFactor
+  };
+};
+
+// The type seen at most temperatures; ties go to n-type
+export const majorityType = (points: HallPoint[]): CarrierType => {
+  const nType = points.filter((point) => point.type === 'n').length;
+  return nType * 2 >= points.length ? 'n' : 'p';
+};
+
+// Downhill simplex (Nelder–Mead) minimisation of a function of a few variables
+const minimize = (f: (x: number[]) => number, start: number[], steps: number[]): { x: number[]; iterations: number } => {
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + steps[i] : value)))]
+    .map((x) => ({ x, value: f(x) }));
+  const combine = (a: number[], b: number[], t: number) => a.map((value, i) => value + t * (b[i] - value));
+
+  let iterations = 0;
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.value - best.value) < FIT_TOLERANCE) break;
+
+    const rest = simplex.slice(0, -1);
+    const centroid = start.map((_, i) => rest.reduce((sum, vertex) => sum + vertex.x[i], 0) / rest.length);
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = f(expanded);
+      simplex[simplex.length - 1] = expandedValue < reflectedValue
+        ? { x: expanded, value: expandedValue }
+        : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[simplex.length - 1] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink towards the best vertex
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex;
+          const x = combine(best.x, vertex.x, 0.5);
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value);
+  return { x: simplex[0].x, iterations };
+};
+
+// Least-squares fit of the dopant densities, and optionally the majority dopant's
+// ionization energy, to the extracted carrier densities. Residuals are taken in
+// log10 so that every temperature weighs the same across the freeze-out range.
+export const fitHallData = (
+  points: HallPoint[],
+  input: HallFitInput,
+  { fitCompensation, fitIonizationEnergy }: HallFitOptions
+): HallFit => {
+  const type = majorityType(points);
+  const used = points.filter((point) => point.type === type);
+  const energyField = type === 'n' ? 'donorIonizationEnergy' : 'acceptorIonizationEnergy';
+
+  const initialMajority = Math.max(...used.map((point) => point.density));
+  const initialCompensation = Math.max(initialMajority * 0.01, MIN_COMPENSATION);
+  const initialEnergy = input.material[energyField];
+
+  // x = [log10 Nmajority, log10 Ncompensation?, ionization energy?]
+  const unpack = (x: number[]) => {
+    let i = 1;
+    const majority = Math.pow(10, x[0]);
+    const compensation = fitCompensation ? Math.pow(10, x[i++]) : 0;
+    const energy = fitIonizationEnergy ? Math.abs(x[i]) : initialEnergy;
+    return {
+      donorConc: type === 'n' ? majority : compensation,
+      acceptorConc: type === 'n' ? compensation : majority,
+      ionizationEnergy: energy
+    };
+  };
+
+  const residuals = (x: number[]) => {
+    const { donorConc, acceptorConc, ionizationEnergy } = unpack(x);
+    const material = { ...input.material, [energyField]: ionizationEnergy };
+    return used.map((point) => {
+      const result = calculateConcentrations({ ...input, material, temperature: point.temperature, donorConc, acceptorConc });
+      return (type === 'n' ? result.log10N : result.log10P) - Math.log10(point.density);
+    });
+  };
+  const sumOfSquares = (x: number[]) => residuals(x).reduce((sum, r) => sum + r * r, 0);
+
+  const start = [Math.log10(initialMajority)];
+  const steps = [0.3];
+  if (fitCompensation) {
+    start.push(Math.log10(initialCompensation));
+    steps.push(1);
+  }
+  if (fitIonizationEnergy) {
+    start.push(initialEnergy);
+    steps.push(Math.max(initialEnergy * 0.3, 0.005));
+  }
+
+  const { x, iterations } = minimize(sumOfSquares, start, steps);
+  const fitted = unpack(x);
+  return {
+    type,
+    ...fitted,
+    rmsLogError: Math.sqrt(sumOfSquares(x) / used.length),
+    iterations
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { solveInverse } from './inverse';
+import { defaultMaterials } from './materials';
+
+const [silicon, germanium] = defaultMaterials;
+const base = { material: silicon, temperature: 300, donorConc: 0, acceptorConc: 0, kB: DEFAULT_KB };
+
+describe('solveInverse', () => {
+  it('finds the donor density that gives a target electron density', () => {
+    const solution = solveInverse({
+      input: { ...base, temperature: 400 },
+      target: 'n',
+      targetValue: 5e17,
+      variable: 'donorConc',
+      min: 1e10,
+      max: 1e21
+    });
+    expect(solution.status).toBe('solved');
+    if (solution.status !== 'solved') return;
+    expect(solution.result.n / 5e17).toBeCloseTo(1, 6);
+    // Incomplete ionization needs more donors than electrons
+    expect(solution.value).toBeGreaterThan(5e17);
+  });
+
+  it('finds the temperature at which germanium goes intrinsic', () => {
+    const solution = solveInverse({
+      input: { ...base, material: germanium, donorConc: 1e15 },
+      target: 'niRatio',
+      targetValue: 0.1,
+      variable: 'temperature',
+      min: 20,
+      max: 800
+    });
+    expect(solution.status).toBe('solved');
+    if (solution.status !== 'solved') return;
+    expect(solution.result.ni / 1e15).toBeCloseTo(0.1, 6);
+    expect(solution.value).toBeGreaterThan(300);
+    expect(solution.value).toBeLessThan(400);
+  });
+
+  it('solves for the Fermi level with acceptors as the free variable', () => {
+    const solution = solveInverse({
+      input: { ...base, ionization: 'complete' },
+      target: 'fermiLevel',
+      targetValue: -0.3,
+      variable: 'acceptorConc',
+      min: 1e10,
+      max: 1e20
+    });
+    expect(solution.status).toBe('solved');
+    if (solution.status !== 'solved') return;
+    expect(solution.result.fermiLevel).toBeCloseTo(-0.3, 9);
+    const check = calculateConcentrations({ ...base, ionization: 'complete', acceptorConc: solution.value });
+    expect(check.fermiLevel).toBeCloseTo(-0.3, 9);
+  });
+
+  it('reports the reachable range when there is no solution', () => {
+    const solution = solveInverse({
+      input: base,
+      target: 'n',
+      targetValue: 1e25,
+      variable: 'donorConc',
+      min: 1e10,
+      max: 1e21
+    });
+    expect(solution.status).toBe('no-solution');
+    if (solution.status !== 'no-solution') return;
+    expect(solution.reason).toContain('does not reach the target');
+    expect(solution.reachable![1]).toBeLessThan(1e21);
+  });
+
+  it('rejects invalid problems', () => {
+    const problem = { input: base, target: 'n' as const, targetValue: 1e16, variable: 'donorConc' as const, min: 1e18, max: 1e12 };
+    expect(solveInverse(problem)).toMatchObject({ status: 'no-solution', reachable: null });
+    expect(solveInverse({ ...problem, min: 1e12, max: 1e18, targetValue: -1 })).toMatchObject({ status: 'no-solution' });
+    expect(solveInverse({ ...problem, target: 'niRatio', variable: 'temperature', min: 200, max: 600 }))
+      .toMatchObject({ reason: 'ni/ND needs a donor concentration' });
+  });
+});
@@ -0,0 +1,130 @@
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult } from './engine';
+import { linearRange, logRange } from './sweep';
+
+// Quantity the solver drives to the requested value
+export type InverseTarget = 'n' | 'p' | 'fermiLevel' | 'niRatio';
+
+// Input the solver is free to adjust
+export type InverseVariable = 'donorConc' | 'acceptorConc' | 'temperature';
+
+export interface InverseProblem {
+  input: ConcentrationInput; // the free variable's value here is ignored
+  target: InverseTarget;
+  targetValue: number; // cm^-3 for n and p, eV for EF - Ei, dimensionless for ni/ND
+  variable: InverseVariable;
+  min: number; // allowed range of the free variable
+  max: number;
+}
+
+export type InverseSolution =
+  | {
+      status: 'solved';
+      value: number; // free variable at the first root in the range
+      result: ConcentrationResult;
+      otherSolutions: number[]; // further roots when the target is not monotonic in the variable
+    }
+  | {
+      status: 'no-solution';
+      reason: string;
+      reachable: [number, number] | null; // target values seen across the range
+    };
+
+export const inverseTargets: Record<InverseTarget, { label: string; unit: string }> = {
+  n: { label: 'Electron density n', unit: 'cm⁻³' },
+  p: { label: 'Hole density p', unit: 'cm⁻³' },
+  fermiLevel: { label: 'Fermi level EF − Ei', unit: 'eV' },
+  niRatio: { label: 'Intrinsic ratio ni/ND', unit: '' }
+};
+
+export const inverseVariables: Record<InverseVariable, { label: string; unit: string }> = {
+  donorConc: { label: 'Donor concentration ND', unit: 'cm⁻³' },
+  acceptorConc: { label: 'Acceptor concentration NA', unit: 'cm⁻³' },
+  temperature: { label: 'Temperature T', unit: 'K' }
+};
+
+// The range is scanned for sign changes before each one is refined by bisection,
+// so targets that are not monotonic in the variable still find every root.
+const SCAN_POINTS = 121;
+const BISECTIONS = 60;
+
+export const targetValueOf = (result: ConcentrationResult, target: InverseTarget, donorConc: number): number => {
+  switch (target) {
+    case 'n':
+      return result.n;
+    case 'p':
+      return result.p;
+    case 'fermiLevel':
+      return result.fermiLevel;
+    case 'niRatio':
+      return result.ni / donorConc;
+  }
+};
+
+const isPositiveTarget = (target: InverseTarget) => target !== 'fermiLevel';
+
+const validateProblem = ({ target, targetValue, variable, min, max, input }: InverseProblem): string | null => {
+  if (!Number.isFinite(targetValue)) return 'Target value must be a number';
+  if (isPositiveTarget(target) && targetValue <= 0) return `${inverseTargets[target].label} must be positive`;
+  if (!(min < max)) return 'The upper bound of the range must be greater than the lower bound';
+  if (min <= 0) return `${inverseVariables[variable].label} must be searched over positive values`;
+  if (target === 'niRatio' && variable !== 'donorConc' && input.donorConc <= 0) {
+    return 'ni/ND needs a donor concentration';
+  }
+  return null;
+};
+
+export const solveInverse = (problem: InverseProblem): InverseSolution => {
+  const invalid = validateProblem(problem);
+  if (invalid !== null) return { status: 'no-solution', reason: invalid, reachable: null };
+
+  const { input, target, targetValue, variable, min, max } = problem;
+  const evaluate = (value: number) => {
+    const result = calculateConcentrations({ ...input, [variable]: value });
+    const achieved = targetValueOf(result, target, variable === 'donorConc' ? value : input.donorConc);
+    // Densities span many decades, so their mismatch is compared in log space
+    const residual = isPositiveTarget(target) ? Math.log(achieved / targetValue) : achieved - targetValue;
+    return { value, result, achieved, residual };
+  };
+
+  // Dopings are scanned and bisected on a log scale, temperature linearly
+  const logScale = variable !== 'temperature';
+  const toSearch = (value: number) => (logScale ? Math.log10(value) : value);
+  const fromSearch = (x: number) => (logScale ? Math.pow(10, x) : x);
+
+  const samples = (logScale ? logRange(min, max, SCAN_POINTS) : linearRange(min, max, SCAN_POINTS))
+    .map(evaluate)
+    .filter((sample) => !Number.isNaN(sample.residual));
+
+  const roots: number[] = [];
+  samples.forEach((sample, i) => {
+    if (sample.residual === 0) {
+      roots.push(sample.value);
+      return;
+    }
+    const next = samples[i + 1];
+    if (next === undefined || next.residual === 0 || Math.sign(next.residual) === Math.sign(sample.residual)) return;
+
+    let low = toSearch(sample.value);
+    let high = toSearch(next.value);
+    for (let k = 0; k < BISECTIONS; k++) {
+      const mid = (low + high) / 2;
+      if (Math.sign(evaluate(fromSearch(mid)).residual) === Math.sign(sample.residual)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    roots.push(fromSearch((low + high) / 2));
+  });
+
+  if (roots.length === 0) {
+    const reached = samples.map((sample) => sample.achieved);
+    return {
+      status: 'no-solution',
+      reason: `${inverseTargets[target].label} does not reach the target anywhere in the allowed ${inverseVariables[variable].label} range`,
+      reachable: reached.length > 0 ? [Math.min(...reached), Math.max(...reached)] : null
+    };
+  }
+
+  return { status: 'solved', value: roots[0], result: evaluate(roots[0]).result, otherSolutions: roots.slice(1) };
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB, ELEMENTARY_CHARGE, VACUUM_PERMITTIVITY } from './constants';
+import { calculateJunction, junctionProfile, sweepReverseBias } from './junction';
+import { defaultMaterials } from './materials';
+
+const silicon = defaultMaterials[0];
+const input = {
+  material: silicon,
+  temperature: 300,
+  kB: DEFAULT_KB,
+  ionization: 'complete' as const,
+  acceptorConc: 1e17,
+  donorConc: 1e16
+};
+const permittivity = silicon.relativePermittivity * VACUUM_PERMITTIVITY;
+
+describe('calculateJunction', () => {
+  it('gives the textbook built-in potential', () => {
+    const junction = calculateJunction(input);
+    const ni = junction.nSide.ni;
+    expect(junction.builtInPotential).toBeCloseTo(DEFAULT_KB * 300 * Math.log(1e17 * 1e16 / ni ** 2), 9);
+    expect(junction.builtInPotential).toBeGreaterThan(0.7);
+    expect(junction.builtInPotential).toBeLessThan(0.85);
+  });
+
+  it('uses each side\'s narrowed intrinsic density', () => {
+    const heavy = { ...input, acceptorConc: 1e19, donorConc: 1e18 };
+    const plain = calculateJunction(heavy);
+    const narrowed = calculateJunction({ ...heavy, narrowing: 'slotboom' });
+    const { pSide, nSide } = narrowed;
+    expect(pSide.bandgap).toBeLessThan(nSide.bandgap);
+    expect(narrowed.builtInPotential).toBeCloseTo(DEFAULT_KB * 300 * Math.log(1e19 * 1e18 / (pSide.ni * nSide.ni)), 9);
+    expect(narrowed.builtInPotential).toBeLessThan(plain.builtInPotential - 0.05);
+  });
+
+  it('balances the depletion charge and matches the closed-form width', () => {
+    const junction = calculateJunction(input);
+    expect(1e17 * junction.pDepletionWidth).toBeCloseTo(1e16 * junction.nDepletionWidth, -2);
+    expect(junction.pDepletionWidth + junction.nDepletionWidth).toBeCloseTo(junction.depletionWidth, 15);
+    const expected = Math.sqrt(2 * permittivity * junction.builtInPotential / ELEMENTARY_CHARGE * (1 / 1e17 + 1 / 1e16));
+    expect(junction.depletionWidth / expected).toBeCloseTo(1, 12);
+    // About 0.33 µm, almost all of it on the lightly doped n side
+    expect(junction.depletionWidth * 1e4).toBeGreaterThan(0.3);
+    expect(junction.depletionWidth * 1e4).toBeLessThan(0.36);
+    // The triangular field profile integrates to the junction voltage
+    expect(junction.peakField * junction.depletionWidth / 2).toBeCloseTo(junction.builtInPotential, 9);
+    expect(junction.capacitance).toBeCloseTo(permittivity / junction.depletionWidth, 20);
+  });
+
+  it('widens the depletion region under reverse bias', () => {
+    const [zero, five] = sweepReverseBias(input, [0, 5]).map((point) => point.junction);
+    expect(five.depletionWidth / zero.depletionWidth)
+      .toBeCloseTo(Math.sqrt((zero.builtInPotential + 5) / zero.builtInPotential), 9);
+    expect(five.capacitance).toBeLessThan(zero.capacitance);
+    expect(five.peakField).toBeGreaterThan(zero.peakField);
+  });
+
+  it('uses the ionized carrier densities for the built-in potential', () => {
+    // Freeze-out leaves fewer majority carriers, so the Fermi levels sit closer to midgap
+    const complete = calculateJunction({ ...input, temperature: 100 });
+    const incomplete = calculateJunction({ ...input, temperature: 100, ionization: 'incomplete' });
+    expect(incomplete.builtInPotential).toBeLessThan(complete.builtInPotential);
+  });
+});
+
+describe('junctionProfile', () => {
+  it('aligns the Fermi level at zero bias and bends the bands by Vbi', () => {
+    const junction = calculateJunction(input);
+    const profile = junctionProfile(input, junction, 201);
+    const first = profile[0];
+    const last = profile[profile.length - 1];
+    expect(first.EFp).toBeCloseTo(last.EFn, 9);
+    expect(first.Ec - last.Ec).toBeCloseTo(junction.builtInPotential, 9);
+    expect(first.EFn).toBeNaN();
+    expect(last.EFp).toBeNaN();
+  });
+
+  it('splits the quasi-Fermi levels by the reverse bias', () => {
+    const junction = calculateJunction(input, 2);
+    const profile = junctionProfile(input, junction, 201);
+    const inside = profile.find((point) => point.x > 0 && point.x < junction.nDepletionWidth)!;
+    expect(inside.EFp - inside.EFn).toBeCloseTo(2, 9);
+  });
+
+  it('narrows each side by its own doping', () => {
+    const heavy = { ...input, acceptorConc: 1e19, narrowing: 'slotboom' as const };
+    const junction = calculateJunction(heavy);
+    const profile = junctionProfile(heavy, junction, 201);
+    const first = profile[0];
+    const last = profile[profile.length - 1];
+    expect(junction.pSide.bandgap).toBeLessThan(junction.nSide.bandgap);
+    expect(first.Ec - first.Ev).toBeCloseTo(junction.pSide.bandgap, 12);
+    expect(last.Ec - last.Ev).toBeCloseTo(junction.nSide.bandgap, 12);
+    expect(first.EFp).toBeCloseTo(last.EFn, 9);
+  });
+
+  it('keeps the band edges continuous', () => {
+    const junction = calculateJunction(input);
+    const profile = junctionProfile(input, junction, 2001);
+    const maxStep = Math.max(...profile.slice(1).map((point, i) => Math.abs(point.Ec - profile[i].Ec)));
+    expect(maxStep).toBeLessThan(0.01);
+  });
+});
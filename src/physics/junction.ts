@@ -0,0 +1,121 @@
+import { ELEMENTARY_CHARGE, VACUUM_PERMITTIVITY } from './constants';
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult } from './engine';
+import { linearRange } from './sweep';
+
+export interface JunctionInput extends Omit<ConcentrationInput, 'donorConc' | 'acceptorConc'> {
+  acceptorConc: number; // cm^-3, p side
+  donorConc: number; // cm^-3, n side
+}
+
+export interface JunctionResult {
+  pSide: ConcentrationResult; // neutral p region
+  nSide: ConcentrationResult; // neutral n region
+  builtInPotential: number; // V
+  reverseBias: number; // V
+  depletionWidth: number; // cm
+  pDepletionWidth: number; // cm, xp
+  nDepletionWidth: number; // cm, xn
+  peakField: number; // V/cm, at the metallurgical junction
+  capacitance: number; // F/cm^2
+}
+
+export interface BiasPoint {
+  reverseBias: number; // V
+  junction: JunctionResult;
+}
+
+export interface JunctionProfilePoint {
+  x: number; // cm, metallurgical junction at 0 and p side at x < 0
+  Ec: number; // eV, measured from Ev in the neutral n region
+  Ev: number;
+  Ei: number;
+  EFn: number; // electron quasi-Fermi level, NaN inside the neutral p region
+  EFp: number; // hole quasi-Fermi level, NaN inside the neutral n region
+}
+
+// Neutral regions shown either side of the depletion region, as a fraction of W
+const PROFILE_MARGIN = 0.5;
+
+const fermiLevelFromMidgap = (side: ConcentrationResult) => side.fermiLevelFromEv - side.bandgap / 2;
+
+// Abrupt junction in the depletion approximation. The built-in potential
+// comes from the separation of the Fermi levels in the two neutral regions,
+// so it inherits the engine's ionization and statistics models; inside the
+// depletion region EF is far from the dopant levels and every dopant is ionized.
+export const calculateJunction = (input: JunctionInput, reverseBias = 0): JunctionResult => {
+  const { acceptorConc, donorConc, ...conditions } = input;
+  const pSide = calculateConcentrations({ ...conditions, donorConc: 0, acceptorConc });
+  const nSide = calculateConcentrations({ ...conditions, donorConc, acceptorConc: 0 });
+
+  // Each side's EF is placed within its own narrowed gap. Narrowing moves Ec
+  // and Ev by equal amounts, so the un-narrowed midgap is common to both sides
+  // and Vbi = kT·ln(NA·ND / (nie,p·nie,n)) for complete ionization.
+  const builtInPotential = fermiLevelFromMidgap(nSide) - fermiLevelFromMidgap(pSide);
+  const permittivity = input.material.relativePermittivity * VACUUM_PERMITTIVITY;
+  const junctionVoltage = Math.max(builtInPotential + reverseBias, 0);
+
+  const depletionWidth = Math.sqrt(
+    2 * permittivity * junctionVoltage / ELEMENTARY_CHARGE * (acceptorConc + donorConc) / (acceptorConc * donorConc)
+  );
+  // Charge balance NA·xp = ND·xn
+  const nDepletionWidth = depletionWidth * acceptorConc / (acceptorConc + donorConc);
+  const pDepletionWidth = depletionWidth * donorConc / (acceptorConc + donorConc);
+
+  return {
+    pSide,
+    nSide,
+    builtInPotential,
+    reverseBias,
+    depletionWidth,
+    pDepletionWidth,
+    nDepletionWidth,
+    peakField: ELEMENTARY_CHARGE * donorConc * nDepletionWidth / permittivity,
+    capacitance: permittivity / depletionWidth
+  };
+};
+
+export const sweepReverseBias = (input: JunctionInput, biases: number[]): BiasPoint[] => {
+  return biases.map((reverseBias) => ({ reverseBias, junction: calculateJunction(input, reverseBias) }));
+};
+
+// Band edges across the junction from the parabolic depletion-region potential
+export const junctionProfile = (
+  input: JunctionInput,
+  junction: JunctionResult,
+  points: number
+): JunctionProfilePoint[] => {
+  const { pSide, nSide, depletionWidth, pDepletionWidth: xp, nDepletionWidth: xn } = junction;
+  const permittivity = input.material.relativePermittivity * VACUUM_PERMITTIVITY;
+  // Bandgap narrowing follows the local doping, symmetric about midgap
+  const midgap = nSide.bandgap / 2;
+  const gapAt = (x: number) => (x < 0 ? pSide.bandgap : nSide.bandgap);
+
+  // Upward band bending (eV) relative to the neutral n region
+  const bending = (x: number): number => {
+    if (x <= -xp) return junction.builtInPotential + junction.reverseBias;
+    if (x <= 0) {
+      return junction.builtInPotential + junction.reverseBias
+        - ELEMENTARY_CHARGE * input.acceptorConc * (x + xp) ** 2 / (2 * permittivity);
+    }
+    if (x < xn) return ELEMENTARY_CHARGE * input.donorConc * (xn - x) ** 2 / (2 * permittivity);
+    return 0;
+  };
+
+  // Quasi-Fermi levels stay flat through the depletion region
+  const EFn = nSide.fermiLevelFromEv;
+  const EFp = bending(-xp) + midgap - pSide.bandgap / 2 + pSide.fermiLevelFromEv;
+  const margin = PROFILE_MARGIN * depletionWidth;
+
+  return linearRange(-xp - margin, xn + margin, points).map((x) => {
+    const U = bending(x);
+    const halfGap = gapAt(x) / 2;
+    return {
+      x,
+      Ec: U + midgap + halfGap,
+      Ev: U + midgap - halfGap,
+      Ei: U + midgap + nSide.intrinsicOffset,
+      EFn: x >= -xp ? EFn : NaN,
+      EFp: x <= xn ? EFp : NaN
+    };
+  });
+};
@@ -0,0 +1,158 @@
+export type BandgapModel = 'linear' | 'varshni' | 'bose-einstein';
+
+// 'fixed' scales the stored 300 K values by (T/300)^1.5; 'effective-mass'
+// computes Nc and Nv from the density-of-states masses and the physical constants.
+export type DensityOfStatesModel = 'fixed' | 'effective-mass';
+
+// Generalized Caughey–Thomas/Arora mobility model, with t = T/300:
+// μ = μmin·t^β1 + μ0·t^β2 / (1 + (N / (Nref·t^β3))^(α·t^β4))
+export interface MobilityParameters {
+  muMin: number; // cm^2/Vs
+  mu0: number; // cm^2/Vs
+  Nref: number; // cm^-3
+  alpha: number;
+  betaMin: number; // β1
+  beta0: number; // β2
+  betaRef: number; // β3
+  betaAlpha: number; // β4
+}
+
+// Bandgap narrowing ΔEg = E0·[ln(N/Nref) + √(ln²(N/Nref) + C)]
+export interface NarrowingParameters {
+  E0: number; // eV
+  Nref: number; // cm^-3
+  C: number;
+}
+
+export interface MaterialProperties {
+  id: string;
+  name: string;
+  bandgapModel: BandgapModel;
+  bandgap: number; // eV at 300K (linear model)
+  densityOfStatesModel: DensityOfStatesModel;
+  Nc300: number; // cm^-3 at 300K (fixed model)
+  Nv300: number; // cm^-3 at 300K (fixed model)
+  electronDosMass: number; // m*e/m0 for a single conduction band valley
+  holeDosMass: number; // m*h/m0, light and heavy holes combined
+  conductionValleys: number; // equivalent conduction band minima
+  temperatureCoeff: number; // eV/K for bandgap (linear model)
+  Eg0: number; // eV at 0K (Varshni and Bose–Einstein models)
+  varshniAlpha: number; // eV/K
+  varshniBeta: number; // K
+  boseEinsteinAB: number; // eV, electron-phonon coupling strength
+  boseEinsteinTheta: number; // K, average phonon temperature
+  minTemperature: number; // K, lower end of the range the temperature models were fitted over
+  maxTemperature: number; // K, upper end of that range
+  donorIonizationEnergy: number; // eV, Ec - Ed
+  acceptorIonizationEnergy: number; // eV, Ea - Ev
+  donorDegeneracy: number; // gD
+  acceptorDegeneracy: number; // gA
+  relativePermittivity: number; // εr, static dielectric constant
+  electronMobility: MobilityParameters;
+  holeMobility: MobilityParameters;
+  slotboomNarrowing: NarrowingParameters;
+  delAlamoNarrowing: NarrowingParameters;
+}
+
+// Varshni parameters, and the Si Nc and Nv, from Sze & Ng, Physics of
+// Semiconductor Devices (3rd ed.); together they give the tabulated Si ni of 9.65e9.
+// Bose–Einstein parameters are least-squares fits to those Varshni curves
+// over 20–600 K and agree with them to within 5 meV; that range is stored as
+// each material's fitted temperature range.
+// Mobility: Si from Arora et al., IEEE TED 29, 292 (1982); GaAs from
+// Sotoodeh et al., J. Appl. Phys. 87, 2890 (2000) recast in the Arora form;
+// Ge uses representative Caughey–Thomas fits with lattice-scattering exponents.
+// Bandgap narrowing: Si from Slotboom & de Graaff, Solid-State Electron. 20, 279
+// (1977) and del Alamo et al., IEEE EDL 6, 519 (1985); Ge and GaAs are
+// representative fits of the same form.
+// Density-of-states masses reproduce the stored 300 K Nc and Nv to within 8%;
+// Ge counts its eight half-valleys at L as four.
+export const defaultMaterials: MaterialProperties[] = [
+  {
+    id: 'silicon',
+    name: 'Silicon',
+    bandgapModel: 'varshni',
+    densityOfStatesModel: 'fixed',
+    bandgap: 1.12,
+    Nc300: 2.8e19,
+    Nv300: 2.65e19,
+    electronDosMass: 0.328,
+    holeDosMass: 1.04,
+    conductionValleys: 6,
+    temperatureCoeff: -2.73e-4,
+    Eg0: 1.17,
+    varshniAlpha: 4.73e-4,
+    varshniBeta: 636,
+    boseEinsteinAB: 0.0576,
+    boseEinsteinTheta: 372,
+    minTemperature: 20,
+    maxTemperature: 600,
+    donorIonizationEnergy: 0.045, // P
+    acceptorIonizationEnergy: 0.045, // B
+    donorDegeneracy: 2,
+    acceptorDegeneracy: 4,
+    relativePermittivity: 11.7,
+    electronMobility: { muMin: 88, mu0: 1252, Nref: 1.26e17, alpha: 0.88, betaMin: -0.57, beta0: -2.33, betaRef: 2.4, betaAlpha: -0.146 },
+    holeMobility: { muMin: 54.3, mu0: 407, Nref: 2.35e17, alpha: 0.88, betaMin: -0.57, beta0: -2.23, betaRef: 2.4, betaAlpha: -0.146 },
+    slotboomNarrowing: { E0: 9e-3, Nref: 1e17, C: 0.5 },
+    delAlamoNarrowing: { E0: 9.35e-3, Nref: 7e17, C: 0 }
+  },
+  {
+    id: 'germanium',
+    name: 'Germanium',
+    bandgapModel: 'varshni',
+    densityOfStatesModel: 'fixed',
+    bandgap: 0.66,
+    Nc300: 1.04e19,
+    Nv300: 6.0e18,
+    electronDosMass: 0.22,
+    holeDosMass: 0.37,
+    conductionValleys: 4,
+    temperatureCoeff: -3.9e-4,
+    Eg0: 0.7437,
+    varshniAlpha: 4.774e-4,
+    varshniBeta: 235,
+    boseEinsteinAB: 0.0453,
+    boseEinsteinTheta: 222,
+    minTemperature: 20,
+    maxTemperature: 600,
+    donorIonizationEnergy: 0.0127, // As
+    acceptorIonizationEnergy: 0.0104, // B
+    donorDegeneracy: 2,
+    acceptorDegeneracy: 4,
+    relativePermittivity: 16.0,
+    electronMobility: { muMin: 850, mu0: 3050, Nref: 2.6e17, alpha: 0.56, betaMin: 0, beta0: -1.66, betaRef: 2.4, betaAlpha: 0 },
+    holeMobility: { muMin: 300, mu0: 1600, Nref: 1e17, alpha: 1.0, betaMin: 0, beta0: -2.33, betaRef: 2.4, betaAlpha: 0 },
+    slotboomNarrowing: { E0: 7e-3, Nref: 1e17, C: 0.5 },
+    delAlamoNarrowing: { E0: 7.5e-3, Nref: 5e17, C: 0 }
+  },
+  {
+    id: 'gaas',
+    name: 'GaAs',
+    bandgapModel: 'varshni',
+    densityOfStatesModel: 'fixed',
+    bandgap: 1.42,
+    Nc300: 4.7e17,
+    Nv300: 7.0e18,
+    electronDosMass: 0.067,
+    holeDosMass: 0.45,
+    conductionValleys: 1,
+    temperatureCoeff: -5.4e-4,
+    Eg0: 1.519,
+    varshniAlpha: 5.405e-4,
+    varshniBeta: 204,
+    boseEinsteinAB: 0.0476,
+    boseEinsteinTheta: 202,
+    minTemperature: 20,
+    maxTemperature: 600,
+    donorIonizationEnergy: 0.0058, // Si
+    acceptorIonizationEnergy: 0.026, // C
+    donorDegeneracy: 2,
+    acceptorDegeneracy: 4,
+    relativePermittivity: 12.9,
+    electronMobility: { muMin: 500, mu0: 8900, Nref: 6e16, alpha: 0.394, betaMin: 0, beta0: -2.1, betaRef: 3.0, betaAlpha: 0 },
+    holeMobility: { muMin: 20, mu0: 471.5, Nref: 1.48e17, alpha: 0.38, betaMin: 0, beta0: -2.2, betaRef: 3.0, betaAlpha: 0 },
+    slotboomNarrowing: { E0: 4.2e-3, Nref: 1e17, C: 0.5 },
+    delAlamoNarrowing: { E0: 4.35e-3, Nref: 1e17, C: 0 }
+  }
+];
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { defaultMaterials } from './materials';
+import { bandgapNarrowingAt } from './narrowing';
+
+const silicon = defaultMaterials[0];
+
+describe('bandgapNarrowingAt', () => {
+  it('is zero without a model or doping', () => {
+    expect(bandgapNarrowingAt(silicon, 'none', 1e20)).toBe(0);
+    expect(bandgapNarrowingAt(silicon, 'slotboom', 0)).toBe(0);
+  });
+
+  it('reproduces the published silicon fits', () => {
+    // del Alamo: 18.7 meV · ln(N / 7e17)
+    expect(bandgapNarrowingAt(silicon, 'del-alamo', 1e19)).toBeCloseTo(0.0187 * Math.log(1e19 / 7e17), 9);
+    expect(bandgapNarrowingAt(silicon, 'del-alamo', 1e17)).toBe(0);
+    // Slotboom–de Graaff: about 80 meV at 1e19 and a few meV at 1e17
+    expect(bandgapNarrowingAt(silicon, 'slotboom', 1e19)).toBeCloseTo(0.083, 3);
+    expect(bandgapNarrowingAt(silicon, 'slotboom', 1e17)).toBeCloseTo(0.009 * Math.sqrt(0.5), 9);
+  });
+
+  it('grows monotonically with doping', () => {
+    const doping = [1e16, 1e17, 1e18, 1e19, 1e20];
+    const narrowing = doping.map((N) => bandgapNarrowingAt(silicon, 'slotboom', N));
+    narrowing.slice(1).forEach((value, index) => expect(value).toBeGreaterThan(narrowing[index]));
+  });
+});
+
+describe('calculateConcentrations with bandgap narrowing', () => {
+  const input = { material: silicon, temperature: 300, donorConc: 1e19, acceptorConc: 0, kB: DEFAULT_KB };
+
+  it('raises ni by exp(ΔEg / 2kT)', () => {
+    const nominal = calculateConcentrations(input);
+    const narrowed = calculateConcentrations({ ...input, narrowing: 'slotboom' });
+    const kT = DEFAULT_KB * 300;
+    expect(narrowed.nominalBandgap).toBe(nominal.bandgap);
+    expect(narrowed.bandgap).toBeCloseTo(nominal.bandgap - narrowed.bandgapNarrowing, 12);
+    expect(narrowed.ni / nominal.ni).toBeCloseTo(Math.exp(narrowed.bandgapNarrowing / (2 * kT)), 9);
+    expect(narrowed.ni).toBeGreaterThan(4 * nominal.ni);
+  });
+
+  it('leaves lightly doped material untouched under del Alamo', () => {
+    const light = { ...input, donorConc: 1e16 };
+    expect(calculateConcentrations({ ...light, narrowing: 'del-alamo' })).toEqual(calculateConcentrations(light));
+  });
+});
@@ -0,0 +1,41 @@
+import { MaterialProperties, NarrowingParameters } from './materials';
+
+// Heavy doping shrinks the gap; 'none' keeps the nominal Eg(T).
+export type BandgapNarrowingModel = 'none' | 'slotboom' | 'del-alamo';
+
+export interface BandgapNarrowingModelInfo {
+  label: string;
+  formula: string;
+}
+
+export const bandgapNarrowingModels: Record<BandgapNarrowingModel, BandgapNarrowingModelInfo> = {
+  none: {
+    label: 'None',
+    formula: 'Eg,eff = Eg(T)'
+  },
+  slotboom: {
+    label: 'Slotboom–de Graaff',
+    formula: 'ΔEg = E0 [ln(N/Nref) + √(ln²(N/Nref) + C)]'
+  },
+  'del-alamo': {
+    label: 'del Alamo',
+    formula: 'ΔEg = 2E0 ln(N/Nref) for N > Nref'
+  }
+};
+
+const parametersFor = (material: MaterialProperties, model: Exclude<BandgapNarrowingModel, 'none'>): NarrowingParameters => {
+  return model === 'slotboom' ? material.slotboomNarrowing : material.delAlamoNarrowing;
+};
+
+// Both fits share the Slotboom form; del Alamo's C = 0 makes it vanish below Nref.
+// N is the total dopant density ND + NA, since both species perturb the bands.
+export const bandgapNarrowingAt = (
+  material: MaterialProperties,
+  model: BandgapNarrowingModel,
+  totalDoping: number
+): number => {
+  if (model === 'none' || totalDoping <= 0) return 0;
+  const { E0, Nref, C } = parametersFor(material, model);
+  const logRatio = Math.log(totalDoping / Nref);
+  return Math.max(0, E0 * (logRatio + Math.sqrt(logRatio * logRatio + C)));
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { defaultMaterials } from './materials';
+import { defaultRecombination, recombinationDefaults, recombinationRates, solveSteadyState } from './recombination';
+
+const kT = DEFAULT_KB * 300;
+const nType = calculateConcentrations({
+  material: defaultMaterials[0],
+  temperature: 300,
+  donorConc: 1e16,
+  acceptorConc: 0,
+  kB: DEFAULT_KB,
+  ionization: 'complete'
+});
+const srhOnly = { ...defaultRecombination, radiative: 0, augerN: 0, augerP: 0 };
+
+describe('solveSteadyState', () => {
+  it('stays at equilibrium without generation', () => {
+    const state = solveSteadyState(nType, kT, 0, defaultRecombination);
+    expect(state.excessCarriers).toBe(0);
+    expect(state.injectionLevel).toBe('equilibrium');
+    expect(state.npRatio).toBeCloseTo(1, 9);
+    expect(state.quasiFermiElectrons).toBeCloseTo(state.quasiFermiHoles, 12);
+  });
+
+  it('reduces to Δp = G·τp in low injection', () => {
+    const state = solveSteadyState(nType, kT, 1e18, srhOnly);
+    expect(state.injectionLevel).toBe('low');
+    expect(state.excessCarriers / (1e18 * srhOnly.tauP)).toBeCloseTo(1, 2);
+    // Majority quasi-Fermi level barely moves, the minority one moves a long way
+    expect(state.quasiFermiElectrons - nType.fermiLevel).toBeLessThan(1e-4);
+    expect(nType.fermiLevel - state.quasiFermiHoles).toBeGreaterThan(0.3);
+  });
+
+  it('balances generation and recombination', () => {
+    const generation = 1e21;
+    const state = solveSteadyState(nType, kT, generation, defaultRecombination);
+    const { srh, radiative, auger } = recombinationRates(nType, state.excessCarriers, defaultRecombination);
+    expect((srh + radiative + auger) / generation).toBeCloseTo(1, 9);
+    expect(state.effectiveLifetime).toBeCloseTo(state.excessCarriers / generation, 20);
+  });
+
+  it('splits the quasi-Fermi levels by kT·ln(np/ni²) in high injection', () => {
+    const state = solveSteadyState(nType, kT, 1e24, defaultRecombination);
+    expect(state.injectionLevel).toBe('high');
+    expect(state.quasiFermiElectrons - state.quasiFermiHoles).toBeCloseTo(kT * Math.log(state.npRatio), 9);
+    // Auger recombination shortens the effective lifetime at high injection
+    expect(state.effectiveLifetime).toBeLessThan(defaultRecombination.tauP);
+    expect(state.rates.auger).toBeGreaterThan(state.rates.radiative);
+  });
+
+  it('keeps the quasi-Fermi levels finite where the equilibrium minority density underflows', () => {
+    const cold = calculateConcentrations({
+      material: defaultMaterials[2],
+      temperature: 15,
+      donorConc: 1e16,
+      acceptorConc: 0,
+      kB: DEFAULT_KB,
+      ionization: 'complete'
+    });
+    const coldKT = DEFAULT_KB * 15;
+    const state = solveSteadyState(cold, coldKT, 1e18, recombinationDefaults.gaas);
+    expect(cold.p).toBe(0);
+    expect(state.log10P).toBeCloseTo(Math.log10(state.excessCarriers), 9);
+    expect(Number.isFinite(state.quasiFermiHoles)).toBe(true);
+    expect(state.quasiFermiElectrons - state.quasiFermiHoles)
+      .toBeCloseTo(coldKT * Math.LN10 * (state.log10N + state.log10P - 2 * cold.log10Ni), 6);
+  });
+});
@@ -0,0 +1,139 @@
+import { ConcentrationResult } from './engine';
+
+export interface RecombinationParameters {
+  tauN: number; // s, SRH electron lifetime
+  tauP: number; // s, SRH hole lifetime
+  radiative: number; // cm^3/s, B
+  augerN: number; // cm^6/s, Cn
+  augerP: number; // cm^6/s, Cp
+}
+
+// 'low' while the excess density stays below LOW_INJECTION_RATIO of the
+// majority density, 'high' once it exceeds the majority density itself.
+export type InjectionLevel = 'equilibrium' | 'low' | 'moderate' | 'high';
+
+export interface RecombinationRates {
+  srh: number; // cm^-3 s^-1
+  radiative: number;
+  auger: number;
+}
+
+export interface SteadyStateResult {
+  excessCarriers: number; // cm^-3, Δn = Δp
+  n: number; // cm^-3
+  p: number; // cm^-3
+  log10N: number; // log10 of n, finite where the equilibrium density underflows
+  log10P: number;
+  quasiFermiElectrons: number; // eV, EFn - Ei
+  quasiFermiHoles: number; // eV, EFp - Ei
+  npRatio: number; // n·p / ni²
+  injectionLevel: InjectionLevel;
+  effectiveLifetime: number; // s, Δn / G
+  rates: RecombinationRates;
+}
+
+// Representative values for the built-in materials, keyed by material id.
+// Si: Trupke et al. (2003) for B and Dziewior & Schmid (1977) for the Auger
+// coefficients. Ge and GaAs: Levinshtein, Rumyantsev & Shur, Handbook Series on
+// Semiconductor Parameters, vol. 1 (1996). SRH lifetimes depend on the sample
+// and are only typical of good material.
+export const recombinationDefaults: Record<string, RecombinationParameters> = {
+  silicon: { tauN: 1e-5, tauP: 1e-5, radiative: 4.73e-15, augerN: 2.8e-31, augerP: 9.9e-32 },
+  germanium: { tauN: 1e-5, tauP: 1e-5, radiative: 6.41e-14, augerN: 1e-30, augerP: 1e-30 },
+  gaas: { tauN: 1e-8, tauP: 1e-8, radiative: 7.2e-10, augerN: 1e-30, augerP: 1e-30 }
+};
+
+// Used for new scenarios and for materials without their own values
+export const defaultRecombination = recombinationDefaults.silicon;
+
+export const LOW_INJECTION_RATIO = 0.1;
+
+const MAX_BRACKET_EXPANSIONS = 200;
+const BISECTIONS = 100;
+
+// Net recombination through midgap SRH centres, band-to-band radiative and Auger
+// processes. n·p - n0·p0 is expanded as Δ(n0 + p0 + Δ) to avoid cancellation.
+export const recombinationRates = (
+  equilibrium: ConcentrationResult,
+  excess: number,
+  params: RecombinationParameters
+): RecombinationRates => {
+  const { n: n0, p: p0, ni } = equilibrium;
+  const n = n0 + excess;
+  const p = p0 + excess;
+  const excessProduct = excess * (n0 + p0 + excess);
+  return {
+    srh: excessProduct / (params.tauP * (n + ni) + params.tauN * (p + ni)),
+    radiative: params.radiative * excessProduct,
+    auger: (params.augerN * n + params.augerP * p) * excessProduct
+  };
+};
+
+const totalRate = ({ srh, radiative, auger }: RecombinationRates) => srh + radiative + auger;
+
+export const classifyInjection = (excess: number, equilibrium: ConcentrationResult): InjectionLevel => {
+  if (excess <= 0) return 'equilibrium';
+  const majority = Math.max(equilibrium.n, equilibrium.p);
+  if (excess < LOW_INJECTION_RATIO * majority) return 'low';
+  return excess > majority ? 'high' : 'moderate';
+};
+
+// Steady state G = U(Δn) with equal excess electrons and holes. The net
+// recombination rate grows monotonically with Δn, so the root is bracketed
+// by doubling and then bisected on a log scale.
+export const solveSteadyState = (
+  equilibrium: ConcentrationResult,
+  kT: number,
+  generationRate: number,
+  params: RecombinationParameters
+): SteadyStateResult => {
+  const { n: n0, p: p0 } = equilibrium;
+  const rateAt = (excess: number) => totalRate(recombinationRates(equilibrium, excess, params));
+
+  let excess = 0;
+  if (generationRate > 0) {
+    let high = generationRate * Math.min(params.tauN, params.tauP);
+    for (let i = 0; i < MAX_BRACKET_EXPANSIONS && rateAt(high) < generationRate; i++) high *= 2;
+    let low = high;
+    for (let i = 0; i < MAX_BRACKET_EXPANSIONS && rateAt(low) > generationRate; i++) low /= 2;
+
+    let logLow = Math.log(low);
+    let logHigh = Math.log(high);
+    for (let i = 0; i < BISECTIONS; i++) {
+      const mid = (logLow + logHigh) / 2;
+      if (rateAt(Math.exp(mid)) < generationRate) {
+        logLow = mid;
+      } else {
+        logHigh = mid;
+      }
+    }
+    excess = Math.exp((logLow + logHigh) / 2);
+  }
+
+  // log10(n0 + Δn) from log10(n0), which stays finite where n0 underflows
+  const log10Plus = (log10Equilibrium: number) => {
+    if (excess === 0) return log10Equilibrium;
+    const larger = Math.max(log10Equilibrium, Math.log10(excess));
+    const smaller = Math.min(log10Equilibrium, Math.log10(excess));
+    return larger + Math.log10(1 + 10 ** (smaller - larger));
+  };
+  const log10N = log10Plus(equilibrium.log10N);
+  const log10P = log10Plus(equilibrium.log10P);
+  // Quasi-Fermi levels are shifted from the equilibrium EF in the non-degenerate limit
+  const quasiFermiElectrons = equilibrium.fermiLevel + kT * Math.LN10 * (log10N - equilibrium.log10N);
+  const quasiFermiHoles = equilibrium.fermiLevel - kT * Math.LN10 * (log10P - equilibrium.log10P);
+
+  return {
+    excessCarriers: excess,
+    n: n0 + excess,
+    p: p0 + excess,
+    log10N,
+    log10P,
+    quasiFermiElectrons,
+    quasiFermiHoles,
+    npRatio: 10 ** (log10N + log10P - 2 * equilibrium.log10Ni),
+    injectionLevel: classifyInjection(excess, equilibrium),
+    effectiveLifetime: generationRate > 0 ? excess / generationRate : NaN,
+    rates: recombinationRates(equilibrium, excess, params)
+  };
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { defaultMaterials } from './materials';
+import {
+  activationEnergy,
+  findDegeneracyOnset,
+  findTypeTransitions,
+  linearRange,
+  logRange,
+  sweepDoping,
+  sweepTemperature
+} from './sweep';
+
+describe('linearRange', () => {
+  it('includes both end points', () => {
+    expect(linearRange(200, 500, 4)).toEqual([200, 300, 400, 500]);
+  });
+
+  it('returns the start for fewer than two points', () => {
+    expect(linearRange(200, 500, 1)).toEqual([200]);
+  });
+});
+
+describe('logRange', () => {
+  it('spaces points evenly in decades', () => {
+    const range = logRange(1e12, 1e20, 9);
+    expect(range).toHaveLength(9);
+    range.forEach((value, i) => expect(Math.log10(value)).toBeCloseTo(12 + i, 10));
+  });
+});
+
+describe('sweepTemperature', () => {
+  it('matches single-point engine results', () => {
+    const input = { material: defaultMaterials[0], donorConc: 1e16, acceptorConc: 0, kB: DEFAULT_KB };
+    const sweep = sweepTemperature(input, [100, 300, 500]);
+    expect(sweep.map((point) => point.temperature)).toEqual([100, 300, 500]);
+    expect(sweep[1].result).toEqual(calculateConcentrations({ ...input, temperature: 300 }));
+  });
+});
+
+describe('activationEnergy', () => {
+  it('recovers the exponent of an Arrhenius law', () => {
+    const temperatures = linearRange(200, 400, 21);
+    const values = temperatures.map((T) => 1e19 * Math.exp(-0.56 / (DEFAULT_KB * T)));
+    expect(activationEnergy(temperatures, values, 0, DEFAULT_KB)).toBeCloseTo(0.56, 10);
+    expect(activationEnergy(temperatures, values, 10, DEFAULT_KB)).toBeCloseTo(0.56, 10);
+    expect(activationEnergy(temperatures, values, 20, DEFAULT_KB)).toBeCloseTo(0.56, 10);
+  });
+
+  it('gives roughly half the gap for intrinsic silicon', () => {
+    const input = { material: defaultMaterials[0], donorConc: 0, acceptorConc: 0, kB: DEFAULT_KB };
+    const temperatures = linearRange(290, 310, 3);
+    const ni = sweepTemperature(input, temperatures).map((point) => point.result.ni);
+    const Ea = activationEnergy(temperatures, ni, 1, DEFAULT_KB);
+    expect(Ea).toBeGreaterThan(0.55);
+    expect(Ea).toBeLessThan(0.65);
+  });
+
+  it('is undefined for a single point', () => {
+    expect(activationEnergy([300], [1e10], 0, DEFAULT_KB)).toBeNaN();
+  });
+});
+
+describe('sweepDoping', () => {
+  const input = {
+    material: defaultMaterials[0],
+    temperature: 300,
+    donorConc: 0,
+    acceptorConc: 1e15,
+    kB: DEFAULT_KB,
+    statistics: 'fermi-dirac' as const
+  };
+  const kT = DEFAULT_KB * 300;
+
+  it('varies only the chosen dopant', () => {
+    const sweep = sweepDoping(input, 'donor', [1e14, 1e16]);
+    expect(sweep[1].result).toEqual(calculateConcentrations({ ...input, donorConc: 1e16 }));
+    expect(sweep[0].result.conductionType).toBe('p-type');
+  });
+
+  it('finds the compensation point where the type flips', () => {
+    const sweep = sweepDoping(input, 'donor', logRange(1e12, 1e20, 80));
+    const transitions = findTypeTransitions(sweep);
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0].from).toBe('p-type');
+    expect(transitions[0].to).toBe('n-type');
+    expect(Math.log10(transitions[0].doping)).toBeCloseTo(15, 0);
+  });
+
+  it('passes through intrinsic when a point lands on exact compensation', () => {
+    const sweep = sweepDoping(input, 'donor', [1e14, 1e15, 1e16]);
+    expect(findTypeTransitions(sweep).map(({ from, to }) => `${from} → ${to}`)).toEqual([
+      'p-type → Intrinsic',
+      'Intrinsic → n-type'
+    ]);
+  });
+
+  it('finds where silicon becomes degenerate', () => {
+    const sweep = sweepDoping(input, 'donor', logRange(1e12, 1e20, 81));
+    const onset = findDegeneracyOnset(sweep, kT);
+    expect(onset).not.toBeNull();
+    // Within 3kT of Ec means n ≳ Nc·exp(-3) ≈ 1.4e18 cm^-3
+    expect(onset!).toBeGreaterThan(5e17);
+    expect(onset!).toBeLessThan(1e19);
+  });
+
+  it('reports no degeneracy for light doping', () => {
+    const sweep = sweepDoping(input, 'donor', logRange(1e12, 1e16, 9));
+    expect(findDegeneracyOnset(sweep, kT)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult, ConductionType } from './engine';
+
+export interface TemperaturePoint {
+  temperature: number; // K
+  result: ConcentrationResult;
+}
+
+export type DopingSweepVariable = 'donor' | 'acceptor';
+
+export interface DopingPoint {
+  doping: number; // cm^-3, value of the swept dopant
+  result: ConcentrationResult;
+}
+
+export interface TypeTransition {
+  doping: number; // cm^-3
+  from: ConductionType;
+  to: ConductionType;
+}
+
+// Boltzmann statistics are considered valid while EF stays at least this
+// many kT away from both band edges.
+export const NON_DEGENERATE_LIMIT_KT = 3;
+
+export const linearRange = (start: number, stop: number, points: number): number[] => {
+  if (points < 2) return [start];
+  const step = (stop - start) / (points - 1);
+  return Array.from({ length: points }, (_, i) => start + i * step);
+};
+
+export const logRange = (start: number, stop: number, points: number): number[] => {
+  return linearRange(Math.log10(start), Math.log10(stop), points).map((exponent) => Math.pow(10, exponent));
+};
+
+export const sweepTemperature = (
+  input: Omit<ConcentrationInput, 'temperature'>,
+  temperatures: number[]
+): TemperaturePoint[] => {
+  return temperatures.map((temperature) => ({
+    temperature,
+    result: calculateConcentrations({ ...input, temperature })
+  }));
+};
+
+// Apparent activation energy Ea = -kB · d(ln y)/d(1/T), i.e. the slope of
+// an Arrhenius plot, estimated by finite differences around `index`.
+export const activationEnergy = (
+  temperatures: number[],
+  values: number[],
+  index: number,
+  kB: number
+): number => {
+  const before = Math.max(index - 1, 0);
+  const after = Math.min(index + 1, temperatures.length - 1);
+  if (before === after || values[before] <= 0 || values[after] <= 0) return NaN;
+  const slope = (Math.log(values[after]) - Math.log(values[before]))
+    / (1 / temperatures[after] - 1 / temperatures[before]);
+  return -kB * slope;
+};
+
+export const sweepDoping = (
+  input: ConcentrationInput,
+  variable: DopingSweepVariable,
+  dopings: number[]
+): DopingPoint[] => {
+  const key = variable === 'donor' ? 'donorConc' : 'acceptorConc';
+  return dopings.map((doping) => ({
+    doping,
+    result: calculateConcentrations({ ...input, [key]: doping })
+  }));
+};
+
+export const isDegenerate = (result: ConcentrationResult, kT: number): boolean => {
+  const limit = NON_DEGENERATE_LIMIT_KT * kT;
+  return result.fermiLevelFromEc > -limit || result.fermiLevelFromEv < limit;
+};
+
+// First swept doping at which EF comes within the non-degenerate limit of a band edge.
+export const findDegeneracyOnset = (points: DopingPoint[], kT: number): number | null => {
+  const onset = points.find((point) => isDegenerate(point.result, kT));
+  return onset ? onset.doping : null;
+};
+
+// Dopings at which the conduction type changes, placed at the geometric
+// mean of the two neighbouring sweep points.
+export const findTypeTransitions = (points: DopingPoint[]): TypeTransition[] => {
+  const transitions: TypeTransition[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1].result.conductionType;
+    const to = points[i].result.conductionType;
+    if (from !== to) {
+      transitions.push({ doping: Math.sqrt(points[i - 1].doping * points[i].doping), from, to });
+    }
+  }
+  return transitions;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { defaultMaterials } from './materials';
+import { calculateTransport, dopingForResistivity, mobilityAt, resistivityForDoping } from './transport';
+
+const silicon = defaultMaterials[0];
+const conditions = { material: silicon, temperature: 300, kB: DEFAULT_KB, ionization: 'complete' as const };
+
+describe('mobilityAt', () => {
+  it('reproduces the lightly doped silicon mobilities', () => {
+    expect(mobilityAt(silicon.electronMobility, 1e12, 300)).toBeCloseTo(1340, 0);
+    expect(mobilityAt(silicon.holeMobility, 1e12, 300)).toBeCloseTo(461.3, 0);
+  });
+
+  it('falls with doping towards μmin', () => {
+    const light = mobilityAt(silicon.electronMobility, 1e15, 300);
+    const moderate = mobilityAt(silicon.electronMobility, 1e17, 300);
+    const heavy = mobilityAt(silicon.electronMobility, 1e20, 300);
+    expect(moderate).toBeLessThan(light);
+    expect(heavy).toBeLessThan(moderate);
+    expect(heavy).toBeGreaterThan(silicon.electronMobility.muMin);
+    // Arora: μn ≈ 780 cm²/Vs at 1e17 cm^-3
+    expect(moderate).toBeGreaterThan(750);
+    expect(moderate).toBeLessThan(810);
+  });
+
+  it('falls with temperature in lightly doped material', () => {
+    expect(mobilityAt(silicon.electronMobility, 1e14, 400)).toBeLessThan(mobilityAt(silicon.electronMobility, 1e14, 300));
+  });
+});
+
+describe('calculateTransport', () => {
+  it('matches the Irvin curve for n-type silicon', () => {
+    const input = { ...conditions, donorConc: 1e16, acceptorConc: 0 };
+    const transport = calculateTransport(input, calculateConcentrations(input), 1e-4);
+    // Irvin: ρ ≈ 0.5 Ω·cm at ND = 1e16 cm^-3
+    expect(transport.resistivity).toBeGreaterThan(0.45);
+    expect(transport.resistivity).toBeLessThan(0.55);
+    expect(transport.conductivity * transport.resistivity).toBeCloseTo(1, 12);
+    expect(transport.sheetResistance).toBeCloseTo(transport.resistivity / 1e-4, 6);
+  });
+
+  it('uses the total dopant density for impurity scattering', () => {
+    const compensated = { ...conditions, donorConc: 2e17, acceptorConc: 1e17 };
+    const uncompensated = { ...conditions, donorConc: 1e17, acceptorConc: 0 };
+    const a = calculateTransport(compensated, calculateConcentrations(compensated), 1);
+    const b = calculateTransport(uncompensated, calculateConcentrations(uncompensated), 1);
+    expect(a.electronMobility).toBeLessThan(b.electronMobility);
+    expect(a.resistivity).toBeGreaterThan(b.resistivity);
+  });
+});
+
+describe('dopingForResistivity', () => {
+  it('inverts the Irvin curve', () => {
+    for (const type of ['n', 'p'] as const) {
+      for (const doping of [1e14, 3e16, 5e18]) {
+        const resistivity = resistivityForDoping(conditions, type, doping);
+        expect(dopingForResistivity(conditions, type, resistivity)! / doping).toBeCloseTo(1, 6);
+      }
+    }
+  });
+
+  it('matches the textbook 1 Ω·cm wafer', () => {
+    // Irvin: 1 Ω·cm corresponds to ~4.5e15 cm^-3 phosphorus and ~1.5e16 cm^-3 boron
+    expect(dopingForResistivity(conditions, 'n', 1)!).toBeGreaterThan(3.5e15);
+    expect(dopingForResistivity(conditions, 'n', 1)!).toBeLessThan(5.5e15);
+    expect(dopingForResistivity(conditions, 'p', 1)!).toBeGreaterThan(1.2e16);
+    expect(dopingForResistivity(conditions, 'p', 1)!).toBeLessThan(1.8e16);
+  });
+
+  it('searches past the resistivity peak of lightly doped p-type germanium', () => {
+    // μn > μp, so a few acceptors first remove fast electrons and raise ρ above the intrinsic value
+    const germanium = { ...conditions, material: defaultMaterials[1] };
+    const resistivity = resistivityForDoping(germanium, 'p', 3e13);
+    expect(resistivity).toBeGreaterThan(resistivityForDoping(germanium, 'p', 1e10));
+    expect(dopingForResistivity(germanium, 'p', resistivity)! / 3e13).toBeCloseTo(1, 6);
+  });
+
+  it('returns null outside the reachable range', () => {
+    expect(dopingForResistivity(conditions, 'n', 1e9)).toBeNull();
+    expect(dopingForResistivity(conditions, 'n', 1e-9)).toBeNull();
+  });
+});
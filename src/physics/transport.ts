@@ -0,0 +1,102 @@
+import { ELEMENTARY_CHARGE } from './constants';
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult } from './engine';
+import { MobilityParameters } from './materials';
+
+export type CarrierType = 'n' | 'p';
+
+export interface TransportResult {
+  electronMobility: number; // cm^2/Vs
+  holeMobility: number; // cm^2/Vs
+  conductivity: number; // S/cm
+  resistivity: number; // Ω·cm
+  sheetResistance: number; // Ω/sq
+}
+
+// Search window for the resistivity-to-doping lookup
+export const MIN_LOOKUP_DOPING = 1e10; // cm^-3
+export const MAX_LOOKUP_DOPING = 1e21; // cm^-3
+const LOOKUP_ITERATIONS = 60;
+
+export const mobilityAt = (params: MobilityParameters, totalDoping: number, temperature: number): number => {
+  const t = temperature / 300;
+  const Nref = params.Nref * Math.pow(t, params.betaRef);
+  const alpha = params.alpha * Math.pow(t, params.betaAlpha);
+  return params.muMin * Math.pow(t, params.betaMin)
+    + params.mu0 * Math.pow(t, params.beta0) / (1 + Math.pow(totalDoping / Nref, alpha));
+};
+
+export const calculateTransport = (
+  { material, temperature, donorConc, acceptorConc }: ConcentrationInput,
+  result: ConcentrationResult,
+  thickness: number // cm
+): TransportResult => {
+  // Impurity scattering depends on the total dopant density, not the net doping
+  const totalDoping = donorConc + acceptorConc;
+  const electronMobility = mobilityAt(material.electronMobility, totalDoping, temperature);
+  const holeMobility = mobilityAt(material.holeMobility, totalDoping, temperature);
+  const conductivity = ELEMENTARY_CHARGE * (result.n * electronMobility + result.p * holeMobility);
+  const resistivity = 1 / conductivity;
+
+  return {
+    electronMobility,
+    holeMobility,
+    conductivity,
+    resistivity,
+    sheetResistance: resistivity / thickness
+  };
+};
+
+// Resistivity of a uniformly doped sample containing only one dopant type (an Irvin curve point)
+export const resistivityForDoping = (
+  input: Omit<ConcentrationInput, 'donorConc' | 'acceptorConc'>,
+  type: CarrierType,
+  doping: number
+): number => {
+  const sample = {
+    ...input,
+    donorConc: type === 'n' ? doping : 0,
+    acceptorConc: type === 'p' ? doping : 0
+  };
+  return calculateTransport(sample, calculateConcentrations(sample), 1).resistivity;
+};
+
+// Inverse of the Irvin curve: the single-dopant concentration that gives the
+// target resistivity, or null when it lies outside the reachable range.
+// Near intrinsic, adding the dopant of the slower carrier first raises the
+// resistivity (p-type silicon, for one), so the curve peaks before it falls.
+// Only the falling, extrinsic side beyond that peak is searched.
+export const dopingForResistivity = (
+  input: Omit<ConcentrationInput, 'donorConc' | 'acceptorConc'>,
+  type: CarrierType,
+  resistivity: number
+): number | null => {
+  const resistivityAt = (exponent: number) => resistivityForDoping(input, type, Math.pow(10, exponent));
+
+  // The curve has a single maximum, so a ternary search on log10(N) finds it
+  let low = Math.log10(MIN_LOOKUP_DOPING);
+  let high = Math.log10(MAX_LOOKUP_DOPING);
+  for (let i = 0; i < LOOKUP_ITERATIONS; i++) {
+    const left = low + (high - low) / 3;
+    const right = high - (high - low) / 3;
+    if (resistivityAt(left) < resistivityAt(right)) {
+      low = left;
+    } else {
+      high = right;
+    }
+  }
+
+  // Beyond the peak resistivity falls monotonically with doping, so bisect there
+  low = (low + high) / 2;
+  high = Math.log10(MAX_LOOKUP_DOPING);
+  if (resistivity > resistivityAt(low) || resistivity < resistivityAt(high)) return null;
+
+  for (let i = 0; i < LOOKUP_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (resistivityAt(mid) > resistivity) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.pow(10, (low + high) / 2);
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { calculateConcentrations } from './engine';
+import { defaultMaterials } from './materials';
+import { analyzeUncertainty, percentile, rankSensitivity, relevantParameters, sensitivityOf } from './uncertainty';
+
+const [silicon] = defaultMaterials;
+const input = { material: silicon, temperature: 300, donorConc: 1e16, acceptorConc: 0, kB: DEFAULT_KB };
+
+describe('relevantParameters', () => {
+  it('follows the selected models', () => {
+    expect(relevantParameters(input)).toEqual([
+      'Eg0', 'varshniAlpha', 'varshniBeta', 'Nc300', 'Nv300',
+      'donorIonizationEnergy', 'acceptorIonizationEnergy', 'donorDegeneracy', 'acceptorDegeneracy',
+      'donorConc', 'acceptorConc'
+    ]);
+    const linear = { ...silicon, bandgapModel: 'linear' as const, densityOfStatesModel: 'effective-mass' as const };
+    expect(relevantParameters({ ...input, material: linear, ionization: 'complete' })).toEqual([
+      'bandgap', 'temperatureCoeff', 'electronDosMass', 'holeDosMass', 'donorConc', 'acceptorConc'
+    ]);
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between order statistics', () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.25)).toBe(2.5);
+  });
+});
+
+describe('analyzeUncertainty', () => {
+  it('returns the nominal result when nothing is uncertain', () => {
+    const analysis = analyzeUncertainty(input, {}, { samples: 20 });
+    const nominal = calculateConcentrations(input);
+    expect(analysis.samples).toBe(20);
+    expect(analysis.outputs.ni).toMatchObject({ nominal: nominal.log10Ni, lower: nominal.log10Ni, upper: nominal.log10Ni });
+    expect(analysis.sensitivity).toEqual([]);
+  });
+
+  it('spreads ni by about exp(±σ/kT) for a bandgap error', () => {
+    // ni ∝ exp(−Eg/2kT), so a 1σ error of 20 meV in Eg gives log(ni) a σ of 10 meV / kT
+    const analysis = analyzeUncertainty(input, { Eg0: 0.02 }, { samples: 4000, confidence: 0.6827 });
+    const { nominal, lower, upper } = analysis.outputs.ni;
+    const kT = DEFAULT_KB * 300;
+    expect((upper - nominal) * Math.LN10).toBeCloseTo(0.01 / kT, 1);
+    expect((nominal - lower) * Math.LN10).toBeCloseTo(0.01 / kT, 1);
+  });
+
+  it('is reproducible for a given seed and keeps densities positive', () => {
+    const tolerances = { donorConc: 0.8, Nc300: 0.1 };
+    const first = analyzeUncertainty(input, tolerances, { samples: 300, seed: 7 });
+    const second = analyzeUncertainty(input, tolerances, { samples: 300, seed: 7 });
+    expect(second).toEqual(first);
+    expect(Number.isFinite(first.outputs.n.lower)).toBe(true);
+    expect(first.rejected).toBe(0);
+  });
+
+  it('propagates densities that underflow through their log10 values', () => {
+    const cold = { ...input, material: defaultMaterials[2], temperature: 15, ionization: 'complete' as const };
+    const analysis = analyzeUncertainty(cold, { Eg0: 0.01, donorConc: 0.1 }, { samples: 200 });
+    const { nominal, lower, upper } = analysis.outputs.p;
+    expect(nominal).toBeLessThan(-324);
+    expect(analysis.rejected).toBe(0);
+    expect(lower).toBeLessThan(nominal);
+    expect(upper).toBeGreaterThan(nominal);
+    expect(rankSensitivity(analysis.sensitivity, 'p')[0].parameter).toBe('Eg0');
+  });
+});
+
+describe('sensitivity', () => {
+  it('ranks the bandgap above the doping for ni and the doping above the bandgap for n', () => {
+    const entries = sensitivityOf(input, { donorConc: 0.1, Eg0: 0.01 });
+    expect(rankSensitivity(entries, 'ni').map((entry) => entry.parameter)).toEqual(['Eg0', 'donorConc']);
+    expect(rankSensitivity(entries, 'n').map((entry) => entry.parameter)).toEqual(['donorConc', 'Eg0']);
+  });
+
+  it('keeps a setting beyond 100% on the same side of zero as its nominal value', () => {
+    const [entry] = sensitivityOf(input, { donorConc: 1.5 });
+    const nominal = calculateConcentrations(input);
+    expect(entry.low.n).toBeCloseTo(14, 1);
+    expect(entry.low.p).toBeGreaterThan(nominal.log10P);
+  });
+});
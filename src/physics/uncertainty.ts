@@ -0,0 +1,267 @@
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult } from './engine';
+import { BandgapModel, MaterialProperties } from './materials';
+
+// Scalar inputs that can carry a tolerance. The valley count is an integer and the
+// permittivity, mobility and narrowing groups do not enter the equilibrium densities.
+export type UncertainParameter =
+  | 'bandgap'
+  | 'temperatureCoeff'
+  | 'Eg0'
+  | 'varshniAlpha'
+  | 'varshniBeta'
+  | 'boseEinsteinAB'
+  | 'boseEinsteinTheta'
+  | 'Nc300'
+  | 'Nv300'
+  | 'electronDosMass'
+  | 'holeDosMass'
+  | 'donorIonizationEnergy'
+  | 'acceptorIonizationEnergy'
+  | 'donorDegeneracy'
+  | 'acceptorDegeneracy'
+  | 'donorConc'
+  | 'acceptorConc';
+
+export type UncertainOutput = 'ni' | 'n' | 'p' | 'fermiLevel';
+
+// Standard deviation (1σ) of each uncertain input: in eV for the absolute
+// energy parameters, otherwise as a fraction of the nominal value
+export type Tolerances = Partial<Record<UncertainParameter, number>>;
+
+export interface UncertainParameterInfo {
+  label: string;
+  absolute: boolean; // tolerance in eV rather than relative
+}
+
+export const uncertainParameters: Record<UncertainParameter, UncertainParameterInfo> = {
+  bandgap: { label: 'Eg(300K)', absolute: true },
+  temperatureCoeff: { label: 'dEg/dT', absolute: false },
+  Eg0: { label: 'Eg0', absolute: true },
+  varshniAlpha: { label: 'Varshni α', absolute: false },
+  varshniBeta: { label: 'Varshni β', absolute: false },
+  boseEinsteinAB: { label: 'aB', absolute: false },
+  boseEinsteinTheta: { label: 'ΘB', absolute: false },
+  Nc300: { label: 'Nc(300K)', absolute: false },
+  Nv300: { label: 'Nv(300K)', absolute: false },
+  electronDosMass: { label: 'm*e', absolute: false },
+  holeDosMass: { label: 'm*h', absolute: false },
+  donorIonizationEnergy: { label: 'Ec − Ed', absolute: true },
+  acceptorIonizationEnergy: { label: 'Ea − Ev', absolute: true },
+  donorDegeneracy: { label: 'gD', absolute: false },
+  acceptorDegeneracy: { label: 'gA', absolute: false },
+  donorConc: { label: 'ND', absolute: false },
+  acceptorConc: { label: 'NA', absolute: false }
+};
+
+// The densities are sampled and summarised as log10 values, which stay finite
+// where the densities themselves underflow
+export const uncertainOutputs: Record<UncertainOutput, { label: string; unit: string }> = {
+  ni: { label: 'ni', unit: 'cm⁻³' },
+  n: { label: 'n', unit: 'cm⁻³' },
+  p: { label: 'p', unit: 'cm⁻³' },
+  fermiLevel: { label: 'EF − Ei', unit: 'eV' }
+};
+
+// log10 of the density in cm^-3 for ni, n and p; eV for the Fermi level
+export interface OutputStatistics {
+  nominal: number;
+  mean: number;
+  median: number;
+  lower: number; // lower bound of the confidence interval
+  upper: number; // upper bound of the confidence interval
+  standardDeviation: number;
+}
+
+export interface SensitivityEntry {
+  parameter: UncertainParameter;
+  low: Record<UncertainOutput, number>; // outputs with the parameter at −1σ
+  high: Record<UncertainOutput, number>; // outputs with the parameter at +1σ
+}
+
+export interface UncertaintyAnalysis {
+  samples: number; // samples that produced finite outputs
+  rejected: number;
+  confidence: number;
+  outputs: Record<UncertainOutput, OutputStatistics>;
+  sensitivity: SensitivityEntry[];
+}
+
+export interface UncertaintyOptions {
+  samples: number;
+  confidence?: number; // two-sided interval, defaults to 0.95
+  seed?: number; // the same seed reproduces the same samples
+}
+
+const OUTPUT_KEYS = Object.keys(uncertainOutputs) as UncertainOutput[];
+const BANDGAP_PARAMETERS: Record<BandgapModel, UncertainParameter[]> = {
+  linear: ['bandgap', 'temperatureCoeff'],
+  varshni: ['Eg0', 'varshniAlpha', 'varshniBeta'],
+  'bose-einstein': ['Eg0', 'boseEinsteinAB', 'boseEinsteinTheta']
+};
+const DOPING_PARAMETERS: UncertainParameter[] = ['donorConc', 'acceptorConc'];
+// A draw that would cross zero is redrawn at most this many times before
+// falling back to the nominal value.
+const MAX_REDRAWS = 100;
+// A ±1σ setting that would cross zero is clamped to this fraction of the nominal
+// value instead, so sensitivities keep the same signs as the draws.
+const MIN_SETTING_FRACTION = 0.01;
+
+// Only the inputs that the selected bandgap, density-of-states and ionization
+// models actually read are offered a tolerance.
+export const relevantParameters = (input: ConcentrationInput): UncertainParameter[] => {
+  const { material } = input;
+  const bandgap = BANDGAP_PARAMETERS[material.bandgapModel];
+  const densityOfStates: UncertainParameter[] = material.densityOfStatesModel === 'fixed'
+    ? ['Nc300', 'Nv300']
+    : ['electronDosMass', 'holeDosMass'];
+  const ionization: UncertainParameter[] = (input.ionization ?? 'incomplete') === 'incomplete'
+    ? ['donorIonizationEnergy', 'acceptorIonizationEnergy', 'donorDegeneracy', 'acceptorDegeneracy']
+    : [];
+  return [...bandgap, ...densityOfStates, ...ionization, ...DOPING_PARAMETERS];
+};
+
+const nominalOf = (input: ConcentrationInput, parameter: UncertainParameter): number => {
+  if (parameter === 'donorConc' || parameter === 'acceptorConc') return input[parameter];
+  return input.material[parameter];
+};
+
+// Standard deviation of the parameter in its own unit
+const sigmaOf = (input: ConcentrationInput, parameter: UncertainParameter, tolerance: number): number => {
+  return uncertainParameters[parameter].absolute ? tolerance : Math.abs(nominalOf(input, parameter)) * tolerance;
+};
+
+const withValues = (input: ConcentrationInput, values: Partial<Record<UncertainParameter, number>>): ConcentrationInput => {
+  const { donorConc, acceptorConc, ...materialValues } = values;
+  const material: MaterialProperties = { ...input.material, ...materialValues };
+  return {
+    ...input,
+    material,
+    donorConc: donorConc ?? input.donorConc,
+    acceptorConc: acceptorConc ?? input.acceptorConc
+  };
+};
+
+const outputsOf = (result: ConcentrationResult): Record<UncertainOutput, number> => ({
+  ni: result.log10Ni,
+  n: result.log10N,
+  p: result.log10P,
+  fermiLevel: result.fermiLevel
+});
+
+// mulberry32: small, fast and good enough for sampling; seeded for reproducible runs
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box–Muller transform
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Linear interpolation between order statistics of a sorted array
+export const percentile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = q * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+const statisticsOf = (values: number[], nominal: number, confidence: number): OutputStatistics => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(sorted.length - 1, 1);
+  const tail = (1 - confidence) / 2;
+  return {
+    nominal,
+    mean,
+    median: percentile(sorted, 0.5),
+    lower: percentile(sorted, tail),
+    upper: percentile(sorted, 1 - tail),
+    standardDeviation: Math.sqrt(variance)
+  };
+};
+
+const keepsSign = (value: number, nominal: number): boolean => nominal === 0 || Math.sign(value) === Math.sign(nominal);
+
+const settingAt = (nominal: number, shift: number): number => {
+  return keepsSign(nominal + shift, nominal) ? nominal + shift : nominal * MIN_SETTING_FRACTION;
+};
+
+// One-at-a-time sensitivity: each parameter is moved to ±1σ with the others
+// held at their nominal values.
+export const sensitivityOf = (input: ConcentrationInput, tolerances: Tolerances): SensitivityEntry[] => {
+  return (Object.keys(tolerances) as UncertainParameter[])
+    .filter((parameter) => (tolerances[parameter] ?? 0) > 0)
+    .map((parameter) => {
+      const nominal = nominalOf(input, parameter);
+      const sigma = sigmaOf(input, parameter, tolerances[parameter] ?? 0);
+      const at = (value: number) => outputsOf(calculateConcentrations(withValues(input, { [parameter]: value })));
+      return { parameter, low: at(settingAt(nominal, -sigma)), high: at(settingAt(nominal, sigma)) };
+    });
+};
+
+// Deviation plotted on the tornado chart: a fraction of the nominal value for
+// the densities, taken from their log10 values, and an energy shift in eV for
+// the Fermi level
+export const deviationOf = (output: UncertainOutput, value: number, nominal: number): number => {
+  return output === 'fermiLevel' ? value - nominal : 10 ** (value - nominal) - 1;
+};
+
+// Largest swing first, measured in decades for the densities
+export const rankSensitivity = (entries: SensitivityEntry[], output: UncertainOutput): SensitivityEntry[] => {
+  const swing = (entry: SensitivityEntry) => Math.abs(entry.high[output] - entry.low[output]);
+  return [...entries].sort((a, b) => swing(b) - swing(a));
+};
+
+// Monte Carlo propagation with independent normal inputs. Draws keep the sign of
+// their nominal value, so densities, masses and temperatures stay physical.
+export const analyzeUncertainty = (
+  input: ConcentrationInput,
+  tolerances: Tolerances,
+  { samples, confidence = 0.95, seed = 1 }: UncertaintyOptions
+): UncertaintyAnalysis => {
+  const normal = createNormal(createRandom(seed));
+  const active = (Object.keys(tolerances) as UncertainParameter[]).filter((parameter) => (tolerances[parameter] ?? 0) > 0);
+
+  const draw = (parameter: UncertainParameter): number => {
+    const nominal = nominalOf(input, parameter);
+    const sigma = sigmaOf(input, parameter, tolerances[parameter] ?? 0);
+    for (let attempt = 0; attempt < MAX_REDRAWS; attempt++) {
+      const value = nominal + sigma * normal();
+      if (keepsSign(value, nominal)) return value;
+    }
+    return nominal;
+  };
+
+  const values: Record<UncertainOutput, number[]> = { ni: [], n: [], p: [], fermiLevel: [] };
+  let rejected = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = Object.fromEntries(active.map((parameter) => [parameter, draw(parameter)]));
+    const outputs = outputsOf(calculateConcentrations(withValues(input, sample)));
+    if (OUTPUT_KEYS.some((key) => !Number.isFinite(outputs[key]))) {
+      rejected++;
+      continue;
+    }
+    OUTPUT_KEYS.forEach((key) => values[key].push(outputs[key]));
+  }
+
+  const nominal = outputsOf(calculateConcentrations(input));
+  return {
+    samples: samples - rejected,
+    rejected,
+    confidence,
+    outputs: Object.fromEntries(
+      OUTPUT_KEYS.map((key) => [key, statisticsOf(values[key], nominal[key], confidence)])
+    ) as Record<UncertainOutput, OutputStatistics>,
+    sensitivity: sensitivityOf(input, tolerances)
+  };
+};
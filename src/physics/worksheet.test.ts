@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from './constants';
+import { ConcentrationInput } from './engine';
+import { defaultMaterials } from './materials';
+import { buildWorksheet } from './worksheet';
+
+const [silicon] = defaultMaterials;
+const base: ConcentrationInput = { material: silicon, temperature: 300, donorConc: 1e16, acceptorConc: 0, kB: DEFAULT_KB, ionization: 'complete' };
+const titles = (input: ConcentrationInput) => buildWorksheet(input).steps.map(({ title }) => title);
+const equationsOf = (input: ConcentrationInput, title: string) =>
+  buildWorksheet(input).steps.find((step) => step.title === title)?.equations.map(({ text }) => text);
+
+describe('buildWorksheet', () => {
+  it('follows the closed-form branch the engine takes', () => {
+    expect(buildWorksheet(base).branch).toBe('approximate');
+    expect(buildWorksheet({ ...base, temperature: 600, donorConc: 3e15, acceptorConc: 1e15 }).branch).toBe('intrinsic');
+    const quadratic = { ...base, temperature: 600, donorConc: 5e15, acceptorConc: 1e15 };
+    expect(buildWorksheet(quadratic).branch).toBe('quadratic');
+    expect(equationsOf(quadratic, 'Net doping')?.[2]).toMatch(/^r² \+ 4 = /);
+  });
+
+  it('substitutes the numbers into each formula', () => {
+    expect(equationsOf(base, 'Thermal energy')).toEqual(['kT = kB T = 8.617 × 10^−5 × 300 = 0.02585 eV']);
+    expect(equationsOf(base, 'Minority carriers')?.[0]).toMatch(/^p = ni² \/ n = \(9\.7\d\d × 10\^9\)² \/ 1 × 10\^16 = 95\d\d cm⁻³$/);
+    expect(equationsOf(base, 'Fermi level')?.[1]).toMatch(/^EF − Ei = kT ln\(n\/ni\) = 0\.02585 × 13\.8\d = 0\.35\d\d eV$/);
+  });
+
+  it('walks through charge neutrality when the closed form does not apply', () => {
+    const input = { ...base, temperature: 77, ionization: 'incomplete' as const, statistics: 'fermi-dirac' as const };
+    const { branch, result } = buildWorksheet(input);
+    expect(branch).toBe('neutrality');
+    expect(titles(input).slice(6)).toEqual(['Charge neutrality', 'Free carriers', 'Ionized dopants', 'Neutrality check', 'Fermi level', 'Conduction type']);
+    expect(equationsOf(input, 'Free carriers')?.[1]).toMatch(/^n = Nc F½\(ηc\) = .* × F½\(−\d+\.\d+\) = /);
+    // Both sides of the neutrality check agree to the displayed precision
+    const [positive, negative] = equationsOf(input, 'Neutrality check')!.map((text) => text.split(' = ').pop());
+    expect(positive).toBe(negative);
+    expect(result.conductionType).toBe('n-type');
+  });
+
+  it('keeps densities that underflow a double', () => {
+    const input = { ...base, temperature: 5, donorConc: 0 };
+    expect(equationsOf(input, 'Intrinsic carrier concentration')?.[3]).toMatch(/= \d\.\d+ × 10\^−5\d\d cm⁻³$/);
+  });
+});
@@ -0,0 +1,623 @@
+import { bandgapModels } from './bandgap';
+import { DEFAULT_ELECTRON_MASS, DEFAULT_PLANCK, ELEMENTARY_CHARGE } from './constants';
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult, MUCH_GREATER_RATIO } from './engine';
+import { bandgapNarrowingModels } from './narrowing';
+
+// The same expression as plain Unicode for the screen and as LaTeX for export
+export interface Expression {
+  text: string;
+  latex: string;
+}
+
+export interface WorksheetStep {
+  title: string;
+  note?: Expression;
+  equations: Expression[];
+}
+
+// 'approximate' and 'quadratic' are the two closed-form branches for a doped
+// sample; 'neutrality' is the numerical charge-neutrality solution.
+export type WorksheetBranch = 'intrinsic' | 'approximate' | 'quadratic' | 'neutrality';
+
+export const worksheetBranches: Record<WorksheetBranch, Expression> = {
+  intrinsic: { text: 'Intrinsic, |ND − NA| < ni', latex: 'Intrinsic, $|N_D - N_A| < n_i$' },
+  approximate: { text: 'Closed form, majority ≈ |ND − NA|', latex: 'Closed form, majority $\\approx |N_D - N_A|$' },
+  quadratic: { text: 'Closed form, quadratic in the majority density', latex: 'Closed form, quadratic in the majority density' },
+  neutrality: { text: 'Charge neutrality solved for EF', latex: 'Charge neutrality solved for $E_F$' }
+};
+
+export interface Worksheet {
+  branch: WorksheetBranch;
+  result: ConcentrationResult;
+  steps: WorksheetStep[];
+}
+
+const SIGNIFICANT_DIGITS = 4;
+
+const expr = (text: string, latex: string): Expression => ({ text, latex });
+
+// The LaTeX form puts each side on its own line, aligned on the equals signs
+const equation = (lhs: Expression, ...sides: Expression[]): Expression => ({
+  text: [lhs, ...sides].map(({ text }) => text).join(' = '),
+  latex: `${lhs.latex} ${sides.map(({ latex }) => `&= ${latex}`).join(' \\\\\n  ')}`
+});
+
+// Unicode minus signs on screen, ASCII hyphens in LaTeX
+const minus = (text: string) => text.replace(/-/g, '−');
+
+const scientific = (mantissa: number, exponent: number): Expression => {
+  const digits = String(Number(mantissa.toPrecision(SIGNIFICANT_DIGITS)));
+  return expr(minus(`${digits} × 10^${exponent}`), `${digits} \\times 10^{${exponent}}`);
+};
+
+// Four significant figures, in scientific notation outside 0.001–9999
+const num = (value: number): Expression => {
+  const [mantissa, exponent] = value.toExponential(SIGNIFICANT_DIGITS - 1).split('e').map(Number);
+  if (value !== 0 && (exponent < -3 || exponent > 3)) return scientific(mantissa, exponent);
+  const digits = String(Number(value.toPrecision(SIGNIFICANT_DIGITS)));
+  return expr(minus(digits), digits);
+};
+
+// A quantity given by its log10, which may lie beyond the range of a double
+const numLog10 = (log10Value: number): Expression => {
+  if (log10Value === -Infinity) return expr('0', '0');
+  if (Math.abs(log10Value) < 300) return num(Math.pow(10, log10Value));
+  const exponent = Math.floor(log10Value);
+  const mantissa = Number(Math.pow(10, log10Value - exponent).toPrecision(SIGNIFICANT_DIGITS));
+  return mantissa >= 10 ? scientific(mantissa / 10, exponent + 1) : scientific(mantissa, exponent);
+};
+
+// Builds both forms of a substituted expression; v() brackets negative values
+const substitute = (
+  text: (v: (value: number) => string) => string,
+  latex: (v: (value: number) => string) => string
+): Expression => {
+  const bracketed = (form: keyof Expression) => (value: number) => {
+    const formatted = num(value)[form];
+    return value < 0 ? `(${formatted})` : formatted;
+  };
+  return expr(text(bracketed('text')), latex(bracketed('latex')));
+};
+
+const UNITS = {
+  eV: expr(' eV', '\\,\\mathrm{eV}'),
+  K: expr(' K', '\\,\\mathrm{K}'),
+  J: expr(' J', '\\,\\mathrm{J}'),
+  eVPerK: expr(' eV/K', '\\,\\mathrm{eV/K}'),
+  perCm3: expr(' cm⁻³', '\\,\\mathrm{cm^{-3}}')
+};
+
+const withUnit = (value: Expression, unit: Expression): Expression => expr(value.text + unit.text, value.latex + unit.latex);
+const energy = (value: number) => withUnit(num(value), UNITS.eV);
+const density = (log10Value: number) => withUnit(numLog10(log10Value), UNITS.perCm3);
+const same = (text: string) => expr(text, text);
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_',
+  '{': '\\{', '}': '\\}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}', '–': '--', '—': '---'
+};
+
+// Plain prose, such as a material name, escaped for LaTeX
+const prose = (text: string) => expr(text, text.replace(/[\\&%$#_{}~^–—]/g, (char) => LATEX_SPECIALS[char]));
+
+const bandgapStep = ({ material, temperature }: ConcentrationInput, result: ConcentrationResult): WorksheetStep => {
+  const T = temperature;
+  const formulas = {
+    varshni: [
+      expr('Eg0 − αT² / (T + β)', 'E_{g0} - \\frac{\\alpha T^2}{T + \\beta}'),
+      substitute(
+        (v) => `${v(material.Eg0)} − ${v(material.varshniAlpha)} × ${v(T)}² / (${v(T)} + ${v(material.varshniBeta)})`,
+        (v) => `${v(material.Eg0)} - \\frac{${v(material.varshniAlpha)} \\times ${v(T)}^2}{${v(T)} + ${v(material.varshniBeta)}}`
+      )
+    ],
+    'bose-einstein': [
+      expr('Eg0 − 2aB / (exp(ΘB/T) − 1)', 'E_{g0} - \\frac{2 a_B}{\\exp(\\Theta_B / T) - 1}'),
+      substitute(
+        (v) => `${v(material.Eg0)} − 2 × ${v(material.boseEinsteinAB)} / (exp(${v(material.boseEinsteinTheta)}/${v(T)}) − 1)`,
+        (v) => `${v(material.Eg0)} - \\frac{2 \\times ${v(material.boseEinsteinAB)}}{\\exp(${v(material.boseEinsteinTheta)} / ${v(T)}) - 1}`
+      )
+    ],
+    linear: [
+      expr('Eg(300 K) + dEg/dT × (T − 300)', 'E_g(300\\,\\mathrm{K}) + \\frac{dE_g}{dT} (T - 300)'),
+      substitute(
+        (v) => `${v(material.bandgap)} + ${v(material.temperatureCoeff)} × (${v(T)} − 300)`,
+        (v) => `${v(material.bandgap)} + ${v(material.temperatureCoeff)} \\times (${v(T)} - 300)`
+      )
+    ]
+  }[material.bandgapModel];
+  return {
+    title: 'Bandgap at T',
+    note: prose(`${bandgapModels[material.bandgapModel].label} model for ${material.name}.`),
+    equations: [equation(expr('Eg(T)', 'E_g(T)'), ...formulas, energy(result.nominalBandgap))]
+  };
+};
+
+const narrowingStep = (
+  { material, donorConc, acceptorConc, narrowing = 'none' }: ConcentrationInput,
+  result: ConcentrationResult
+): WorksheetStep => {
+  const effective = equation(
+    expr('Eg,eff', 'E_{g,\\mathrm{eff}}'),
+    expr('Eg(T) − ΔEg', 'E_g(T) - \\Delta E_g'),
+    substitute((v) => `${v(result.nominalBandgap)} − ${v(result.bandgapNarrowing)}`, (v) => `${v(result.nominalBandgap)} - ${v(result.bandgapNarrowing)}`),
+    energy(result.bandgap)
+  );
+  const totalDoping = donorConc + acceptorConc;
+  if (narrowing === 'none' || totalDoping <= 0) {
+    return {
+      title: 'Bandgap narrowing',
+      note: same(narrowing === 'none' ? 'Narrowing is switched off.' : 'The sample is undoped, so nothing narrows the gap.'),
+      equations: [equation(expr('ΔEg', '\\Delta E_g'), energy(0)), effective]
+    };
+  }
+
+  const { E0, Nref, C } = narrowing === 'slotboom' ? material.slotboomNarrowing : material.delAlamoNarrowing;
+  const logRatio = Math.log(totalDoping / Nref);
+  const unclipped = E0 * (logRatio + Math.sqrt(logRatio * logRatio + C));
+  return {
+    title: 'Bandgap narrowing',
+    note: expr(
+      `${bandgapNarrowingModels[narrowing].label} model with E0 = ${num(E0).text} eV, Nref = ${num(Nref).text} cm⁻³, C = ${num(C).text}.`
+        + (unclipped < 0 ? ' The formula goes negative here, so ΔEg is clipped to 0.' : ''),
+      `${prose(bandgapNarrowingModels[narrowing].label).latex} model with $E_0 = ${num(E0).latex}$\\,eV, $N_\\mathrm{ref} = ${num(Nref).latex}$\\,cm$^{-3}$, $C = ${num(C).latex}$.`
+        + (unclipped < 0 ? ' The formula goes negative here, so $\\Delta E_g$ is clipped to 0.' : '')
+    ),
+    equations: [
+      equation(
+        expr('N', 'N'),
+        expr('ND + NA', 'N_D + N_A'),
+        substitute((v) => `${v(donorConc)} + ${v(acceptorConc)}`, (v) => `${v(donorConc)} + ${v(acceptorConc)}`),
+        withUnit(num(totalDoping), UNITS.perCm3)
+      ),
+      equation(
+        expr('x', 'x'),
+        expr('ln(N/Nref)', '\\ln(N / N_\\mathrm{ref})'),
+        substitute((v) => `ln(${v(totalDoping)} / ${v(Nref)})`, (v) => `\\ln(${v(totalDoping)} / ${v(Nref)})`),
+        num(logRatio)
+      ),
+      equation(
+        expr('ΔEg', '\\Delta E_g'),
+        expr('E0 [x + √(x² + C)]', 'E_0 \\left[x + \\sqrt{x^2 + C}\\right]'),
+        substitute(
+          (v) => `${v(E0)} × [${v(logRatio)} + √(${v(logRatio)}² + ${v(C)})]`,
+          (v) => `${v(E0)} \\times \\left[${v(logRatio)} + \\sqrt{${v(logRatio)}^2 + ${v(C)}}\\right]`
+        ),
+        energy(result.bandgapNarrowing)
+      ),
+      effective
+    ]
+  };
+};
+
+const densityOfStatesStep = (
+  { material, temperature: T, kB, planck = DEFAULT_PLANCK, electronMass = DEFAULT_ELECTRON_MASS }: ConcentrationInput,
+  result: ConcentrationResult
+): WorksheetStep => {
+  if (material.densityOfStatesModel === 'fixed') {
+    const scaled = (label: string, symbol: string, N300: number, value: number) => equation(
+      expr(`${label}(T)`, `${symbol}(T)`),
+      expr(`${label}(300 K) × (T/300)^(3/2)`, `${symbol}(300\\,\\mathrm{K}) \\left(\\frac{T}{300}\\right)^{3/2}`),
+      substitute((v) => `${v(N300)} × (${v(T)}/300)^(3/2)`, (v) => `${v(N300)} \\times \\left(\\frac{${v(T)}}{300}\\right)^{3/2}`),
+      withUnit(num(value), UNITS.perCm3)
+    );
+    return {
+      title: 'Effective density of states',
+      note: expr('The stored 300 K values scale as T^(3/2).', 'The stored 300\\,K values scale as $T^{3/2}$.'),
+      equations: [scaled('Nc', 'N_c', material.Nc300, result.Nc), scaled('Nv', 'N_v', material.Nv300, result.Nv)]
+    };
+  }
+
+  const kTJoules = kB * ELEMENTARY_CHARGE * T;
+  const fromMass = (label: string, symbol: string, valleys: number, mass: number, value: number) => equation(
+    expr(label, symbol),
+    substitute(
+      (v) => `2 × ${v(valleys)} × (2π × ${v(mass)} × ${v(electronMass)} × ${v(kTJoules)} / (${v(planck)})²)^(3/2) × 10⁻⁶`,
+      (v) => `2 \\times ${v(valleys)} \\times \\left(\\frac{2\\pi \\times ${v(mass)} \\times ${v(electronMass)} \\times ${v(kTJoules)}}{(${v(planck)})^2}\\right)^{3/2} \\times 10^{-6}`
+    ),
+    withUnit(num(value), UNITS.perCm3)
+  );
+  return {
+    title: 'Effective density of states',
+    note: expr(
+      'N = 2·g·(2π m* m0 kT / h²)^(3/2) with kT in J, m0 in kg and h in J·s; 10⁻⁶ converts m⁻³ to cm⁻³.',
+      '$N = 2 g \\left(2\\pi m^* m_0 kT / h^2\\right)^{3/2}$ with $kT$ in J, $m_0$ in kg and $h$ in J\\,s; $10^{-6}$ converts m$^{-3}$ to cm$^{-3}$.'
+    ),
+    equations: [
+      equation(
+        expr('kT', 'kT'),
+        substitute((v) => `${v(kB)} × ${v(ELEMENTARY_CHARGE)} × ${v(T)}`, (v) => `${v(kB)} \\times ${v(ELEMENTARY_CHARGE)} \\times ${v(T)}`),
+        withUnit(num(kTJoules), UNITS.J)
+      ),
+      fromMass('Nc', 'N_c', material.conductionValleys, material.electronDosMass, result.Nc),
+      fromMass('Nv', 'N_v', 1, material.holeDosMass, result.Nv)
+    ]
+  };
+};
+
+const intrinsicStep = (kT: number, result: ConcentrationResult): WorksheetStep => {
+  const exponent = result.bandgap / (2 * kT);
+  const log10Root = (Math.log10(result.Nc) + Math.log10(result.Nv)) / 2;
+  return {
+    title: 'Intrinsic carrier concentration',
+    equations: [
+      equation(
+        expr('Eg,eff / 2kT', '\\frac{E_{g,\\mathrm{eff}}}{2kT}'),
+        substitute((v) => `${v(result.bandgap)} / (2 × ${v(kT)})`, (v) => `\\frac{${v(result.bandgap)}}{2 \\times ${v(kT)}}`),
+        num(exponent)
+      ),
+      equation(
+        expr('exp(−Eg,eff / 2kT)', '\\exp\\left(-\\frac{E_{g,\\mathrm{eff}}}{2kT}\\right)'),
+        substitute((v) => `exp(−${v(exponent)})`, (v) => `\\exp(-${v(exponent)})`),
+        numLog10(-exponent / Math.LN10)
+      ),
+      equation(
+        expr('√(Nc Nv)', '\\sqrt{N_c N_v}'),
+        substitute((v) => `√(${v(result.Nc)} × ${v(result.Nv)})`, (v) => `\\sqrt{${v(result.Nc)} \\times ${v(result.Nv)}}`),
+        withUnit(numLog10(log10Root), UNITS.perCm3)
+      ),
+      equation(
+        expr('ni', 'n_i'),
+        expr('√(Nc Nv) exp(−Eg,eff / 2kT)', '\\sqrt{N_c N_v} \\exp\\left(-\\frac{E_{g,\\mathrm{eff}}}{2kT}\\right)'),
+        expr(`${numLog10(log10Root).text} × ${numLog10(-exponent / Math.LN10).text}`, `${numLog10(log10Root).latex} \\times ${numLog10(-exponent / Math.LN10).latex}`),
+        density(result.log10Ni)
+      ),
+      equation(
+        expr('Ei − (Ec + Ev)/2', 'E_i - \\frac{E_c + E_v}{2}'),
+        expr('(kT/2) ln(Nv/Nc)', '\\frac{kT}{2} \\ln\\frac{N_v}{N_c}'),
+        substitute((v) => `(${v(kT)}/2) × ln(${v(result.Nv)} / ${v(result.Nc)})`, (v) => `\\frac{${v(kT)}}{2} \\ln\\frac{${v(result.Nv)}}{${v(result.Nc)}}`),
+        energy(result.intrinsicOffset)
+      )
+    ]
+  };
+};
+
+// Mirrors solveCompleteIonization: n·p = ni² with n − p = ND − NA
+const closedFormSteps = (
+  { donorConc, acceptorConc }: ConcentrationInput,
+  kT: number,
+  result: ConcentrationResult
+): { branch: WorksheetBranch; steps: WorksheetStep[] } => {
+  const netDoping = donorConc - acceptorConc;
+  const log10Net = Math.log10(Math.abs(netDoping));
+  const log10Ratio = log10Net - result.log10Ni;
+  const net = equation(
+    expr('ND − NA', 'N_D - N_A'),
+    substitute((v) => `${v(donorConc)} − ${v(acceptorConc)}`, (v) => `${v(donorConc)} - ${v(acceptorConc)}`),
+    withUnit(num(netDoping), UNITS.perCm3)
+  );
+  const ratioFormula = expr('|ND − NA| / ni', '\\frac{|N_D - N_A|}{n_i}');
+  const ratioValues = expr(
+    `${num(Math.abs(netDoping)).text} / ${numLog10(result.log10Ni).text}`,
+    `\\frac{${num(Math.abs(netDoping)).latex}}{${numLog10(result.log10Ni).latex}}`
+  );
+  const ratio = equation(ratioFormula, ratioValues, numLog10(log10Ratio));
+
+  if (log10Ratio < 0) {
+    return {
+      branch: 'intrinsic',
+      steps: [{
+        title: 'Net doping',
+        note: expr(
+          '|ND − NA| is below ni, so the sample is treated as intrinsic: n = p = ni and EF = Ei.',
+          '$|N_D - N_A|$ is below $n_i$, so the sample is treated as intrinsic: $n = p = n_i$ and $E_F = E_i$.'
+        ),
+        equations: [
+          net,
+          ratio,
+          equation(same('n'), same('p'), expr('ni', 'n_i'), density(result.log10Ni)),
+          equation(expr('EF − Ei', 'E_F - E_i'), energy(0))
+        ]
+      }]
+    };
+  }
+
+  const nType = netDoping > 0;
+  const [major, minor] = nType ? ['n', 'p'] : ['p', 'n'];
+  const log10Majority = nType ? result.log10N : result.log10P;
+  const log10Minority = nType ? result.log10P : result.log10N;
+  const approximate = log10Ratio > Math.log10(MUCH_GREATER_RATIO);
+  const r = Math.pow(10, log10Ratio);
+
+  const majorityStep: WorksheetStep = approximate
+    ? {
+      title: 'Net doping',
+      note: expr(
+        `|ND − NA| exceeds ${MUCH_GREATER_RATIO} ni, so ${major} is taken as the net doping; the quadratic would change it by less than (ni/|ND − NA|)².`,
+        `$|N_D - N_A|$ exceeds $${MUCH_GREATER_RATIO}\\,n_i$, so $${major}$ is taken as the net doping; the quadratic would change it by less than $(n_i / |N_D - N_A|)^2$.`
+      ),
+      equations: [net, ratio, equation(same(major), expr('|ND − NA|', '|N_D - N_A|'), density(log10Majority))]
+    }
+    : {
+      title: 'Net doping',
+      note: expr(
+        `|ND − NA| is within ${MUCH_GREATER_RATIO} ni, so n·p = ni² and n − p = ND − NA are solved as a quadratic in ${major}, with r = |ND − NA| / ni.`,
+        `$|N_D - N_A|$ is within $${MUCH_GREATER_RATIO}\\,n_i$, so $np = n_i^2$ and $n - p = N_D - N_A$ are solved as a quadratic in $${major}$, with $r = |N_D - N_A| / n_i$.`
+      ),
+      equations: [
+        net,
+        equation(same('r'), ratioFormula, ratioValues, num(r)),
+        equation(expr('r² + 4', 'r^2 + 4'), substitute((v) => `${v(r)}² + 4`, (v) => `${v(r)}^2 + 4`), num(r * r + 4)),
+        equation(
+          same(major),
+          expr('ni (r + √(r² + 4)) / 2', 'n_i \\frac{r + \\sqrt{r^2 + 4}}{2}'),
+          expr(
+            `${numLog10(result.log10Ni).text} × (${num(r).text} + √${num(r * r + 4).text}) / 2`,
+            `${numLog10(result.log10Ni).latex} \\times \\frac{${num(r).latex} + \\sqrt{${num(r * r + 4).latex}}}{2}`
+          ),
+          density(log10Majority)
+        )
+      ]
+    };
+
+  const logRatio = (log10Majority - result.log10Ni) * Math.LN10;
+  return {
+    branch: approximate ? 'approximate' : 'quadratic',
+    steps: [
+      majorityStep,
+      {
+        title: 'Minority carriers',
+        equations: [equation(
+          same(minor),
+          expr(`ni² / ${major}`, `\\frac{n_i^2}{${major}}`),
+          expr(`(${numLog10(result.log10Ni).text})² / ${numLog10(log10Majority).text}`, `\\frac{(${numLog10(result.log10Ni).latex})^2}{${numLog10(log10Majority).latex}}`),
+          density(log10Minority)
+        )]
+      },
+      {
+        title: 'Fermi level',
+        equations: [
+          equation(
+            expr(`ln(${major}/ni)`, `\\ln\\frac{${major}}{n_i}`),
+            expr(`ln(${numLog10(log10Majority).text} / ${numLog10(result.log10Ni).text})`, `\\ln\\frac{${numLog10(log10Majority).latex}}{${numLog10(result.log10Ni).latex}}`),
+            num(logRatio)
+          ),
+          equation(
+            expr('EF − Ei', 'E_F - E_i'),
+            nType ? expr('kT ln(n/ni)', 'kT \\ln\\frac{n}{n_i}') : expr('−kT ln(p/ni)', '-kT \\ln\\frac{p}{n_i}'),
+            substitute(
+              (v) => `${nType ? '' : '−'}${v(kT)} × ${v(logRatio)}`,
+              (v) => `${nType ? '' : '-'}${v(kT)} \\times ${v(logRatio)}`
+            ),
+            energy(result.fermiLevel)
+          )
+        ]
+      }
+    ]
+  };
+};
+
+// Mirrors solveChargeNeutrality, evaluated at the Fermi level it converged to
+const neutralitySteps = (
+  { material, donorConc, acceptorConc, ionization = 'incomplete', statistics = 'boltzmann' }: ConcentrationInput,
+  kT: number,
+  result: ConcentrationResult
+): WorksheetStep[] => {
+  const [occupancy, occupancyLatex] = statistics === 'fermi-dirac' ? ['F½', '\\mathcal{F}_{1/2}'] : ['exp', '\\exp'];
+  const etaC = result.fermiLevelFromEc / kT;
+  const etaV = -result.fermiLevelFromEv / kT;
+  const n = Math.pow(10, result.log10N);
+  const p = Math.pow(10, result.log10P);
+  const midgapToEi = result.bandgap / 2 + result.intrinsicOffset;
+
+  const carrier = (label: string, symbol: string, eta: number, etaLabel: string, etaSymbol: string, N: number, log10Value: number) => equation(
+    same(label),
+    expr(`${symbol === 'N_c' ? 'Nc' : 'Nv'} ${occupancy}(${etaLabel})`, `${symbol} ${occupancyLatex}(${etaSymbol})`),
+    expr(`${num(N).text} × ${occupancy}(${num(eta).text})`, `${num(N).latex} \\times ${occupancyLatex}(${num(eta).latex})`),
+    density(log10Value)
+  );
+
+  const donorOffset = result.fermiLevelFromEc + material.donorIonizationEnergy; // EF − Ed
+  const acceptorOffset = material.acceptorIonizationEnergy - result.fermiLevelFromEv; // Ea − EF
+  const dopants: WorksheetStep = ionization === 'complete'
+    ? {
+      title: 'Ionized dopants',
+      note: same('Complete ionization: every dopant is charged.'),
+      equations: [
+        equation(expr('ND⁺', 'N_D^+'), expr('ND', 'N_D'), withUnit(num(result.ionizedDonors), UNITS.perCm3)),
+        equation(expr('NA⁻', 'N_A^-'), expr('NA', 'N_A'), withUnit(num(result.ionizedAcceptors), UNITS.perCm3))
+      ]
+    }
+    : {
+      title: 'Ionized dopants',
+      note: expr(
+        `Ec − Ed = ${num(material.donorIonizationEnergy).text} eV with gD = ${num(material.donorDegeneracy).text}; Ea − Ev = ${num(material.acceptorIonizationEnergy).text} eV with gA = ${num(material.acceptorDegeneracy).text}.`,
+        `$E_c - E_d = ${num(material.donorIonizationEnergy).latex}$\\,eV with $g_D = ${num(material.donorDegeneracy).latex}$; $E_a - E_v = ${num(material.acceptorIonizationEnergy).latex}$\\,eV with $g_A = ${num(material.acceptorDegeneracy).latex}$.`
+      ),
+      equations: [
+        equation(
+          expr('EF − Ed', 'E_F - E_d'),
+          expr('(EF − Ec) + (Ec − Ed)', '(E_F - E_c) + (E_c - E_d)'),
+          energy(donorOffset)
+        ),
+        equation(
+          expr('ND⁺', 'N_D^+'),
+          expr('ND / (1 + gD exp((EF − Ed)/kT))', '\\frac{N_D}{1 + g_D \\exp\\left(\\frac{E_F - E_d}{kT}\\right)}'),
+          substitute(
+            (v) => `${v(donorConc)} / (1 + ${v(material.donorDegeneracy)} × exp(${v(donorOffset)}/${v(kT)}))`,
+            (v) => `\\frac{${v(donorConc)}}{1 + ${v(material.donorDegeneracy)} \\exp\\left(\\frac{${v(donorOffset)}}{${v(kT)}}\\right)}`
+          ),
+          withUnit(num(result.ionizedDonors), UNITS.perCm3)
+        ),
+        equation(
+          expr('Ea − EF', 'E_a - E_F'),
+          expr('(Ea − Ev) − (EF − Ev)', '(E_a - E_v) - (E_F - E_v)'),
+          energy(acceptorOffset)
+        ),
+        equation(
+          expr('NA⁻', 'N_A^-'),
+          expr('NA / (1 + gA exp((Ea − EF)/kT))', '\\frac{N_A}{1 + g_A \\exp\\left(\\frac{E_a - E_F}{kT}\\right)}'),
+          substitute(
+            (v) => `${v(acceptorConc)} / (1 + ${v(material.acceptorDegeneracy)} × exp(${v(acceptorOffset)}/${v(kT)}))`,
+            (v) => `\\frac{${v(acceptorConc)}}{1 + ${v(material.acceptorDegeneracy)} \\exp\\left(\\frac{${v(acceptorOffset)}}{${v(kT)}}\\right)}`
+          ),
+          withUnit(num(result.ionizedAcceptors), UNITS.perCm3)
+        )
+      ]
+    };
+
+  return [
+    {
+      title: 'Charge neutrality',
+      note: expr(
+        'p + ND⁺ = n + NA⁻ has a single root in EF, found by bisection to 10⁻¹² eV. The steps below evaluate each term at that root, with energies measured from Ev.',
+        '$p + N_D^+ = n + N_A^-$ has a single root in $E_F$, found by bisection to $10^{-12}$\\,eV. The steps below evaluate each term at that root, with energies measured from $E_v$.'
+      ),
+      equations: [
+        equation(expr('EF − Ev', 'E_F - E_v'), energy(result.fermiLevelFromEv)),
+        equation(
+          expr('EF − Ec', 'E_F - E_c'),
+          expr('(EF − Ev) − Eg,eff', '(E_F - E_v) - E_{g,\\mathrm{eff}}'),
+          substitute((v) => `${v(result.fermiLevelFromEv)} − ${v(result.bandgap)}`, (v) => `${v(result.fermiLevelFromEv)} - ${v(result.bandgap)}`),
+          energy(result.fermiLevelFromEc)
+        )
+      ]
+    },
+    {
+      title: 'Free carriers',
+      note: statistics === 'fermi-dirac'
+        ? expr(
+          'F½ is the normalized Fermi–Dirac integral, which tends to exp(η) far from the band.',
+          '$\\mathcal{F}_{1/2}$ is the normalized Fermi–Dirac integral, which tends to $\\exp(\\eta)$ far from the band.'
+        )
+        : undefined,
+      equations: [
+        equation(
+          expr('ηc', '\\eta_c'),
+          expr('(EF − Ec) / kT', '\\frac{E_F - E_c}{kT}'),
+          substitute((v) => `${v(result.fermiLevelFromEc)} / ${v(kT)}`, (v) => `\\frac{${v(result.fermiLevelFromEc)}}{${v(kT)}}`),
+          num(etaC)
+        ),
+        carrier('n', 'N_c', etaC, 'ηc', '\\eta_c', result.Nc, result.log10N),
+        equation(
+          expr('ηv', '\\eta_v'),
+          expr('(Ev − EF) / kT', '\\frac{E_v - E_F}{kT}'),
+          substitute((v) => `${v(-result.fermiLevelFromEv)} / ${v(kT)}`, (v) => `\\frac{${v(-result.fermiLevelFromEv)}}{${v(kT)}}`),
+          num(etaV)
+        ),
+        carrier('p', 'N_v', etaV, 'ηv', '\\eta_v', result.Nv, result.log10P)
+      ]
+    },
+    dopants,
+    {
+      title: 'Neutrality check',
+      equations: [
+        equation(
+          expr('p + ND⁺', 'p + N_D^+'),
+          expr(`${numLog10(result.log10P).text} + ${num(result.ionizedDonors).text}`, `${numLog10(result.log10P).latex} + ${num(result.ionizedDonors).latex}`),
+          withUnit(num(p + result.ionizedDonors), UNITS.perCm3)
+        ),
+        equation(
+          expr('n + NA⁻', 'n + N_A^-'),
+          expr(`${numLog10(result.log10N).text} + ${num(result.ionizedAcceptors).text}`, `${numLog10(result.log10N).latex} + ${num(result.ionizedAcceptors).latex}`),
+          withUnit(num(n + result.ionizedAcceptors), UNITS.perCm3)
+        )
+      ]
+    },
+    {
+      title: 'Fermi level',
+      equations: [equation(
+        expr('EF − Ei', 'E_F - E_i'),
+        expr('(EF − Ev) − Eg,eff/2 − (Ei − (Ec + Ev)/2)', '(E_F - E_v) - \\frac{E_{g,\\mathrm{eff}}}{2} - \\left(E_i - \\frac{E_c + E_v}{2}\\right)'),
+        substitute(
+          (v) => `${v(result.fermiLevelFromEv)} − ${v(result.bandgap)}/2 − ${v(result.intrinsicOffset)}`,
+          (v) => `${v(result.fermiLevelFromEv)} - \\frac{${v(result.bandgap)}}{2} - ${v(result.intrinsicOffset)}`
+        ),
+        energy(result.fermiLevelFromEv - midgapToEi)
+      )]
+    }
+  ];
+};
+
+const bandEdgeStep = (result: ConcentrationResult): WorksheetStep => {
+  const fromMidgap = result.fermiLevel + result.intrinsicOffset; // EF − (Ec + Ev)/2
+  return {
+    title: 'Band-edge positions',
+    equations: [
+      equation(
+        expr('EF − Ec', 'E_F - E_c'),
+        expr('(EF − Ei) + (Ei − (Ec + Ev)/2) − Eg,eff/2', '(E_F - E_i) + \\left(E_i - \\frac{E_c + E_v}{2}\\right) - \\frac{E_{g,\\mathrm{eff}}}{2}'),
+        substitute(
+          (v) => `${v(result.fermiLevel)} + ${v(result.intrinsicOffset)} − ${v(result.bandgap)}/2`,
+          (v) => `${v(result.fermiLevel)} + ${v(result.intrinsicOffset)} - \\frac{${v(result.bandgap)}}{2}`
+        ),
+        energy(result.fermiLevelFromEc)
+      ),
+      equation(
+        expr('EF − Ev', 'E_F - E_v'),
+        expr('(EF − Ei) + (Ei − (Ec + Ev)/2) + Eg,eff/2', '(E_F - E_i) + \\left(E_i - \\frac{E_c + E_v}{2}\\right) + \\frac{E_{g,\\mathrm{eff}}}{2}'),
+        substitute(
+          (v) => `${v(result.fermiLevel)} + ${v(result.intrinsicOffset)} + ${v(result.bandgap)}/2`,
+          (v) => `${v(result.fermiLevel)} + ${v(result.intrinsicOffset)} + \\frac{${v(result.bandgap)}}{2}`
+        ),
+        energy(fromMidgap + result.bandgap / 2)
+      )
+    ]
+  };
+};
+
+const conductionTypeStep = (result: ConcentrationResult): WorksheetStep => {
+  const net = result.ionizedDonors - result.ionizedAcceptors;
+  const reason = result.conductionType === 'Intrinsic'
+    ? expr('is below ni, so the sample is intrinsic', 'is below $n_i$, so the sample is intrinsic')
+    : expr(
+      `exceeds ni and is ${net > 0 ? 'positive, so the sample is n-type' : 'negative, so the sample is p-type'}`,
+      `exceeds $n_i$ and is ${net > 0 ? 'positive, so the sample is n-type' : 'negative, so the sample is p-type'}`
+    );
+  return {
+    title: 'Conduction type',
+    note: expr(`|ND⁺ − NA⁻| ${reason.text}.`, `$|N_D^+ - N_A^-|$ ${reason.latex}.`),
+    equations: [equation(
+      expr('ND⁺ − NA⁻', 'N_D^+ - N_A^-'),
+      substitute((v) => `${v(result.ionizedDonors)} − ${v(result.ionizedAcceptors)}`, (v) => `${v(result.ionizedDonors)} - ${v(result.ionizedAcceptors)}`),
+      withUnit(num(net), UNITS.perCm3)
+    )]
+  };
+};
+
+// Walks through the formulas calculateConcentrations applies to this input,
+// with the numbers substituted and the branch it took.
+export const buildWorksheet = (input: ConcentrationInput): Worksheet => {
+  const { material, temperature, donorConc, acceptorConc, kB, ionization = 'incomplete', statistics = 'boltzmann', narrowing = 'none' } = input;
+  const result = calculateConcentrations(input);
+  const kT = kB * temperature;
+  const closedForm = ionization === 'complete' && statistics === 'boltzmann';
+  const solution = closedForm
+    ? closedFormSteps(input, kT, result)
+    : { branch: 'neutrality' as const, steps: neutralitySteps(input, kT, result) };
+
+  const inputs: WorksheetStep = {
+    title: 'Inputs',
+    note: prose(`${material.name}; ${ionization} ionization, ${statistics === 'fermi-dirac' ? 'Fermi–Dirac' : 'Boltzmann'} statistics, bandgap narrowing: ${bandgapNarrowingModels[narrowing].label}.`),
+    equations: [
+      equation(same('T'), withUnit(num(temperature), UNITS.K)),
+      equation(expr('ND', 'N_D'), withUnit(num(donorConc), UNITS.perCm3)),
+      equation(expr('NA', 'N_A'), withUnit(num(acceptorConc), UNITS.perCm3)),
+      equation(expr('kB', 'k_B'), withUnit(num(kB), UNITS.eVPerK))
+    ]
+  };
+  const thermal: WorksheetStep = {
+    title: 'Thermal energy',
+    equations: [equation(
+      same('kT'),
+      expr('kB T', 'k_B T'),
+      substitute((v) => `${v(kB)} × ${v(temperature)}`, (v) => `${v(kB)} \\times ${v(temperature)}`),
+      energy(kT)
+    )]
+  };
+
+  return {
+    branch: solution.branch,
+    result,
+    steps: [
+      inputs,
+      thermal,
+      bandgapStep(input, result),
+      narrowingStep(input, result),
+      densityOfStatesStep(input, result),
+      intrinsicStep(kT, result),
+      ...solution.steps,
+      ...(closedForm ? [bandEdgeStep(result)] : []),
+      conductionTypeStep(result)
+    ]
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from '../physics/constants';
+import { calculateConcentrations } from '../physics/engine';
+import { defaultMaterials } from '../physics/materials';
+import { parseCsv } from '../utils/csv';
+import { batchToCsv, batchToJson, parseBatchCsv, runBatch } from './batch';
+
+const conditions = { kB: DEFAULT_KB, ionization: 'complete' as const };
+
+describe('parseBatchCsv', () => {
+  it('reads rows by header name in any order, with units', () => {
+    const { rows, issues } = parseBatchCsv('ND (cm^-3),T (K),Material,NA\n1e16,300,Silicon,0\n2.5e17,77,gaas,1e15', defaultMaterials);
+    expect(issues).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, material: defaultMaterials[0], temperature: 300, donorConc: 1e16, acceptorConc: 0 },
+      { line: 3, material: defaultMaterials[2], temperature: 77, donorConc: 2.5e17, acceptorConc: 1e15 }
+    ]);
+  });
+
+  it('falls back to material, T, ND, NA without a header', () => {
+    const { rows } = parseBatchCsv('germanium,350,0,1e16', defaultMaterials);
+    expect(rows[0]).toMatchObject({ line: 1, material: defaultMaterials[1], temperature: 350, acceptorConc: 1e16 });
+  });
+
+  it('reports bad rows and keeps the good ones', () => {
+    const { rows, issues } = parseBatchCsv('material,T,ND,NA\nunobtainium,300,1e16,0\nSilicon,-4,abc,0\nSilicon,300,1e16,0', defaultMaterials);
+    expect(rows.map((row) => row.line)).toEqual([4]);
+    expect(issues).toEqual([
+      { line: 2, message: 'unknown material "unobtainium"' },
+      { line: 3, message: 'T must be at least 1; ND "abc" is not a number' }
+    ]);
+  });
+
+  it('rejects hex, empty and infinite numbers', () => {
+    const { rows, issues } = parseBatchCsv('Silicon,0x12c,1e16,0\nSilicon,300, ,0\nSilicon,300,Infinity,0', defaultMaterials);
+    expect(rows).toEqual([]);
+    expect(issues).toEqual([
+      { line: 1, message: 'T "0x12c" is not a number' },
+      { line: 2, message: 'ND "" is not a number' },
+      { line: 3, message: 'ND "Infinity" is not a number' }
+    ]);
+  });
+
+  it('rejects a header without the required columns', () => {
+    expect(parseBatchCsv('material,T,ND\nSilicon,300,1e16', defaultMaterials).issues)
+      .toEqual([{ line: 1, message: 'Header is missing acceptorConc' }]);
+  });
+});
+
+describe('batch export', () => {
+  const { rows } = parseBatchCsv('Silicon,300,1e16,0\nGaAs,400,0,3e17', defaultMaterials);
+  const results = runBatch(rows, conditions);
+
+  it('runs each row through the engine', () => {
+    expect(results[1].result).toEqual(calculateConcentrations({
+      ...conditions, material: defaultMaterials[2], temperature: 400, donorConc: 0, acceptorConc: 3e17
+    }));
+  });
+
+  it('writes CSV and JSON at full precision', () => {
+    const [header, first] = parseCsv(batchToCsv(results));
+    expect(Number(first[header.indexOf('n_cm3')])).toBe(results[0].result.n);
+    expect(Number(first[header.indexOf('EF_minus_Ei_eV')])).toBe(results[0].result.fermiLevel);
+    const records = JSON.parse(batchToJson(results));
+    expect(records[1]).toMatchObject({ material: 'GaAs', p_cm3: results[1].result.p, conduction_type: 'p-type' });
+  });
+
+  it('writes log10 densities that survive underflow', () => {
+    const [cold] = runBatch(parseBatchCsv('GaAs,15,1e16,0', defaultMaterials).rows, conditions);
+    const [header, first] = parseCsv(batchToCsv([cold]));
+    expect(Number(first[header.indexOf('p_cm3')])).toBe(0);
+    expect(Number(first[header.indexOf('log10_p_cm3')])).toBe(cold.result.log10P);
+    expect(cold.result.log10P).toBeLessThan(-324);
+  });
+});
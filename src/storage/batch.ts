@@ -0,0 +1,152 @@
+import { calculateConcentrations, ConcentrationInput, ConcentrationResult } from '../physics/engine';
+import { MaterialProperties } from '../physics/materials';
+import { parseCsv, toCsv } from '../utils/csv';
+import { parseNumber } from '../utils/number';
+
+export interface BatchRow {
+  line: number; // 1-based CSV row including the header, blank lines not counted
+  material: MaterialProperties;
+  temperature: number; // K
+  donorConc: number; // cm^-3
+  acceptorConc: number; // cm^-3
+}
+
+export interface BatchIssue {
+  line: number;
+  message: string;
+}
+
+export interface BatchInput {
+  rows: BatchRow[];
+  issues: BatchIssue[];
+}
+
+export interface BatchResult {
+  row: BatchRow;
+  result: ConcentrationResult;
+}
+
+// Settings shared by every row: everything except the material and the row's T, ND and NA
+export type BatchConditions = Omit<ConcentrationInput, 'material' | 'temperature' | 'donorConc' | 'acceptorConc'>;
+
+const COLUMNS = ['material', 'temperature', 'donorConc', 'acceptorConc'] as const;
+type BatchColumn = typeof COLUMNS[number];
+
+const HEADER_ALIASES: Record<string, BatchColumn> = {
+  material: 'material',
+  t: 'temperature',
+  temperature: 'temperature',
+  nd: 'donorConc',
+  donors: 'donorConc',
+  na: 'acceptorConc',
+  acceptors: 'acceptorConc'
+};
+
+const MIN_TEMPERATURE = 1; // K
+
+// Chemical symbols for the built-in elemental semiconductors
+const MATERIAL_ALIASES: Record<string, string> = { si: 'silicon', ge: 'germanium' };
+
+// Materials are named by id, by name or by symbol, ignoring case
+export const findMaterial = (materials: MaterialProperties[], key: string): MaterialProperties | undefined => {
+  const wanted = key.toLowerCase();
+  const id = MATERIAL_ALIASES[wanted] ?? wanted;
+  return materials.find((material) => material.id.toLowerCase() === id || material.name.toLowerCase() === wanted);
+};
+
+// A header row is optional; without one the columns are material, T, ND, NA
+export const parseBatchCsv = (text: string, materials: MaterialProperties[]): BatchInput => {
+  const table = parseCsv(text);
+  const issues: BatchIssue[] = [];
+  if (table.length === 0) return { rows: [], issues };
+
+  let order: BatchColumn[] = [...COLUMNS];
+  let body = table;
+  // Units in parentheses are allowed, as in "T (K)" or "ND (cm^-3)"
+  const header = table[0].map((cell) => HEADER_ALIASES[cell.toLowerCase().replace(/\s*\(.*\)$/, '')]);
+  if (header.some((column) => column !== undefined)) {
+    const missing = COLUMNS.filter((column) => !header.includes(column));
+    if (missing.length > 0) {
+      return { rows: [], issues: [{ line: 1, message: `Header is missing ${missing.join(', ')}` }] };
+    }
+    order = header;
+    body = table.slice(1);
+  }
+
+  const rows = body.flatMap((cells, index): BatchRow[] => {
+    const line = index + (body === table ? 1 : 2);
+    const cell = (column: BatchColumn) => cells[order.indexOf(column)] ?? '';
+    const problems: string[] = [];
+
+    const material = findMaterial(materials, cell('material'));
+    if (!material) problems.push(`unknown material "${cell('material')}"`);
+    const numberOf = (column: BatchColumn, label: string, min: number) => {
+      const { value, error } = parseNumber(cell(column));
+      if (error !== null) {
+        problems.push(`${label} "${cell(column)}" is not a number`);
+        return NaN;
+      }
+      if (value < min) problems.push(`${label} must be at least ${min}`);
+      return value;
+    };
+    const temperature = numberOf('temperature', 'T', MIN_TEMPERATURE);
+    const donorConc = numberOf('donorConc', 'ND', 0);
+    const acceptorConc = numberOf('acceptorConc', 'NA', 0);
+
+    if (problems.length > 0 || !material) {
+      issues.push({ line, message: problems.join('; ') });
+      return [];
+    }
+    return [{ line, material, temperature, donorConc, acceptorConc }];
+  });
+
+  return { rows, issues };
+};
+
+export const runBatch = (rows: BatchRow[], conditions: BatchConditions): BatchResult[] => {
+  return rows.map((row) => ({
+    row,
+    result: calculateConcentrations({
+      ...conditions,
+      material: row.material,
+      temperature: row.temperature,
+      donorConc: row.donorConc,
+      acceptorConc: row.acceptorConc
+    })
+  }));
+};
+
+// Exported columns, in order; numbers keep their full double precision, and the
+// log10 columns carry densities that underflow to 0 in the linear ones
+const EXPORT_FIELDS: { key: string; value: (entry: BatchResult) => string | number }[] = [
+  { key: 'line', value: ({ row }) => row.line },
+  { key: 'material', value: ({ row }) => row.material.name },
+  { key: 'temperature_K', value: ({ row }) => row.temperature },
+  { key: 'ND_cm3', value: ({ row }) => row.donorConc },
+  { key: 'NA_cm3', value: ({ row }) => row.acceptorConc },
+  { key: 'ni_cm3', value: ({ result }) => result.ni },
+  { key: 'n_cm3', value: ({ result }) => result.n },
+  { key: 'p_cm3', value: ({ result }) => result.p },
+  { key: 'log10_ni_cm3', value: ({ result }) => result.log10Ni },
+  { key: 'log10_n_cm3', value: ({ result }) => result.log10N },
+  { key: 'log10_p_cm3', value: ({ result }) => result.log10P },
+  { key: 'EF_minus_Ei_eV', value: ({ result }) => result.fermiLevel },
+  { key: 'EF_minus_Ec_eV', value: ({ result }) => result.fermiLevelFromEc },
+  { key: 'EF_minus_Ev_eV', value: ({ result }) => result.fermiLevelFromEv },
+  { key: 'Eg_eV', value: ({ result }) => result.bandgap },
+  { key: 'ionized_donors_cm3', value: ({ result }) => result.ionizedDonors },
+  { key: 'ionized_acceptors_cm3', value: ({ result }) => result.ionizedAcceptors },
+  { key: 'conduction_type', value: ({ result }) => result.conductionType }
+];
+
+export const batchToCsv = (results: BatchResult[]): string => {
+  return toCsv([
+    EXPORT_FIELDS.map(({ key }) => key),
+    ...results.map((entry) => EXPORT_FIELDS.map(({ value }) => value(entry)))
+  ]);
+};
+
+export const batchToJson = (results: BatchResult[]): string => {
+  const records = results.map((entry) => Object.fromEntries(EXPORT_FIELDS.map(({ key, value }) => [key, value(entry)])));
+  return JSON.stringify(records, null, 2);
+};
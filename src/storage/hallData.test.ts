@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseHallCsv } from './hallData';
+
+const defaults = { thickness: 0.05, hallFactor: 1 };
+
+describe('parseHallCsv', () => {
+  it('reads resistivity or sheet resistance, with an optional hall factor', () => {
+    const { rows, issues } = parseHallCsv(
+      'T (K),RH (cm^3/C),rho (ohm cm),Rs (ohm/sq),hall_factor\n300,-625,0.5,,1.18\n77,-700,,4,',
+      defaults
+    );
+    expect(issues).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, temperature: 300, hallCoefficient: -625, resistivity: 0.5, hallFactor: 1.18 },
+      { line: 3, temperature: 77, hallCoefficient: -700, resistivity: 0.2, hallFactor: 1 }
+    ]);
+  });
+
+  it('reports bad rows and keeps the good ones', () => {
+    const { rows, issues } = parseHallCsv('T,RH,rho\n300,0,1\n0,-5,-1\n200,-800,2', defaults);
+    expect(rows.map((row) => row.line)).toEqual([4]);
+    expect(issues).toEqual([
+      { line: 2, message: 'RH must be non-zero' },
+      { line: 3, message: 'T must be at least 1; rho must be positive' }
+    ]);
+  });
+
+  it('rejects hex and empty numbers', () => {
+    expect(parseHallCsv('T,RH,rho\n0x12c,-625,1\n300, ,1', defaults).issues).toEqual([
+      { line: 2, message: 'T "0x12c" is not a number' },
+      { line: 3, message: 'RH "" is not a number' }
+    ]);
+  });
+
+  it('needs T, RH and a resistivity column', () => {
+    expect(parseHallCsv('T,RH\n300,-625', defaults).issues).toEqual([{ line: 1, message: 'Header is missing rho or Rs' }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { HallMeasurement } from '../physics/hall';
+import { parseCsv } from '../utils/csv';
+import { parseNumber } from '../utils/number';
+import { BatchIssue } from './batch';
+
+export interface HallDataRow extends HallMeasurement {
+  line: number; // 1-based CSV row including the header
+}
+
+export interface HallDataInput {
+  rows: HallDataRow[];
+  issues: BatchIssue[];
+}
+
+export interface HallDataDefaults {
+  thickness: number; // cm, converts sheet resistance to resistivity
+  hallFactor: number; // used where a row has no hall factor column
+}
+
+type HallColumn = 'temperature' | 'hallCoefficient' | 'resistivity' | 'sheetResistance' | 'hallFactor';
+
+const HEADER_ALIASES: Record<string, HallColumn> = {
+  t: 'temperature',
+  temperature: 'temperature',
+  rh: 'hallCoefficient',
+  'hall coefficient': 'hallCoefficient',
+  rho: 'resistivity',
+  'ρ': 'resistivity',
+  resistivity: 'resistivity',
+  rs: 'sheetResistance',
+  'sheet resistance': 'sheetResistance',
+  'hall factor': 'hallFactor',
+  factor: 'hallFactor'
+};
+
+const MIN_TEMPERATURE = 1; // K
+
+// A header row is required, naming T, RH and either rho (Ω·cm) or Rs (Ω/sq).
+// Units in parentheses and underscores for spaces are allowed, as in "RH (cm^3/C)".
+export const parseHallCsv = (text: string, { thickness, hallFactor }: HallDataDefaults): HallDataInput => {
+  const table = parseCsv(text);
+  if (table.length === 0) return { rows: [], issues: [] };
+
+  const header = table[0].map((cell) => HEADER_ALIASES[cell.toLowerCase().replace(/_/g, ' ').replace(/\s*\(.*\)$/, '')]);
+  const missing = [
+    ...(header.includes('temperature') ? [] : ['T']),
+    ...(header.includes('hallCoefficient') ? [] : ['RH']),
+    ...(header.includes('resistivity') || header.includes('sheetResistance') ? [] : ['rho or Rs'])
+  ];
+  if (missing.length > 0) {
+    return { rows: [], issues: [{ line: 1, message: `Header is missing ${missing.join(', ')}` }] };
+  }
+
+  const issues: BatchIssue[] = [];
+  const rows = table.slice(1).flatMap((cells, index): HallDataRow[] => {
+    const line = index + 2;
+    const cell = (column: HallColumn) => (header.includes(column) ? cells[header.indexOf(column)] ?? '' : '');
+    const problems: string[] = [];
+    const numberOf = (column: HallColumn, label: string, check: (value: number) => boolean, rule: string) => {
+      const { value, error } = parseNumber(cell(column));
+      if (error !== null) {
+        problems.push(`${label} "${cell(column)}" is not a number`);
+        return NaN;
+      }
+      if (!check(value)) problems.push(`${label} must be ${rule}`);
+      return value;
+    };
+
+    const temperature = numberOf('temperature', 'T', (value) => value >= MIN_TEMPERATURE, `at least ${MIN_TEMPERATURE}`);
+    const hallCoefficient = numberOf('hallCoefficient', 'RH', (value) => value !== 0, 'non-zero');
+    // A row may give either resistivity or sheet resistance
+    const resistivity = cell('resistivity') !== '' || !header.includes('sheetResistance')
+      ? numberOf('resistivity', 'rho', (value) => value > 0, 'positive')
+      : numberOf('sheetResistance', 'Rs', (value) => value > 0, 'positive') * thickness;
+    const factor = cell('hallFactor') === ''
+      ? hallFactor
+      : numberOf('hallFactor', 'Hall factor', (value) => value > 0, 'positive');
+
+    if (problems.length > 0) {
+      issues.push({ line, message: problems.join('; ') });
+      return [];
+    }
+    return [{ line, temperature, hallCoefficient, resistivity, hallFactor: factor }];
+  });
+
+  return { rows, issues };
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { defaultMaterials } from '../physics/materials';
+import {
+  isMaterialModified,
+  loadLibrary,
+  MATERIAL_LIBRARY_STORAGE_KEY,
+  MATERIAL_LIBRARY_VERSION,
+  materialFieldBounds,
+  MaterialLibraryError,
+  parseLibrary,
+  saveLibrary,
+  serializeLibrary
+} from './materialLibrary';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  };
+};
+
+const libraryWith = (materials: unknown[], version = MATERIAL_LIBRARY_VERSION) =>
+  JSON.stringify({ format: 'semicalc-material-library', version, materials });
+
+describe('material library', () => {
+  it('round-trips through JSON', () => {
+    const custom = { ...defaultMaterials[0], id: 'gan', name: 'GaN', Eg0: 3.507 };
+    expect(parseLibrary(serializeLibrary([...defaultMaterials, custom]))).toEqual([...defaultMaterials, custom]);
+  });
+
+  it('rejects files that are not libraries', () => {
+    expect(() => parseLibrary('not json')).toThrow(MaterialLibraryError);
+    expect(() => parseLibrary('{"materials": []}')).toThrow('not a material library');
+  });
+
+  it('rejects newer and malformed schema versions', () => {
+    expect(() => parseLibrary(libraryWith(defaultMaterials, 99))).toThrow('Unsupported library version 99');
+    expect(() => parseLibrary(libraryWith(defaultMaterials, 0))).toThrow('Unsupported library version 0');
+    expect(() => parseLibrary(libraryWith(defaultMaterials, 2.5))).toThrow('Unsupported library version 2.5');
+  });
+
+  it('reports every invalid field', () => {
+    const broken = {
+      ...defaultMaterials[0],
+      name: '',
+      Nc300: -1,
+      bandgapModel: 'cubic',
+      densityOfStatesModel: 'tabulated',
+      Eg0: 'wide'
+    };
+    try {
+      parseLibrary(libraryWith([broken]));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MaterialLibraryError);
+      expect((error as MaterialLibraryError).issues).toEqual([
+        'materials[0].name must be a non-empty string',
+        'materials[0].bandgapModel must be one of linear, varshni, bose-einstein',
+        'materials[0].densityOfStatesModel must be one of fixed, effective-mass',
+        'materials[0].Nc300 must be positive',
+        'materials[0].Eg0 must be a finite number'
+      ]);
+    }
+  });
+
+  it('validates the nested mobility parameters', () => {
+    const broken = {
+      ...defaultMaterials[0],
+      electronMobility: { ...defaultMaterials[0].electronMobility, mu0: 0, muMin: -1 },
+      holeMobility: null,
+      slotboomNarrowing: { ...defaultMaterials[0].slotboomNarrowing, Nref: 0 }
+    };
+    expect(() => parseLibrary(libraryWith([broken]))).toThrow(MaterialLibraryError);
+    try {
+      parseLibrary(libraryWith([broken]));
+    } catch (error) {
+      expect((error as MaterialLibraryError).issues).toEqual([
+        'materials[0].electronMobility.muMin must not be negative',
+        'materials[0].electronMobility.mu0 must be positive',
+        'materials[0].holeMobility must be an object',
+        'materials[0].slotboomNarrowing.Nref must be positive'
+      ]);
+    }
+  });
+
+  it('migrates older files by filling in the fields added since', () => {
+    const asVersion1 = (material: typeof defaultMaterials[number]) => {
+      const copy: Partial<typeof material> = { ...material };
+      delete copy.electronMobility;
+      delete copy.holeMobility;
+      delete copy.relativePermittivity;
+      delete copy.densityOfStatesModel;
+      delete copy.electronDosMass;
+      delete copy.holeDosMass;
+      delete copy.conductionValleys;
+      delete copy.slotboomNarrowing;
+      delete copy.delAlamoNarrowing;
+      delete copy.minTemperature;
+      delete copy.maxTemperature;
+      return copy;
+    };
+    const custom = asVersion1({ ...defaultMaterials[2], id: 'inp', name: 'InP' });
+    const [gaas, inp] = parseLibrary(libraryWith([asVersion1(defaultMaterials[2]), custom], 1));
+    expect(gaas).toEqual(defaultMaterials[2]);
+    expect(inp.electronMobility).toEqual(defaultMaterials[0].electronMobility);
+    expect(inp.relativePermittivity).toBe(defaultMaterials[0].relativePermittivity);
+
+    const version2 = { ...defaultMaterials[1], relativePermittivity: undefined };
+    expect(parseLibrary(libraryWith([version2], 2))[0]).toEqual(defaultMaterials[1]);
+
+    const version3 = { ...defaultMaterials[0], densityOfStatesModel: undefined, holeDosMass: undefined };
+    expect(parseLibrary(libraryWith([version3], 3))[0]).toEqual(defaultMaterials[0]);
+
+    const version4 = { ...defaultMaterials[2], delAlamoNarrowing: undefined };
+    expect(parseLibrary(libraryWith([version4], 4))[0]).toEqual(defaultMaterials[2]);
+
+    const version5 = { ...defaultMaterials[1], maxTemperature: undefined };
+    expect(parseLibrary(libraryWith([version5], 5))[0]).toEqual(defaultMaterials[1]);
+  });
+
+  it('moves stored built-in silicon to the Sze & Ng Nv and keeps edited values', () => {
+    const previous = { ...defaultMaterials[0], Nv300: 1.04e19, holeDosMass: 0.56 };
+    expect(parseLibrary(libraryWith([previous], 6))[0]).toEqual(defaultMaterials[0]);
+    const edited = { ...previous, Nv300: 1.2e19 };
+    expect(parseLibrary(libraryWith([edited], 6))[0]).toMatchObject({ Nv300: 1.2e19, holeDosMass: defaultMaterials[0].holeDosMass });
+    const custom = { ...previous, id: 'strained-si' };
+    expect(parseLibrary(libraryWith([custom], 6))[0]).toMatchObject({ Nv300: 1.04e19, holeDosMass: 0.56 });
+  });
+
+  it('rejects a negative bandgap and an inverted fitted temperature range', () => {
+    const broken = { ...defaultMaterials[0], Eg0: -0.1, minTemperature: 700 };
+    try {
+      parseLibrary(libraryWith([broken]));
+      expect.unreachable();
+    } catch (error) {
+      expect((error as MaterialLibraryError).issues).toEqual([
+        'materials[0].Eg0 must be positive',
+        'materials[0].minTemperature must be below maxTemperature'
+      ]);
+    }
+  });
+
+  it('exposes the sign constraints for input fields', () => {
+    expect(materialFieldBounds('Nc300')).toEqual({ positive: true });
+    expect(materialFieldBounds('donorIonizationEnergy')).toEqual({ min: 0 });
+    expect(materialFieldBounds('temperatureCoeff')).toEqual({});
+    expect(materialFieldBounds('holeMobility', 'muMin')).toEqual({ min: 0 });
+    expect(materialFieldBounds('slotboomNarrowing', 'Nref')).toEqual({ positive: true });
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() => parseLibrary(libraryWith([defaultMaterials[0], defaultMaterials[0]]))).toThrow('is duplicated');
+  });
+
+  it('rejects ids reserved for alloys', () => {
+    expect(() => parseLibrary(libraryWith([{ ...defaultMaterials[0], id: 'alloy:gaas-alas' }]))).toThrow('must not start with "alloy:"');
+  });
+
+  it('drops unknown fields', () => {
+    const [material] = parseLibrary(libraryWith([{ ...defaultMaterials[0], script: 'alert(1)' }]));
+    expect(material).toEqual(defaultMaterials[0]);
+  });
+
+  it('persists to storage and falls back to defaults when the entry is corrupt', () => {
+    const storage = memoryStorage();
+    expect(loadLibrary(storage)).toBe(defaultMaterials);
+
+    const renamed = [{ ...defaultMaterials[0], name: 'Si (vetted)' }];
+    saveLibrary(renamed, storage);
+    expect(loadLibrary(storage)).toEqual(renamed);
+
+    storage.setItem(MATERIAL_LIBRARY_STORAGE_KEY, '{broken');
+    expect(loadLibrary(storage)).toBe(defaultMaterials);
+  });
+
+  it('reports a full storage as a library error', () => {
+    const full = {
+      getItem: () => null,
+      setItem: () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); }
+    };
+    expect(() => saveLibrary(defaultMaterials, full)).toThrow('Could not save the material library: browser storage is full');
+  });
+
+  it('tracks modifications against the built-in entry with the same id', () => {
+    expect(isMaterialModified(defaultMaterials[1])).toBe(false);
+    expect(isMaterialModified({ ...defaultMaterials[1], Eg0: 0.75 })).toBe(true);
+    expect(isMaterialModified({ ...defaultMaterials[1], id: 'custom' })).toBe(false);
+    expect(isMaterialModified({ ...defaultMaterials[1], holeMobility: { ...defaultMaterials[1].holeMobility } })).toBe(false);
+    expect(isMaterialModified({ ...defaultMaterials[1], holeMobility: { ...defaultMaterials[1].holeMobility, mu0: 1900 } })).toBe(true);
+    expect(isMaterialModified({ ...defaultMaterials[1], slotboomNarrowing: { ...defaultMaterials[1].slotboomNarrowing, C: 0 } })).toBe(true);
+  });
+});
@@ -0,0 +1,291 @@
+import { ALLOY_ID_PREFIX } from '../physics/alloy';
+import {
+  BandgapModel,
+  defaultMaterials,
+  DensityOfStatesModel,
+  MaterialProperties
+} from '../physics/materials';
+import { NumberBounds } from '../utils/number';
+
+// Version 2 added the per-material mobility parameters, version 3 the permittivity,
+// version 4 the effective-mass density of states, version 5 bandgap narrowing,
+// version 6 the fitted temperature range and version 7 the Sze & Ng silicon Nv
+export const MATERIAL_LIBRARY_VERSION = 7;
+export const MATERIAL_LIBRARY_STORAGE_KEY = 'semicalc.materialLibrary';
+
+export interface MaterialLibraryFile {
+  format: 'semicalc-material-library';
+  version: number;
+  materials: MaterialProperties[];
+}
+
+export type LibraryStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export class MaterialLibraryError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'MaterialLibraryError';
+  }
+}
+
+const BANDGAP_MODELS: BandgapModel[] = ['linear', 'varshni', 'bose-einstein'];
+const DENSITY_OF_STATES_MODELS: DensityOfStatesModel[] = ['fixed', 'effective-mass'];
+
+// Fields that must be strictly positive or non-negative for the engine to make sense
+const POSITIVE_FIELDS: (keyof MaterialProperties)[] = [
+  'bandgap',
+  'Eg0',
+  'Nc300',
+  'Nv300',
+  'donorDegeneracy',
+  'acceptorDegeneracy',
+  'varshniBeta',
+  'boseEinsteinTheta',
+  'relativePermittivity',
+  'electronDosMass',
+  'holeDosMass',
+  'conductionValleys',
+  'minTemperature',
+  'maxTemperature'
+];
+const NON_NEGATIVE_FIELDS: (keyof MaterialProperties)[] = ['donorIonizationEnergy', 'acceptorIonizationEnergy'];
+
+const NUMERIC_FIELDS = (Object.keys(defaultMaterials[0]) as (keyof MaterialProperties)[])
+  .filter((key) => typeof defaultMaterials[0][key] === 'number');
+
+type NestedField = 'electronMobility' | 'holeMobility' | 'slotboomNarrowing' | 'delAlamoNarrowing';
+
+// Parameter groups stored as nested objects, with their own sign constraints
+interface NestedGroup {
+  fields: NestedField[];
+  parameters: string[];
+  positive: string[];
+  nonNegative: string[];
+}
+
+const NESTED_GROUPS: NestedGroup[] = [
+  {
+    fields: ['electronMobility', 'holeMobility'],
+    parameters: Object.keys(defaultMaterials[0].electronMobility),
+    positive: ['mu0', 'Nref', 'alpha'],
+    nonNegative: ['muMin']
+  },
+  {
+    fields: ['slotboomNarrowing', 'delAlamoNarrowing'],
+    parameters: Object.keys(defaultMaterials[0].slotboomNarrowing),
+    positive: ['Nref'],
+    nonNegative: ['E0', 'C']
+  }
+];
+
+// Sign constraint of a field, or of one parameter of a nested group, for input fields
+export const materialFieldBounds = (field: keyof MaterialProperties, parameter?: string): NumberBounds => {
+  const group = NESTED_GROUPS.find(({ fields }) => fields.some((nested) => nested === field));
+  const key = group && parameter !== undefined ? parameter : field;
+  const positive: string[] = group && parameter !== undefined ? group.positive : POSITIVE_FIELDS;
+  const nonNegative: string[] = group && parameter !== undefined ? group.nonNegative : NON_NEGATIVE_FIELDS;
+  if (positive.includes(key)) return { positive: true };
+  return nonNegative.includes(key) ? { min: 0 } : {};
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Schema versions count up from 1; anything newer than the latest is from a later release
+export const isSupportedVersion = (value: unknown, latest: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= latest;
+
+const validateMaterial = (raw: unknown, index: number): string[] => {
+  const where = `materials[${index}]`;
+  if (!isRecord(raw)) return [`${where} is not an object`];
+
+  const issues: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id.trim() === '') issues.push(`${where}.id must be a non-empty string`);
+  else if (raw.id.startsWith(ALLOY_ID_PREFIX)) issues.push(`${where}.id must not start with "${ALLOY_ID_PREFIX}"`);
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') issues.push(`${where}.name must be a non-empty string`);
+  if (!BANDGAP_MODELS.includes(raw.bandgapModel as BandgapModel)) {
+    issues.push(`${where}.bandgapModel must be one of ${BANDGAP_MODELS.join(', ')}`);
+  }
+  if (!DENSITY_OF_STATES_MODELS.includes(raw.densityOfStatesModel as DensityOfStatesModel)) {
+    issues.push(`${where}.densityOfStatesModel must be one of ${DENSITY_OF_STATES_MODELS.join(', ')}`);
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const value = raw[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${where}.${field} must be a finite number`);
+    } else if (POSITIVE_FIELDS.includes(field) && value <= 0) {
+      issues.push(`${where}.${field} must be positive`);
+    } else if (NON_NEGATIVE_FIELDS.includes(field) && value < 0) {
+      issues.push(`${where}.${field} must not be negative`);
+    }
+  }
+  if (typeof raw.minTemperature === 'number' && typeof raw.maxTemperature === 'number'
+    && raw.minTemperature >= raw.maxTemperature) {
+    issues.push(`${where}.minTemperature must be below maxTemperature`);
+  }
+  for (const { fields, parameters, positive, nonNegative } of NESTED_GROUPS) {
+    for (const field of fields) {
+      const params = raw[field];
+      if (!isRecord(params)) {
+        issues.push(`${where}.${field} must be an object`);
+        continue;
+      }
+      for (const key of parameters) {
+        const value = params[key];
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          issues.push(`${where}.${field}.${key} must be a finite number`);
+        } else if (positive.includes(key) && value <= 0) {
+          issues.push(`${where}.${field}.${key} must be positive`);
+        } else if (nonNegative.includes(key) && value < 0) {
+          issues.push(`${where}.${field}.${key} must not be negative`);
+        }
+      }
+    }
+  }
+  return issues;
+};
+
+// Built-in silicon before version 7, which gave ni ≈ 6e9 with the Varshni gap
+const PREVIOUS_SILICON_NV = { Nv300: 1.04e19, holeDosMass: 0.56 };
+
+// Older files lack the fields added since; borrow them from the matching
+// built-in material, or from silicon for custom entries.
+const migrateMaterial = (raw: unknown, version: number): unknown => {
+  if (version >= MATERIAL_LIBRARY_VERSION || !isRecord(raw)) return raw;
+  const fallback = (typeof raw.id === 'string' ? defaultMaterialFor(raw.id) : undefined) ?? defaultMaterials[0];
+  const added: Partial<MaterialProperties> = {};
+  if (version < 2) {
+    added.electronMobility = fallback.electronMobility;
+    added.holeMobility = fallback.holeMobility;
+  }
+  if (version < 3) added.relativePermittivity = fallback.relativePermittivity;
+  if (version < 4) {
+    // Older files always used the stored Nc300 and Nv300
+    added.densityOfStatesModel = 'fixed';
+    added.electronDosMass = fallback.electronDosMass;
+    added.holeDosMass = fallback.holeDosMass;
+    added.conductionValleys = fallback.conductionValleys;
+  }
+  if (version < 5) {
+    added.slotboomNarrowing = fallback.slotboomNarrowing;
+    added.delAlamoNarrowing = fallback.delAlamoNarrowing;
+  }
+  if (version < 6) {
+    added.minTemperature = fallback.minTemperature;
+    added.maxTemperature = fallback.maxTemperature;
+  }
+  // Silicon entries still holding the old built-in Nv take the new one; edited values stay
+  const updated: Partial<MaterialProperties> = {};
+  if (version < 7 && raw.id === 'silicon') {
+    if (raw.Nv300 === PREVIOUS_SILICON_NV.Nv300) updated.Nv300 = fallback.Nv300;
+    if (raw.holeDosMass === PREVIOUS_SILICON_NV.holeDosMass) updated.holeDosMass = fallback.holeDosMass;
+  }
+  return { ...added, ...raw, ...updated };
+};
+
+// Copies only the known fields so that stray keys in a file never reach the engine.
+// The entry has already passed validateMaterial, which is what the cast relies on.
+const pickMaterial = (raw: Record<string, unknown>): MaterialProperties => {
+  const nested = NESTED_GROUPS.flatMap(({ fields, parameters }) => fields.map((field) => {
+    const params = raw[field];
+    return [field, isRecord(params) ? Object.fromEntries(parameters.map((key) => [key, params[key]])) : params];
+  }));
+  return Object.fromEntries([
+    ...['id', 'name', 'bandgapModel', 'densityOfStatesModel', ...NUMERIC_FIELDS].map((field) => [field, raw[field]]),
+    ...nested
+  ]) as MaterialProperties;
+};
+
+export const parseLibrary = (json: string): MaterialProperties[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MaterialLibraryError('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== 'semicalc-material-library') {
+    throw new MaterialLibraryError('File is not a material library export');
+  }
+  if (!isSupportedVersion(data.version, MATERIAL_LIBRARY_VERSION)) {
+    throw new MaterialLibraryError(`Unsupported library version ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.materials) || data.materials.length === 0) {
+    throw new MaterialLibraryError('Library must contain at least one material');
+  }
+
+  return parseMaterials(data.materials, data.version);
+};
+
+// Migrates and validates raw entries written with the given schema version
+export const parseMaterials = (raw: unknown[], version: number): MaterialProperties[] => {
+  const materials = raw.map((material) => migrateMaterial(material, version));
+  const issues = materials.flatMap(validateMaterial);
+  const ids = materials.map((material) => (isRecord(material) ? material.id : undefined));
+  ids.forEach((id, index) => {
+    if (ids.indexOf(id) !== index) issues.push(`materials[${index}].id "${String(id)}" is duplicated`);
+  });
+  if (issues.length > 0) {
+    throw new MaterialLibraryError('Library failed validation', issues);
+  }
+
+  return (materials as Record<string, unknown>[]).map(pickMaterial);
+};
+
+export const serializeLibrary = (materials: MaterialProperties[]): string => {
+  const file: MaterialLibraryFile = {
+    format: 'semicalc-material-library',
+    version: MATERIAL_LIBRARY_VERSION,
+    materials
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const loadLibrary = (storage: LibraryStorage = window.localStorage): MaterialProperties[] => {
+  const stored = storage.getItem(MATERIAL_LIBRARY_STORAGE_KEY);
+  if (stored === null) return defaultMaterials;
+  try {
+    return parseLibrary(stored);
+  } catch {
+    // A corrupted or incompatible entry should never lock the user out of the app
+    return defaultMaterials;
+  }
+};
+
+// Why a storage write failed, worded to follow "Could not save …: "
+export const storageFailureReason = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') return 'browser storage is full';
+  return error instanceof Error ? error.message : String(error);
+};
+
+export const saveLibrary = (materials: MaterialProperties[], storage: LibraryStorage = window.localStorage) => {
+  try {
+    storage.setItem(MATERIAL_LIBRARY_STORAGE_KEY, serializeLibrary(materials));
+  } catch (error) {
+    throw new MaterialLibraryError(`Could not save the material library: ${storageFailureReason(error)}`);
+  }
+};
+
+export const createMaterialId = (): string => {
+  return `material-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const defaultMaterialFor = (id: string): MaterialProperties | undefined => {
+  return defaultMaterials.find((material) => material.id === id);
+};
+
+export const materialsEqual = (a: MaterialProperties, b: MaterialProperties): boolean => {
+  const nestedChanged = NESTED_GROUPS.some(({ fields, parameters }) => fields.some((field) => {
+    const before: Record<string, number> = { ...a[field] };
+    const after: Record<string, number> = { ...b[field] };
+    return parameters.some((key) => before[key] !== after[key]);
+  }));
+  return !nestedChanged && (Object.keys(a) as (keyof MaterialProperties)[])
+    .filter((key) => typeof a[key] !== 'object')
+    .every((key) => a[key] === b[key]);
+};
+
+export const isMaterialModified = (material: MaterialProperties): boolean => {
+  const original = defaultMaterialFor(material.id);
+  return original !== undefined && !materialsEqual(original, material);
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { alloyDefinitions } from '../physics/alloy';
+import { defaultMaterials } from '../physics/materials';
+import {
+  decodeScenario,
+  defaultScenario,
+  encodeScenario,
+  loadSavedScenarios,
+  mergeScenarioMaterial,
+  SAVED_SCENARIOS_STORAGE_KEY,
+  saveSavedScenarios,
+  Scenario,
+  ScenarioError,
+  scenarioFromHash,
+  scenarioHash,
+  scenariosEqual
+} from './scenario';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  };
+};
+
+const edited: Scenario = {
+  ...defaultScenario,
+  material: { ...defaultMaterials[0], name: 'Si – wafer lot 7', Eg0: 1.1695 },
+  temperature: 412,
+  donorConc: 3.3e17,
+  acceptorConc: 1.2e15,
+  constants: { ...defaultScenario.constants, kB: 8.6e-5 },
+  narrowing: 'del-alamo',
+  illuminated: true
+};
+
+describe('scenario links', () => {
+  it('round-trips every input including edited material values', () => {
+    const decoded = decodeScenario(encodeScenario(edited));
+    expect(decoded).toEqual(edited);
+    expect(scenariosEqual(decoded, edited)).toBe(true);
+    expect(scenarioFromHash(scenarioHash(edited))).toEqual(edited);
+  });
+
+  it('uses URL-safe characters only', () => {
+    expect(encodeScenario(edited)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('carries alloys by id and composition', () => {
+    const alloy: Scenario = { ...defaultScenario, materialId: alloyDefinitions[0].id, material: null, composition: 0.35 };
+    expect(decodeScenario(encodeScenario(alloy))).toEqual(alloy);
+  });
+
+  it('ignores URLs without a scenario and rejects broken ones', () => {
+    expect(scenarioFromHash('')).toBeNull();
+    expect(scenarioFromHash('#results')).toBeNull();
+    expect(() => scenarioFromHash('#scenario=%%%')).toThrow('Link does not contain a readable scenario');
+  });
+
+  it('lists every invalid field', () => {
+    const broken = { ...edited, temperature: -5, ionization: 'partial', material: { ...defaultMaterials[0], Nc300: 0 } };
+    try {
+      decodeScenario(encodeScenario(broken as unknown as Scenario));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScenarioError);
+      expect((error as ScenarioError).issues).toEqual([
+        'temperature must be a positive number',
+        'ionization must be one of complete, incomplete',
+        'material.Nc300 must be positive'
+      ]);
+    }
+  });
+});
+
+describe('mergeScenarioMaterial', () => {
+  it('reuses an identical library entry', () => {
+    const merged = mergeScenarioMaterial(defaultMaterials, defaultScenario, 'copy');
+    expect(merged).toEqual({ materials: defaultMaterials, materialId: 'silicon' });
+  });
+
+  it('keeps the local entry and adds a copy when the values differ', () => {
+    const merged = mergeScenarioMaterial(defaultMaterials, edited, 'copy');
+    expect(merged.materials.slice(0, 3)).toEqual(defaultMaterials);
+    expect(merged.materials[3]).toMatchObject({ name: 'Si – wafer lot 7 (scenario)', Eg0: 1.1695 });
+    expect(merged.materialId).toBe(merged.materials[3].id);
+  });
+
+  it('reuses an earlier copy with the same values', () => {
+    const first = mergeScenarioMaterial(defaultMaterials, edited, 'copy');
+    const second = mergeScenarioMaterial(first.materials, edited, 'copy');
+    expect(second).toEqual(first);
+  });
+
+  it('overwrites the entry when restoring history', () => {
+    const merged = mergeScenarioMaterial(defaultMaterials, edited, 'replace');
+    expect(merged.materials[0]).toEqual(edited.material);
+    expect(merged.materials).toHaveLength(3);
+  });
+});
+
+describe('saved scenarios', () => {
+  it('persists the list with each parameter set', () => {
+    const storage = memoryStorage();
+    expect(loadSavedScenarios(storage)).toEqual([]);
+    const saved = [{ id: 's1', name: 'Hot wafer', savedAt: '2026-01-02T03:04:05.000Z', scenario: edited }];
+    saveSavedScenarios(saved, storage);
+    expect(loadSavedScenarios(storage)).toEqual(saved);
+  });
+
+  it('drops entries that no longer validate', () => {
+    const storage = memoryStorage();
+    saveSavedScenarios([
+      { id: 'good', name: 'Good', savedAt: '', scenario: defaultScenario },
+      { id: 'bad', name: 'Bad', savedAt: '', scenario: { ...defaultScenario, thickness: 0 } }
+    ], storage);
+    expect(loadSavedScenarios(storage).map((entry) => entry.id)).toEqual(['good']);
+    storage.setItem(SAVED_SCENARIOS_STORAGE_KEY, '{broken');
+    expect(loadSavedScenarios(storage)).toEqual([]);
+  });
+
+  it('drops entries with a malformed schema version', () => {
+    const storage = memoryStorage();
+    saveSavedScenarios([{ id: 'old', name: 'Old', savedAt: '', scenario: defaultScenario }], storage);
+    for (const version of [0, 0.5]) {
+      const [entry] = JSON.parse(storage.getItem(SAVED_SCENARIOS_STORAGE_KEY)!);
+      storage.setItem(SAVED_SCENARIOS_STORAGE_KEY, JSON.stringify([{ ...entry, scenario: { ...entry.scenario, version } }]));
+      expect(loadSavedScenarios(storage)).toEqual([]);
+    }
+  });
+
+  it('reports a full storage as a scenario error', () => {
+    const full = {
+      getItem: () => null,
+      setItem: () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); }
+    };
+    expect(() => saveSavedScenarios([], full)).toThrow(new ScenarioError('Could not save the scenarios: browser storage is full'));
+  });
+});
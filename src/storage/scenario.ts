@@ -0,0 +1,269 @@
+import { alloyDefinitions } from '../physics/alloy';
+import { defaultConstants, PhysicalConstants } from '../physics/constants';
+import { CarrierStatistics, IonizationModel } from '../physics/engine';
+import { defaultMaterials, MaterialProperties } from '../physics/materials';
+import { BandgapNarrowingModel, bandgapNarrowingModels } from '../physics/narrowing';
+import { defaultRecombination, RecombinationParameters } from '../physics/recombination';
+import {
+  createMaterialId,
+  isSupportedVersion,
+  MATERIAL_LIBRARY_VERSION,
+  MaterialLibraryError,
+  materialsEqual,
+  parseMaterials,
+  storageFailureReason
+} from './materialLibrary';
+
+export const SCENARIO_VERSION = 1;
+export const SAVED_SCENARIOS_STORAGE_KEY = 'semicalc.savedScenarios';
+const HASH_PREFIX = '#scenario=';
+
+// Every input that decides the results. Library materials travel with their
+// full parameter set so that a link reproduces edited values exactly.
+export interface Scenario {
+  materialId: string; // library material or alloy definition
+  material: MaterialProperties | null; // parameter set used, null for alloys
+  composition: number; // alloy x
+  temperature: number; // K
+  donorConc: number; // cm^-3
+  acceptorConc: number; // cm^-3
+  constants: PhysicalConstants;
+  ionization: IonizationModel;
+  statistics: CarrierStatistics;
+  narrowing: BandgapNarrowingModel;
+  thickness: number; // µm
+  illuminated: boolean;
+  generationRate: number; // cm^-3 s^-1
+  recombination: RecombinationParameters;
+}
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  scenario: Scenario;
+}
+
+export type ScenarioStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export class ScenarioError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export const defaultScenario: Scenario = {
+  materialId: defaultMaterials[0].id,
+  material: defaultMaterials[0],
+  composition: 0.3,
+  temperature: 300,
+  donorConc: 1e16,
+  acceptorConc: 0,
+  constants: defaultConstants,
+  ionization: 'incomplete',
+  statistics: 'boltzmann',
+  narrowing: 'none',
+  thickness: 500,
+  illuminated: false,
+  generationRate: 1e20,
+  recombination: defaultRecombination
+};
+
+const IONIZATION_MODELS: IonizationModel[] = ['complete', 'incomplete'];
+const CARRIER_STATISTICS: CarrierStatistics[] = ['boltzmann', 'fermi-dirac'];
+const NARROWING_MODELS = Object.keys(bandgapNarrowingModels) as BandgapNarrowingModel[];
+
+const POSITIVE_FIELDS = ['temperature', 'thickness'] as const;
+const NON_NEGATIVE_FIELDS = ['composition', 'donorConc', 'acceptorConc', 'generationRate'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checks every value of a nested group and returns a copy holding only the known keys
+const pickNumbers = <T extends object>(
+  raw: unknown,
+  template: T,
+  field: string,
+  issues: string[],
+  positive = false
+): T => {
+  if (!isRecord(raw)) {
+    issues.push(`${field} must be an object`);
+    return template;
+  }
+  for (const key of Object.keys(template)) {
+    const value = raw[key];
+    if (!isFiniteNumber(value) || value < 0 || (positive && value === 0)) {
+      issues.push(`${field}.${key} must be a ${positive ? 'positive' : 'non-negative'} number`);
+    }
+  }
+  return Object.fromEntries(Object.keys(template).map((key) => [key, raw[key]])) as T;
+};
+
+const parseScenario = (raw: unknown): Scenario => {
+  if (!isRecord(raw)) throw new ScenarioError('Scenario is not an object');
+  if (!isSupportedVersion(raw.version, SCENARIO_VERSION)) {
+    throw new ScenarioError(`Unsupported scenario version ${String(raw.version)}`);
+  }
+
+  const issues: string[] = [];
+  for (const field of POSITIVE_FIELDS) {
+    if (!isFiniteNumber(raw[field]) || raw[field] <= 0) issues.push(`${field} must be a positive number`);
+  }
+  for (const field of NON_NEGATIVE_FIELDS) {
+    if (!isFiniteNumber(raw[field]) || raw[field] < 0) issues.push(`${field} must be a non-negative number`);
+  }
+  if (isFiniteNumber(raw.composition) && raw.composition > 1) issues.push('composition must not exceed 1');
+  if (!IONIZATION_MODELS.includes(raw.ionization as IonizationModel)) {
+    issues.push(`ionization must be one of ${IONIZATION_MODELS.join(', ')}`);
+  }
+  if (!CARRIER_STATISTICS.includes(raw.statistics as CarrierStatistics)) {
+    issues.push(`statistics must be one of ${CARRIER_STATISTICS.join(', ')}`);
+  }
+  if (!NARROWING_MODELS.includes(raw.narrowing as BandgapNarrowingModel)) {
+    issues.push(`narrowing must be one of ${NARROWING_MODELS.join(', ')}`);
+  }
+  if (typeof raw.illuminated !== 'boolean') issues.push('illuminated must be true or false');
+  const constants = pickNumbers(raw.constants, defaultConstants, 'constants', issues, true);
+  const recombination = pickNumbers(raw.recombination, defaultRecombination, 'recombination', issues);
+
+  let material: MaterialProperties | null = null;
+  if (raw.material === null) {
+    if (!alloyDefinitions.some((alloy) => alloy.id === raw.materialId)) {
+      issues.push(`materialId "${String(raw.materialId)}" is not a known alloy`);
+    }
+  } else if (!isSupportedVersion(raw.materialVersion, MATERIAL_LIBRARY_VERSION)) {
+    issues.push(`Unsupported material version ${String(raw.materialVersion)}`);
+  } else {
+    try {
+      [material] = parseMaterials([raw.material], raw.materialVersion);
+    } catch (error) {
+      if (!(error instanceof MaterialLibraryError)) throw error;
+      issues.push(...error.issues.map((issue) => issue.replace('materials[0]', 'material')));
+    }
+  }
+
+  if (issues.length > 0) throw new ScenarioError('Scenario failed validation', issues);
+
+  return {
+    materialId: material?.id ?? (raw.materialId as string),
+    material,
+    composition: raw.composition as number,
+    temperature: raw.temperature as number,
+    donorConc: raw.donorConc as number,
+    acceptorConc: raw.acceptorConc as number,
+    constants,
+    ionization: raw.ionization as IonizationModel,
+    statistics: raw.statistics as CarrierStatistics,
+    narrowing: raw.narrowing as BandgapNarrowingModel,
+    thickness: raw.thickness as number,
+    illuminated: raw.illuminated as boolean,
+    generationRate: raw.generationRate as number,
+    recombination
+  };
+};
+
+const toPayload = (scenario: Scenario) => ({
+  version: SCENARIO_VERSION,
+  materialVersion: MATERIAL_LIBRARY_VERSION,
+  ...scenario
+});
+
+// Base64url keeps the link free of characters that need escaping
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodeScenario = (scenario: Scenario): string => toBase64Url(JSON.stringify(toPayload(scenario)));
+
+export const decodeScenario = (encoded: string): Scenario => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new ScenarioError('Link does not contain a readable scenario');
+  }
+  return parseScenario(data);
+};
+
+export const scenarioHash = (scenario: Scenario): string => `${HASH_PREFIX}${encodeScenario(scenario)}`;
+
+// Null when the URL carries no scenario; throws when it carries a broken one
+export const scenarioFromHash = (hash: string): Scenario | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  return decodeScenario(hash.slice(HASH_PREFIX.length));
+};
+
+export const scenariosEqual = (a: Scenario, b: Scenario): boolean => {
+  return JSON.stringify({ ...a, material: null }) === JSON.stringify({ ...b, material: null })
+    && (a.material === null || b.material === null ? a.material === b.material : materialsEqual(a.material, b.material));
+};
+
+// Puts the scenario's parameter set into the library. 'replace' overwrites an
+// entry with the same id (undo/redo); 'copy' keeps the user's entry and adds
+// the differing parameter set alongside it (shared links, saved scenarios),
+// reusing an earlier copy with the same values instead of adding another.
+export const mergeScenarioMaterial = (
+  materials: MaterialProperties[],
+  scenario: Scenario,
+  mode: 'replace' | 'copy'
+): { materials: MaterialProperties[]; materialId: string } => {
+  const { material } = scenario;
+  if (material === null) return { materials, materialId: scenario.materialId };
+
+  const existing = materials.find((entry) => entry.id === material.id);
+  if (!existing) return { materials: [...materials, material], materialId: material.id };
+  if (materialsEqual(existing, material)) return { materials, materialId: material.id };
+  if (mode === 'replace') {
+    return { materials: materials.map((entry) => (entry.id === material.id ? material : entry)), materialId: material.id };
+  }
+  const sameValues = materials.find((entry) => materialsEqual(entry, { ...material, id: entry.id, name: entry.name }));
+  if (sameValues) return { materials, materialId: sameValues.id };
+  const copy = { ...material, id: createMaterialId(), name: `${material.name} (scenario)` };
+  return { materials: [...materials, copy], materialId: copy.id };
+};
+
+export const loadSavedScenarios = (storage: ScenarioStorage = window.localStorage): SavedScenario[] => {
+  const stored = storage.getItem(SAVED_SCENARIOS_STORAGE_KEY);
+  if (stored === null) return [];
+  try {
+    const entries: unknown = JSON.parse(stored);
+    if (!Array.isArray(entries)) return [];
+    // Entries that no longer validate are dropped rather than failing the whole list
+    return entries.flatMap((entry) => {
+      if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string') return [];
+      try {
+        return [{ id: entry.id, name: entry.name, savedAt: String(entry.savedAt), scenario: parseScenario(entry.scenario) }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedScenarios = (
+  scenarios: SavedScenario[],
+  storage: ScenarioStorage = window.localStorage
+) => {
+  const entries = scenarios.map((entry) => ({ ...entry, scenario: toPayload(entry.scenario) }));
+  try {
+    storage.setItem(SAVED_SCENARIOS_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    throw new ScenarioError(`Could not save the scenarios: ${storageFailureReason(error)}`);
+  }
+};
+
+export const createScenarioId = (): string => {
+  return `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
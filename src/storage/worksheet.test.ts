@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KB } from '../physics/constants';
+import { defaultMaterials } from '../physics/materials';
+import { buildWorksheet } from '../physics/worksheet';
+import { worksheetToLatex, worksheetToMarkdown } from './worksheet';
+
+const worksheet = buildWorksheet({
+  material: { ...defaultMaterials[0], name: 'Si_100 & more' },
+  temperature: 300,
+  donorConc: 1e16,
+  acceptorConc: 0,
+  kB: DEFAULT_KB,
+  ionization: 'complete'
+});
+
+describe('worksheet export', () => {
+  it('writes a standalone LaTeX document with one align* block per step', () => {
+    const latex = worksheetToLatex(worksheet);
+    expect(latex.startsWith('\\documentclass{article}')).toBe(true);
+    expect(latex.trimEnd().endsWith('\\end{document}')).toBe(true);
+    expect(latex.match(/\\begin\{align\*\}/g)).toHaveLength(worksheet.steps.length);
+    expect(latex).toContain('\\subsection*{2. Thermal energy}');
+    expect(latex).toContain('kT &= k_B T \\\\\n  &= 8.617 \\times 10^{-5} \\times 300 \\\\\n  &= 0.02585\\,\\mathrm{eV}');
+    expect(latex).toContain('Si\\_100 \\& more');
+  });
+
+  it('writes Markdown with plain-text notes and display math', () => {
+    const markdown = worksheetToMarkdown(worksheet);
+    expect(markdown).toMatch(/^# Carrier concentration worksheet\n\nBranch taken: Closed form, majority ≈ \|ND − NA\|\./);
+    expect(markdown).toContain('## 1. Inputs\n\nSi_100 & more; complete ionization');
+    expect(markdown.match(/\$\$\n\\begin\{aligned\}/g)).toHaveLength(worksheet.steps.length);
+  });
+});
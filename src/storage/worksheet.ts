@@ -0,0 +1,44 @@
+import { Worksheet, worksheetBranches } from '../physics/worksheet';
+
+const TITLE = 'Carrier concentration worksheet';
+
+// A standalone amsmath document; each step's equations share one align* block
+export const worksheetToLatex = ({ branch, steps }: Worksheet): string => {
+  const body = steps.map(({ title, note, equations }, i) => [
+    `\\subsection*{${i + 1}. ${title}}`,
+    ...(note ? [note.latex] : []),
+    '\\begin{align*}',
+    equations.map(({ latex }) => `  ${latex}`).join(' \\\\[4pt]\n'),
+    '\\end{align*}'
+  ].join('\n'));
+
+  return [
+    '\\documentclass{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage{amsmath}',
+    '\\begin{document}',
+    `\\section*{${TITLE}}`,
+    `Branch taken: ${worksheetBranches[branch].latex}.`,
+    '',
+    body.join('\n\n'),
+    '\\end{document}',
+    ''
+  ].join('\n');
+};
+
+// Notes stay as plain text; each step's equations form one display-math
+// aligned block, which GitHub, GitLab and editors with KaTeX or MathJax render
+export const worksheetToMarkdown = ({ branch, steps }: Worksheet): string => {
+  const body = steps.map(({ title, note, equations }, i) => [
+    `## ${i + 1}. ${title}`,
+    ...(note ? ['', note.text] : []),
+    '',
+    '$$',
+    '\\begin{aligned}',
+    equations.map(({ latex }) => `  ${latex}`).join(' \\\\[4pt]\n'),
+    '\\end{aligned}',
+    '$$'
+  ].join('\n'));
+
+  return [`# ${TITLE}`, '', `Branch taken: ${worksheetBranches[branch].text}.`, '', body.join('\n\n'), ''].join('\n');
+};
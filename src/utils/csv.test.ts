@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCsv('a, b ,c\r\n1,2,3\n\n4,5,6')).toEqual([['a', 'b', 'c'], ['1', '2', '3'], ['4', '5', '6']]);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('"Si, lot ""A""",300\n"two\nlines",1')).toEqual([['Si, lot "A"', '300'], ['two\nlines', '1']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const rows = [['name', 'value'], ['Si, "edited"', 1.234567890123457e-7]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows.map((row) => row.map(String)));
+  });
+});
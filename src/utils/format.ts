@@ -0,0 +1,32 @@
+export const formatScientific = (value: number): string => {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  const coefficient = value / Math.pow(10, exponent);
+  return `${coefficient.toFixed(2)} × 10^${exponent}`;
+};
+
+export const formatEnergy = (value: number): string => {
+  return `${(value * 1000).toFixed(1)} meV`;
+};
+
+export const formatDeviation = (approximate: number, exact: number): string => {
+  const deviation = (approximate - exact) / exact * 100;
+  return `${deviation >= 0 ? '+' : ''}${deviation.toFixed(1)}%`;
+};
+
+export const formatFraction = (ionized: number, total: number): string => {
+  if (total === 0) return '—';
+  return `${(ionized / total * 100).toFixed(1)}%`;
+};
+
+export const formatDecade = (value: number): string => {
+  return `10^${Math.round(Math.log10(value))}`;
+};
+
+// Densities carried as log10 values, which can lie far below the smallest double
+export const formatLog10 = (log10Value: number): string => {
+  if (log10Value === -Infinity) return '0';
+  const exponent = Math.floor(log10Value);
+  const coefficient = Math.pow(10, log10Value - exponent);
+  return `${coefficient.toFixed(2)} × 10^${exponent}`;
+};
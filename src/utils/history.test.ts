@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, pushHistory, redoHistory, undoHistory } from './history';
+
+describe('history', () => {
+  it('undoes and redoes in order', () => {
+    const history = pushHistory(pushHistory(createHistory(1), 2), 3);
+    const undone = undoHistory(undoHistory(history));
+    expect(undone).toEqual({ past: [], present: 1, future: [2, 3] });
+    expect(redoHistory(undone)).toEqual({ past: [1], present: 2, future: [3] });
+  });
+
+  it('leaves the history alone at either end', () => {
+    const history = createHistory('a');
+    expect(undoHistory(history)).toBe(history);
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it('drops the redo branch on a new value and caps the past', () => {
+    const branched = pushHistory(undoHistory(pushHistory(createHistory(1), 2)), 5);
+    expect(branched).toEqual({ past: [1], present: 5, future: [] });
+    const capped = [2, 3, 4, 5].reduce((history, value) => pushHistory(history, value, 3), createHistory(1));
+    expect(capped.past).toEqual([2, 3, 4]);
+  });
+});
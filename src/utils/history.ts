@@ -0,0 +1,35 @@
+// Undo/redo stacks around the current value
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// A new value starts a fresh branch, so anything that was undone is dropped
+export const pushHistory = <T>(history: History<T>, next: T, limit = MAX_HISTORY): History<T> => ({
+  past: [...history.past, history.present].slice(-limit),
+  present: next,
+  future: []
+});
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatNumberInput, parseNumber } from './number';
+
+describe('parseNumber', () => {
+  it('accepts decimals and engineering notation', () => {
+    expect(parseNumber('1e16').value).toBe(1e16);
+    expect(parseNumber(' 5E17 ').value).toBe(5e17);
+    expect(parseNumber('-2.5e-3').value).toBe(-2.5e-3);
+    expect(parseNumber('.5').value).toBe(0.5);
+  });
+
+  it('rejects empty fields and text that Number() would coerce', () => {
+    expect(parseNumber('')).toEqual({ value: null, error: 'Enter a value' });
+    expect(parseNumber('0x10').value).toBeNull();
+    expect(parseNumber('Infinity').value).toBeNull();
+    expect(parseNumber('1e').value).toBeNull();
+    expect(parseNumber('1e400').value).toBeNull();
+  });
+
+  it('enforces the bounds', () => {
+    expect(parseNumber('-1', { min: 0 }).error).toBe('Must be at least 0');
+    expect(parseNumber('0', { positive: true }).error).toBe('Must be greater than 0');
+    expect(parseNumber('900', { max: 800 }).error).toBe('Must be at most 800');
+  });
+});
+
+describe('formatNumberInput', () => {
+  it('uses e-notation for very large and very small values', () => {
+    expect(formatNumberInput(1e16)).toBe('1e16');
+    expect(formatNumberInput(2.5e-5)).toBe('2.5e-5');
+    expect(formatNumberInput(300)).toBe('300');
+    expect(parseNumber(formatNumberInput(1.234e17)).value).toBe(1.234e17);
+  });
+});
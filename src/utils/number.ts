@@ -0,0 +1,33 @@
+export interface NumberBounds {
+  min?: number;
+  max?: number;
+  positive?: boolean; // strictly greater than zero
+}
+
+export type ParsedNumber = { value: number; error: null } | { value: null; error: string };
+
+// Plain decimals and engineering notation such as 1e16, 5E17 or 2.5e-3. Unlike
+// Number(), an empty field is not zero and hex, 'Infinity' or '1e' are rejected.
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+export const parseNumber = (text: string, { min, max, positive }: NumberBounds = {}): ParsedNumber => {
+  const trimmed = text.trim();
+  if (trimmed === '') return { value: null, error: 'Enter a value' };
+  const value = Number(trimmed);
+  if (!NUMBER_PATTERN.test(trimmed) || !Number.isFinite(value)) {
+    return { value: null, error: `"${trimmed}" is not a number (e.g. 1e16)` };
+  }
+  if (positive && value <= 0) return { value: null, error: 'Must be greater than 0' };
+  if (min !== undefined && value < min) return { value: null, error: `Must be at least ${min}` };
+  if (max !== undefined && value > max) return { value: null, error: `Must be at most ${max}` };
+  return { value, error: null };
+};
+
+// Very large and very small values are shown in e-notation, as they are typed
+export const formatNumberInput = (value: number): string => {
+  const magnitude = Math.abs(value);
+  if (value !== 0 && (magnitude >= 1e5 || magnitude < 1e-3)) {
+    return value.toExponential().replace('e+', 'e');
+  }
+  return String(value);
+};
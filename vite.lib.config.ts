@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite';
+
+// Builds the React-free library and CLI core for Node: npm run build:lib
+export default defineConfig({
+  build: {
+    outDir: 'lib',
+    target: 'node18',
+    sourcemap: true,
+    lib: {
+      entry: 'src/index.ts',
+      formats: ['es'],
+      fileName: 'index'
+    }
+  }
+});